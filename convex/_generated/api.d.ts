@@ -15,11 +15,36 @@ import type {
 } from "convex/server";
 import type * as auth from "../auth.js";
 import type * as conversion from "../conversion.js";
+import type * as converters from "../converters.js";
 import type * as crons from "../crons.js";
+import type * as documentLayout from "../documentLayout.js";
+import type * as docxToPdf from "../docxToPdf.js";
 import type * as files from "../files.js";
+import type * as htmlToPdf from "../htmlToPdf.js";
 import type * as http from "../http.js";
 import type * as imageUploads from "../imageUploads.js";
+import type * as imageLayout from "../imageLayout.js";
+import type * as imageNormalize from "../imageNormalize.js";
+import type * as imageToPdf from "../imageToPdf.js";
+import type * as localPdfToDocx from "../localPdfToDocx.js";
+import type * as markdownToPdf from "../markdownToPdf.js";
+import type * as ocr from "../ocr.js";
+import type * as pageOperations from "../pageOperations.js";
+import type * as pageRanges from "../pageRanges.js";
+import type * as pageSpace from "../pageSpace.js";
 import type * as pdfFiles from "../pdfFiles.js";
+import type * as pdfCompress from "../pdfCompress.js";
+import type * as pdfOrganize from "../pdfOrganize.js";
+import type * as pdfOutline from "../pdfOutline.js";
+import type * as pdfPageLabels from "../pdfPageLabels.js";
+import type * as pdfProtect from "../pdfProtect.js";
+import type * as pdfSources from "../pdfSources.js";
+import type * as pdfSplit from "../pdfSplit.js";
+import type * as pdfStampNumbers from "../pdfStampNumbers.js";
+import type * as pdfText from "../pdfText.js";
+import type * as pdfToImages from "../pdfToImages.js";
+import type * as pdfWatermark from "../pdfWatermark.js";
+import type * as providers from "../providers.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -32,11 +57,36 @@ import type * as pdfFiles from "../pdfFiles.js";
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
   conversion: typeof conversion;
+  converters: typeof converters;
   crons: typeof crons;
+  documentLayout: typeof documentLayout;
+  docxToPdf: typeof docxToPdf;
   files: typeof files;
+  htmlToPdf: typeof htmlToPdf;
   http: typeof http;
   imageUploads: typeof imageUploads;
+  imageLayout: typeof imageLayout;
+  imageNormalize: typeof imageNormalize;
+  imageToPdf: typeof imageToPdf;
+  localPdfToDocx: typeof localPdfToDocx;
+  markdownToPdf: typeof markdownToPdf;
+  ocr: typeof ocr;
+  pageOperations: typeof pageOperations;
+  pageRanges: typeof pageRanges;
+  pageSpace: typeof pageSpace;
   pdfFiles: typeof pdfFiles;
+  pdfCompress: typeof pdfCompress;
+  pdfOrganize: typeof pdfOrganize;
+  pdfOutline: typeof pdfOutline;
+  pdfPageLabels: typeof pdfPageLabels;
+  pdfProtect: typeof pdfProtect;
+  pdfSources: typeof pdfSources;
+  pdfSplit: typeof pdfSplit;
+  pdfStampNumbers: typeof pdfStampNumbers;
+  pdfText: typeof pdfText;
+  pdfToImages: typeof pdfToImages;
+  pdfWatermark: typeof pdfWatermark;
+  providers: typeof providers;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
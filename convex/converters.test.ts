@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  converterIds,
+  converterOptions,
+  formatBatesNumber,
+  getOptionsError,
+  getOutputExtension,
+  getProtectOptionsError,
+  splitPasswords,
+  withPasswords,
+} from "./converters";
+
+describe("getOptionsError", () => {
+  it("declares options for every converter", () => {
+    expect(Object.keys(converterOptions).sort()).toEqual([...converterIds].sort());
+  });
+
+  it("accepts options of the converter's shape, or none", () => {
+    expect(getOptionsError("pdf_split", { mode: "ranges", ranges: "1-3" })).toBeNull();
+    expect(getOptionsError("markdown_to_pdf", { theme: "academic", coverPage: null })).toBeNull();
+    expect(getOptionsError("pdf_merger", {
+      sources: [{ pages: "1-2", rotation: 90 }, {}],
+      stampNumbers: { footer: { center: "{page}" } },
+      protect: { userPassword: "secret", permissions: ["print"] },
+    })).toBeNull();
+    expect(getOptionsError("pdf_to_word", undefined)).toBeNull();
+  });
+
+  it("names the first option that does not fit", () => {
+    expect(getOptionsError("pdf_merger", { sources: [{}, { rotation: 45 }] })).toBe(
+      "PDF Merger: the sources[1].rotation option is not valid"
+    );
+    expect(getOptionsError("ocr", { languages: ["eng"], output: "pdf", dpi: 300 })).toBe("OCR: the dpi option is not valid");
+    expect(getOptionsError("pdf_compress", {})).toBe("Compress PDF: the preset option is not valid");
+    expect(getOptionsError("pdf_split", { mode: "every" })).toBe("Split PDF: the options are not valid");
+    expect(getOptionsError("pdf_to_word", {})).toBe("PDF to Word does not take any options");
+  });
+});
+
+describe("getProtectOptionsError", () => {
+  it("needs a password, and two different ones when both are given", () => {
+    expect(getProtectOptionsError({ permissions: ["print"] })).toMatch("Enter a password");
+    expect(getProtectOptionsError({ userPassword: "a", ownerPassword: "a" })).toMatch("must be different");
+    expect(getProtectOptionsError({ ownerPassword: "a", permissions: ["print", "copy"] })).toBeNull();
+  });
+
+  it("limits passwords to 127 bytes of UTF-8", () => {
+    expect(getProtectOptionsError({ userPassword: "é".repeat(63) })).toBeNull();
+    expect(getProtectOptionsError({ userPassword: "é".repeat(64) })).toMatch("at most 127 bytes");
+  });
+});
+
+describe("splitPasswords", () => {
+  it("takes the passwords out of the options of pdf_protect", () => {
+    const { options, passwords } = splitPasswords("pdf_protect", { userPassword: "open", ownerPassword: "", permissions: ["print"] });
+    expect(options).toEqual({ permissions: ["print"] });
+    expect(passwords).toEqual({ userPassword: "open" });
+    expect(withPasswords("pdf_protect", options, passwords)).toEqual({ userPassword: "open", permissions: ["print"] });
+  });
+
+  it("takes them out of the protect option of other converters", () => {
+    const { options, passwords } = splitPasswords("pdf_merger", { outline: true, protect: { ownerPassword: "owner" } });
+    expect(options).toEqual({ outline: true, protect: {} });
+    expect(withPasswords("pdf_merger", options, passwords)).toEqual({ outline: true, protect: { ownerPassword: "owner" } });
+  });
+
+  it("leaves options without passwords alone", () => {
+    expect(splitPasswords("pdf_split", { ranges: "1-2" })).toEqual({ options: { ranges: "1-2" } });
+    expect(splitPasswords("image_to_pdf", undefined)).toEqual({ options: undefined });
+  });
+});
+
+describe("getOutputExtension", () => {
+  it("follows the format chosen in the options", () => {
+    expect(getOutputExtension("pdf_to_text", { format: "markdown" })).toBe("md");
+    expect(getOutputExtension("ocr", { output: "docx" })).toBe("docx");
+    expect(getOutputExtension("pdf_compress", { preset: "ebook" })).toBe("pdf");
+  });
+});
+
+describe("formatBatesNumber", () => {
+  it("pads the counter to the number of digits", () => {
+    expect(formatBatesNumber("ACME-", 6, 42)).toBe("ACME-000042");
+    expect(formatBatesNumber("", 2, 1234)).toBe("1234");
+  });
+});
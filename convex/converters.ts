@@ -0,0 +1,978 @@
+import { v, GenericValidator, OptionalProperty, Validator } from "convex/values";
+import { PageRotation } from "./pageOperations";
+import { ImageLayoutOptions, PAGE_SIZES, PageLabelOptions, PageSizeName } from "./imageLayout";
+
+// Converter registry shared by the schema, the job mutations and the UI.
+// Each entry describes what a tool accepts and produces; the handler that
+// does the work lives in conversion.ts (keyed by the same id) because it
+// needs the Node runtime, which the schema and the browser cannot import.
+
+export const MIME_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  tiff: "image/tiff",
+  bmp: "image/bmp",
+  heic: "image/heic",
+  heif: "image/heif",
+  avif: "image/avif",
+  zip: "application/zip",
+  markdown: "text/markdown",
+  html: "text/html",
+  text: "text/plain",
+  json: "application/json",
+} as const;
+
+// Images image_to_pdf can read. JPEG and PNG are embedded as they are unless
+// they need rotating or a colour profile removed; the rest are converted to
+// one of the two on the server first. Extensions cover browsers that leave
+// File.type empty, which is common for HEIC.
+export const IMAGE_INPUT_FORMATS = [
+  { label: "JPEG", mimeTypes: [MIME_TYPES.jpeg], extensions: ["jpg", "jpeg"] },
+  { label: "PNG", mimeTypes: [MIME_TYPES.png], extensions: ["png"] },
+  { label: "WebP", mimeTypes: [MIME_TYPES.webp], extensions: ["webp"] },
+  { label: "HEIC", mimeTypes: [MIME_TYPES.heic, MIME_TYPES.heif], extensions: ["heic", "heif"] },
+  { label: "TIFF", mimeTypes: [MIME_TYPES.tiff], extensions: ["tif", "tiff"] },
+  { label: "GIF", mimeTypes: [MIME_TYPES.gif], extensions: ["gif"] },
+  { label: "BMP", mimeTypes: [MIME_TYPES.bmp, "image/x-ms-bmp"], extensions: ["bmp"] },
+  { label: "AVIF", mimeTypes: [MIME_TYPES.avif], extensions: ["avif"] },
+] as const;
+
+export interface ConverterDefinition {
+  id: string;
+  // Short name used in badges and messages
+  label: string;
+  // Heading of the tool card and tool page
+  title: string;
+  description: string;
+  // MIME types accepted as input; a trailing "/*" matches a whole family.
+  // Entries starting with "." are file extensions for the file picker.
+  accept: readonly string[];
+  minInputs: number;
+  maxInputs: number;
+  maxFileSizeMb: number;
+  outputMimeType: string;
+  outputExtension: string;
+}
+
+export const converters = [
+  {
+    id: "pdf_to_word",
+    label: "PDF to Word",
+    title: "PDF to Word Converter",
+    description: "Convert PDF files to editable Word documents easily",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    outputMimeType: MIME_TYPES.docx,
+    outputExtension: "docx",
+  },
+  {
+    id: "word_to_pdf",
+    label: "Word to PDF",
+    title: "Word to PDF Converter",
+    description: "Turn Word documents into PDFs with their headings, lists, tables and images",
+    accept: [MIME_TYPES.docx, ".docx"],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "markdown_to_pdf",
+    label: "Markdown to PDF",
+    title: "Markdown to PDF Converter",
+    description: "Typeset Markdown with tables, highlighted code, a cover page and contents",
+    // The Markdown file first, then any images it references
+    accept: [
+      MIME_TYPES.markdown,
+      "text/x-markdown",
+      ".md",
+      ".markdown",
+      ...IMAGE_INPUT_FORMATS.flatMap((format) => [
+        ...format.mimeTypes,
+        ...format.extensions.map((extension) => `.${extension}`),
+      ]),
+    ],
+    minInputs: 1,
+    maxInputs: 50,
+    maxFileSizeMb: 10,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "html_to_pdf",
+    label: "HTML to PDF",
+    title: "HTML to PDF Converter",
+    description: "Turn HTML pages and exported reports into paginated PDFs",
+    // A single page, or a ZIP with the page and its images
+    accept: [MIME_TYPES.html, ".html", ".htm", MIME_TYPES.zip, "application/x-zip-compressed", ".zip"],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 25,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "image_to_pdf",
+    label: "Image to PDF",
+    title: "Image to PDF Converter",
+    description: "Convert your images to PDF format with ease",
+    accept: IMAGE_INPUT_FORMATS.flatMap((format) => [
+      ...format.mimeTypes,
+      ...format.extensions.map((extension) => `.${extension}`),
+    ]),
+    minInputs: 1,
+    maxInputs: 50,
+    maxFileSizeMb: 10,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "pdf_merger",
+    label: "PDF Merger",
+    title: "PDF Merger",
+    description: "Combine multiple PDF files into a single document",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 2,
+    maxInputs: 20,
+    maxFileSizeMb: 50,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "pdf_split",
+    label: "Split PDF",
+    title: "Split PDF",
+    description: "Split a PDF into several files by page ranges",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    // Every part is also stored on its own; the ZIP bundles them for one download
+    outputMimeType: MIME_TYPES.zip,
+    outputExtension: "zip",
+  },
+  {
+    id: "pdf_organize",
+    label: "Organize Pages",
+    title: "Organize PDF Pages",
+    description: "Reorder, rotate and delete the pages of a PDF",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "pdf_compress",
+    label: "Compress PDF",
+    title: "Compress PDF",
+    description: "Shrink a PDF by downsampling its images and removing unused data",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 100,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "pdf_to_images",
+    label: "PDF to Images",
+    title: "PDF to Images",
+    description: "Export PDF pages as PNG or JPEG images",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    // One image per page, plus a ZIP of all of them
+    outputMimeType: MIME_TYPES.zip,
+    outputExtension: "zip",
+  },
+  {
+    id: "pdf_to_text",
+    label: "PDF to Text",
+    title: "PDF to Text",
+    description: "Extract the text of a PDF as plain text, Markdown or JSON",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    // Plain text unless the job asks for another of TEXT_EXPORT_FORMATS
+    outputMimeType: MIME_TYPES.text,
+    outputExtension: "txt",
+  },
+  {
+    id: "ocr",
+    label: "OCR",
+    title: "OCR Scanned Documents",
+    description: "Recognize the text of scanned PDFs and images to make them searchable",
+    accept: [
+      MIME_TYPES.pdf,
+      ...IMAGE_INPUT_FORMATS.flatMap((format) => [
+        ...format.mimeTypes,
+        ...format.extensions.map((extension) => `.${extension}`),
+      ]),
+    ],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    // A searchable PDF unless the job asks for another of OCR_OUTPUT_FORMATS
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "pdf_watermark",
+    label: "Watermark",
+    title: "Watermark PDF",
+    description: "Stamp text such as CONFIDENTIAL or a logo onto the pages of a PDF",
+    // The PDF first, then the logo for image watermarks
+    accept: [
+      MIME_TYPES.pdf,
+      ...IMAGE_INPUT_FORMATS.flatMap((format) => [
+        ...format.mimeTypes,
+        ...format.extensions.map((extension) => `.${extension}`),
+      ]),
+    ],
+    minInputs: 1,
+    maxInputs: 2,
+    maxFileSizeMb: 50,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "pdf_stamp_numbers",
+    label: "Page Numbers",
+    title: "Add Page Numbers",
+    description: "Stamp page numbers, Bates numbers or header and footer text onto a PDF",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+  {
+    id: "pdf_protect",
+    label: "Protect",
+    title: "Protect PDF",
+    description: "Encrypt a PDF with a password and limit printing, copying and editing",
+    accept: [MIME_TYPES.pdf],
+    minInputs: 1,
+    maxInputs: 1,
+    maxFileSizeMb: 50,
+    outputMimeType: MIME_TYPES.pdf,
+    outputExtension: "pdf",
+  },
+] as const satisfies readonly ConverterDefinition[];
+
+export type Converter = (typeof converters)[number];
+
+export type ConverterId = Converter["id"];
+
+// Options for image_to_pdf: page size, orientation, margin and fit mode plus
+// the header/footer, applied the same way by the server and the browser fallback
+export type ImageToPdfOptions = ImageLayoutOptions & {
+  labels?: PageLabelOptions;
+  // Original image names in the order of sourceFileIds, for captions
+  sourceFileNames?: string[];
+  // Every frame of an animated GIF becomes a page instead of just the first.
+  // Multi-page TIFFs always get one page per frame.
+  expandGifFrames?: boolean;
+  // Encrypt the PDF before it is stored
+  protect?: PdfProtectOptions;
+};
+
+// Images one image_to_pdf job may place, counting each TIFF or GIF frame
+export const IMAGE_TO_PDF_MAX_PAGES = 200;
+
+// Options for pdf_split: one file per range ("1-3,5,8-"), fixed-size chunks,
+// or one file per page
+export type PdfSplitOptions =
+  | { mode: "ranges"; ranges: string }
+  | { mode: "every"; pagesPerFile: number }
+  | { mode: "single" };
+
+// Per-source settings for pdf_merger, in the same order as sourceFileIds.
+// `pages` uses the page range syntax ("2-4", "1,3-") and defaults to all pages.
+export type MergeSourceOptions = {
+  // Original file name, used for the source's bookmark
+  fileName?: string;
+  pages?: string;
+  rotation?: PageRotation;
+};
+
+export type PdfMergeOptions = {
+  sources?: MergeSourceOptions[];
+  // One bookmark per source file; on unless set to false
+  outline?: boolean;
+  // Nest each source's own bookmarks under its entry
+  preserveSourceOutlines?: boolean;
+  // Generated table of contents in front of the merged pages
+  tableOfContents?: boolean;
+  // What to do with encrypted, corrupt or empty inputs: leave them out and
+  // finish with warnings (the default), or fail the whole job
+  onInvalidSource?: "skip" | "fail";
+  // Page numbers, Bates numbers or header/footer text stamped on the merged
+  // pages, as pdf_stamp_numbers would
+  stampNumbers?: PdfStampNumbersOptions;
+  // Encrypt the merged PDF before it is stored
+  protect?: PdfProtectOptions;
+};
+
+// Image settings of the pdf_compress presets, after Ghostscript's
+// /screen, /ebook and /printer. Quality is passed to the JPEG encoder (0-1).
+export const COMPRESSION_PRESETS = {
+  screen: { label: "Screen", description: "Smallest file, for viewing on screen", imageDpi: 72, jpegQuality: 0.5 },
+  ebook: { label: "eBook", description: "Balanced size and quality", imageDpi: 150, jpegQuality: 0.7 },
+  print: { label: "Print", description: "High quality, for printing", imageDpi: 300, jpegQuality: 0.85 },
+} as const;
+
+export type CompressionPreset = keyof typeof COMPRESSION_PRESETS;
+
+// What imageDpi and jpegQuality may override the presets with
+export const COMPRESSION_IMAGE_DPI = { min: 36, max: 600 } as const;
+export const COMPRESSION_JPEG_QUALITY = { min: 0.1, max: 1 } as const;
+
+export type PdfCompressOptions = {
+  preset: CompressionPreset;
+  // Override the preset's image settings
+  imageDpi?: number;
+  jpegQuality?: number;
+};
+
+// Image formats pdf_to_images can write
+export const PAGE_IMAGE_FORMATS = {
+  png: { label: "PNG", description: "Lossless, best for text and slides", mimeType: MIME_TYPES.png, extension: "png" },
+  jpeg: { label: "JPEG", description: "Smaller files, best for photos and scans", mimeType: MIME_TYPES.jpeg, extension: "jpg" },
+} as const;
+
+export type PageImageFormat = keyof typeof PAGE_IMAGE_FORMATS;
+
+// Resolutions pdf_to_images accepts; 72 DPI is one pixel per PDF point
+export const PAGE_IMAGE_DPI = { min: 36, max: 300, default: 150 } as const;
+
+// Pages one pdf_to_images job may render
+export const PDF_TO_IMAGES_MAX_PAGES = 100;
+
+export type PdfToImagesOptions = {
+  format: PageImageFormat;
+  dpi: number;
+  // Page range syntax ("1-3,5,8-"); all pages when left out
+  pages?: string;
+  // JPEG quality (0-1)
+  jpegQuality?: number;
+};
+
+// Formats pdf_to_text can write
+export const TEXT_EXPORT_FORMATS = {
+  text: { label: "Plain text", description: "Paragraphs separated by blank lines, pages by form feeds", mimeType: MIME_TYPES.text, extension: "txt" },
+  markdown: { label: "Markdown", description: "Headings and lists guessed from font sizes and bullets", mimeType: MIME_TYPES.markdown, extension: "md" },
+  json: { label: "JSON", description: "Pages, blocks and lines with their positions, for indexing", mimeType: MIME_TYPES.json, extension: "json" },
+} as const;
+
+export type TextExportFormat = keyof typeof TEXT_EXPORT_FORMATS;
+
+export type PdfToTextOptions = {
+  format: TextExportFormat;
+  // Page range syntax ("1-3,5,8-"); all pages when left out
+  pages?: string;
+};
+
+// Languages the OCR engine can read. Their trained data ships with the
+// deployment in the @tesseract.js-data packages, so nothing is downloaded.
+export const OCR_LANGUAGES = {
+  eng: { label: "English" },
+  deu: { label: "German" },
+  fra: { label: "French" },
+  spa: { label: "Spanish" },
+  ita: { label: "Italian" },
+  por: { label: "Portuguese" },
+  nld: { label: "Dutch" },
+} as const;
+
+export type OcrLanguage = keyof typeof OCR_LANGUAGES;
+
+// What ocr can write
+export const OCR_OUTPUT_FORMATS = {
+  pdf: { label: "Searchable PDF", description: "The original pages with an invisible text layer to search and copy", mimeType: MIME_TYPES.pdf, extension: "pdf" },
+  text: { label: "Plain text", description: "Paragraphs separated by blank lines, pages by form feeds", mimeType: MIME_TYPES.text, extension: "txt" },
+  docx: { label: "Word", description: "Editable paragraphs with a page break after every page", mimeType: MIME_TYPES.docx, extension: "docx" },
+} as const;
+
+export type OcrOutputFormat = keyof typeof OCR_OUTPUT_FORMATS;
+
+// Pages one ocr job may recognize, counting each TIFF frame
+export const OCR_MAX_PAGES = 50;
+
+// Pages recognized with a lower mean word confidence (0-100) are reported
+export const OCR_LOW_CONFIDENCE = 60;
+
+export type OcrOptions = {
+  // One or more; a page may mix them
+  languages: OcrLanguage[];
+  output: OcrOutputFormat;
+  // Pages or TIFF frames to recognize, in page range syntax ("1-3,5,8-"); all
+  // when left out. A searchable PDF keeps the other pages as they are.
+  pages?: string;
+};
+
+// Fonts for text watermarks, all standard PDF fonts so nothing is embedded
+export const WATERMARK_FONTS = {
+  helvetica: { label: "Helvetica" },
+  helveticaBold: { label: "Helvetica Bold" },
+  times: { label: "Times" },
+  timesBold: { label: "Times Bold" },
+  courier: { label: "Courier" },
+} as const;
+
+export type WatermarkFont = keyof typeof WATERMARK_FONTS;
+
+// Where a single watermark sits on the page as displayed
+export const WATERMARK_ANCHORS = {
+  topLeft: { label: "Top left" },
+  topRight: { label: "Top right" },
+  center: { label: "Centre" },
+  bottomLeft: { label: "Bottom left" },
+  bottomRight: { label: "Bottom right" },
+} as const;
+
+export type WatermarkAnchor = keyof typeof WATERMARK_ANCHORS;
+
+export const WATERMARK_DEFAULTS = {
+  text: "CONFIDENTIAL",
+  font: "helveticaBold",
+  fontSize: 60,
+  color: "#dc2626",
+  opacity: 0.3,
+  rotation: 45,
+  anchor: "center",
+  // Distance from the page edges for the corner anchors, and between tiles
+  margin: 36,
+  // Logo width as a fraction of the page width
+  imageScale: 0.3,
+} as const satisfies Partial<PdfWatermarkOptions>;
+
+export type PdfWatermarkOptions = {
+  // "image" stamps the second uploaded file
+  type: "text" | "image";
+  text?: string;
+  font?: WatermarkFont;
+  // Points
+  fontSize?: number;
+  // "#rrggbb"
+  color?: string;
+  imageScale?: number;
+  // 0 (invisible) to 1
+  opacity?: number;
+  // Degrees counterclockwise
+  rotation?: number;
+  anchor?: WatermarkAnchor;
+  margin?: number;
+  // Repeat the watermark across the whole page; the anchor is then ignored
+  tile?: boolean;
+  // Draw underneath the page content instead of over it. Scans and pages
+  // with an opaque background hide it.
+  behindContent?: boolean;
+  // Page range syntax ("1-3,5,8-"); all pages when left out
+  pages?: string;
+};
+
+// Placeholders in header and footer text, replaced on every stamped page
+export const STAMP_TOKENS = {
+  "{page}": { label: "Page number in the document" },
+  "{total}": { label: "Number of pages in the document" },
+  "{bates}": { label: "Bates number" },
+  "{filename}": { label: "File name without extension" },
+  "{date}": { label: "Date of stamping, YYYY-MM-DD" },
+} as const;
+
+// Text on the left, in the middle and on the right of the header or footer
+export type StampLine = {
+  left?: string;
+  center?: string;
+  right?: string;
+};
+
+export const STAMP_NUMBERS_DEFAULTS = {
+  batesPrefix: "",
+  batesDigits: 6,
+  batesStart: 1,
+  fontSize: 10,
+  margin: 24,
+} as const satisfies Partial<PdfStampNumbersOptions>;
+
+export const BATES_MAX_DIGITS = 12;
+
+export type PdfStampNumbersOptions = {
+  header?: StampLine;
+  footer?: StampLine;
+  // {bates} is the prefix followed by a counter zero padded to `batesDigits`,
+  // which starts at `batesStart` and goes up by one on every stamped page
+  batesPrefix?: string;
+  batesDigits?: number;
+  batesStart?: number;
+  // Points
+  fontSize?: number;
+  // Distance of the text from the page edges
+  margin?: number;
+  // Page range syntax ("1-3,5,8-"); all pages when left out. {page} and
+  // {total} still count every page of the document.
+  pages?: string;
+};
+
+export function formatBatesNumber(prefix: string, digits: number, value: number): string {
+  return prefix + String(value).padStart(digits, "0");
+}
+
+// What someone who opens a protected PDF with the user password may do.
+// The owner password lifts every restriction.
+export const PDF_PERMISSIONS = {
+  print: { label: "Print", description: "Print the document at full quality" },
+  copy: { label: "Copy", description: "Copy text and images out of the document" },
+  modify: { label: "Modify", description: "Edit the content and insert, delete or rotate pages" },
+  annotate: { label: "Annotate", description: "Add comments and fill in form fields" },
+} as const;
+
+export type PdfPermission = keyof typeof PDF_PERMISSIONS;
+
+// AES-256 passwords are UTF-8 and cut off after this many bytes
+export const PDF_PASSWORD_MAX_BYTES = 127;
+
+export type PdfProtectOptions = {
+  // Needed to open the document. Without one anyone can open it, and only
+  // the permissions are enforced, by viewers that respect them.
+  userPassword?: string;
+  // Needed to change the permissions; a random one nobody knows is used
+  // when left out
+  ownerPassword?: string;
+  // Everything not listed is denied; all are denied when left out
+  permissions?: PdfPermission[];
+};
+
+export function getProtectOptionsError(options: PdfProtectOptions): string | null {
+  const { userPassword = "", ownerPassword = "", permissions = [] } = options;
+  if (!userPassword && !ownerPassword) {
+    return "Enter a password to open the document, one to change its permissions, or both";
+  }
+  for (const password of [userPassword, ownerPassword]) {
+    if (new TextEncoder().encode(password).length > PDF_PASSWORD_MAX_BYTES) {
+      return `Passwords can be at most ${PDF_PASSWORD_MAX_BYTES} bytes long`;
+    }
+  }
+  if (userPassword && userPassword === ownerPassword) {
+    return "The owner password must be different from the password to open the document";
+  }
+  const unknown = permissions.find((permission) => !(permission in PDF_PERMISSIONS));
+  return unknown ? `Unknown permission: ${unknown}` : null;
+}
+
+// The passwords of a job whose output is protected. They are taken out of
+// the options before the job is stored and kept in the jobPasswords table,
+// which the action running the job empties when it reads them. They are not
+// passed as an argument, as Convex keeps the arguments of scheduled
+// functions in its _scheduled_functions table.
+export type JobPasswords = Pick<PdfProtectOptions, "userPassword" | "ownerPassword">;
+
+// Protect options of a job: the options of pdf_protect, or the `protect`
+// option of the converters that can protect what they write
+function getJobProtectOptions(type: ConverterId, options: unknown): PdfProtectOptions | undefined {
+  if (!options || typeof options !== "object") {
+    return undefined;
+  }
+  return type === "pdf_protect" ? (options as PdfProtectOptions) : (options as { protect?: PdfProtectOptions }).protect;
+}
+
+function setJobProtectOptions(type: ConverterId, options: unknown, protect: PdfProtectOptions): unknown {
+  return type === "pdf_protect" ? protect : { ...(options as object), protect };
+}
+
+// Options to store for a job and the passwords to keep apart for its action
+export function splitPasswords(type: ConverterId, options: unknown): { options: unknown; passwords?: JobPasswords } {
+  const protect = getJobProtectOptions(type, options);
+  if (!protect) {
+    return { options };
+  }
+  const { userPassword, ownerPassword, ...rest } = protect;
+  const passwords: JobPasswords = {
+    ...(userPassword ? { userPassword } : {}),
+    ...(ownerPassword ? { ownerPassword } : {}),
+  };
+  return {
+    options: setJobProtectOptions(type, options, rest),
+    ...(Object.keys(passwords).length > 0 ? { passwords } : {}),
+  };
+}
+
+// The options as they were submitted, for the action running the job
+export function withPasswords(type: ConverterId, options: unknown, passwords: JobPasswords | undefined): unknown {
+  const protect = getJobProtectOptions(type, options) ?? (type === "pdf_protect" ? {} : undefined);
+  if (!passwords || !protect) {
+    return options;
+  }
+  return setJobProtectOptions(type, options, { ...protect, ...passwords });
+}
+
+// Extension of a job's output. Converters that write one of several formats
+// take it from their options.
+export function getOutputExtension(type: ConverterId, options: unknown): string {
+  if (type === "pdf_to_text") {
+    const format = (options as PdfToTextOptions | undefined)?.format;
+    if (format && format in TEXT_EXPORT_FORMATS) {
+      return TEXT_EXPORT_FORMATS[format].extension;
+    }
+  }
+  if (type === "ocr") {
+    const output = (options as OcrOptions | undefined)?.output;
+    if (output && output in OCR_OUTPUT_FORMATS) {
+      return OCR_OUTPUT_FORMATS[output].extension;
+    }
+  }
+  return getConverter(type).outputExtension;
+}
+
+// Print themes of the document converters. The fonts and colours of each
+// are defined with the renderer in documentLayout.ts.
+export const DOCUMENT_THEMES = {
+  classic: { label: "Classic", description: "Helvetica with GitHub-style code highlighting" },
+  academic: { label: "Academic", description: "Times with justified text, for papers and reports" },
+  modern: { label: "Modern", description: "Coloured headings and dark code blocks" },
+} as const;
+
+export type DocumentTheme = keyof typeof DOCUMENT_THEMES;
+
+export type MarkdownToPdfOptions = {
+  theme?: DocumentTheme;
+  // Title page in front of the content; the title defaults to the first
+  // heading, then the file name
+  coverPage?: {
+    title?: string;
+    subtitle?: string;
+    author?: string;
+    date?: string;
+  } | null;
+  // Contents page listing headings down to level 3, with page numbers
+  tableOfContents?: boolean;
+  // Names of the uploads in the order of sourceFileIds. The first file is the
+  // Markdown; the images it references are looked up among the others by
+  // file name, ignoring folders.
+  sourceFileNames?: string[];
+};
+
+// Options for html_to_pdf. Sizes are in points; the defaults are A4
+// portrait with one-inch margins.
+export type HtmlToPdfOptions = {
+  pageSize?: Exclude<PageSizeName, "fit">;
+  orientation?: "portrait" | "landscape";
+  margins?: { top: number; right: number; bottom: number; left: number };
+};
+
+function oneOf<const T extends string>(values: readonly T[]) {
+  return v.union(...values.map((value) => v.literal(value)));
+}
+
+// Validators for the options above, as startJob accepts them. They check
+// the shape only; page ranges, sizes and the like are checked when the job
+// runs, or by the per-tool mutations in files.ts.
+export const PdfProtectOptions = v.object({
+  userPassword: v.optional(v.string()),
+  ownerPassword: v.optional(v.string()),
+  permissions: v.optional(v.array(oneOf(Object.keys(PDF_PERMISSIONS) as PdfPermission[]))),
+});
+
+export const JobPasswords = v.object({
+  userPassword: v.optional(v.string()),
+  ownerPassword: v.optional(v.string()),
+});
+
+export const StampLine = v.object({
+  left: v.optional(v.string()),
+  center: v.optional(v.string()),
+  right: v.optional(v.string()),
+});
+
+export const PdfStampNumbersOptions = v.object({
+  header: v.optional(StampLine),
+  footer: v.optional(StampLine),
+  batesPrefix: v.optional(v.string()),
+  batesDigits: v.optional(v.number()),
+  batesStart: v.optional(v.number()),
+  fontSize: v.optional(v.number()),
+  margin: v.optional(v.number()),
+  pages: v.optional(v.string()),
+});
+
+export const ImageGridOptions = v.object({
+  columns: v.number(),
+  rows: v.number(),
+  gutter: v.optional(v.number()),
+  captions: v.optional(v.boolean()),
+});
+
+export const ImageLabelOptions = v.object({
+  pageNumberFormat: v.optional(v.string()),
+  position: v.optional(oneOf(["header", "footer"])),
+  align: v.optional(oneOf(["left", "center", "right"])),
+  fontSize: v.optional(v.number()),
+  caption: v.optional(v.boolean()),
+});
+
+export const ImageToPdfOptions = v.object({
+  pageSize: v.optional(oneOf([...Object.keys(PAGE_SIZES) as (keyof typeof PAGE_SIZES)[], "fit"])),
+  orientation: v.optional(oneOf(["portrait", "landscape", "auto"])),
+  margin: v.optional(v.number()),
+  fit: v.optional(oneOf(["contain", "cover", "stretch"])),
+  grid: v.optional(v.union(ImageGridOptions, v.null())),
+  labels: v.optional(ImageLabelOptions),
+  sourceFileNames: v.optional(v.array(v.string())),
+  expandGifFrames: v.optional(v.boolean()),
+  protect: v.optional(PdfProtectOptions),
+});
+
+export const PdfSplitOptions = v.union(
+  v.object({ mode: v.literal("ranges"), ranges: v.string() }),
+  v.object({ mode: v.literal("every"), pagesPerFile: v.number() }),
+  v.object({ mode: v.literal("single") })
+);
+
+export const MergeSourceOptions = v.object({
+  fileName: v.optional(v.string()),
+  pages: v.optional(v.string()),
+  rotation: v.optional(v.union(v.literal(0), v.literal(90), v.literal(180), v.literal(270))),
+});
+
+export const PdfMergeOptions = v.object({
+  sources: v.optional(v.array(MergeSourceOptions)),
+  outline: v.optional(v.boolean()),
+  preserveSourceOutlines: v.optional(v.boolean()),
+  tableOfContents: v.optional(v.boolean()),
+  onInvalidSource: v.optional(oneOf(["skip", "fail"])),
+  stampNumbers: v.optional(PdfStampNumbersOptions),
+  protect: v.optional(PdfProtectOptions),
+});
+
+const PdfOrganizeOptions = v.object({
+  operations: v.array(v.union(
+    v.object({ type: v.literal("move"), page: v.number(), toPosition: v.number() }),
+    v.object({ type: v.literal("rotate"), page: v.number(), degrees: v.union(v.literal(90), v.literal(-90), v.literal(180)) }),
+    v.object({ type: v.literal("delete"), page: v.number() })
+  )),
+});
+
+export const PdfCompressOptions = v.object({
+  preset: oneOf(Object.keys(COMPRESSION_PRESETS) as CompressionPreset[]),
+  imageDpi: v.optional(v.number()),
+  jpegQuality: v.optional(v.number()),
+});
+
+export const PdfToImagesOptions = v.object({
+  format: oneOf(Object.keys(PAGE_IMAGE_FORMATS) as PageImageFormat[]),
+  dpi: v.number(),
+  pages: v.optional(v.string()),
+  jpegQuality: v.optional(v.number()),
+});
+
+export const PdfToTextOptions = v.object({
+  format: oneOf(Object.keys(TEXT_EXPORT_FORMATS) as TextExportFormat[]),
+  pages: v.optional(v.string()),
+});
+
+export const OcrOptions = v.object({
+  languages: v.array(oneOf(Object.keys(OCR_LANGUAGES) as OcrLanguage[])),
+  output: oneOf(Object.keys(OCR_OUTPUT_FORMATS) as OcrOutputFormat[]),
+  pages: v.optional(v.string()),
+});
+
+export const PdfWatermarkOptions = v.object({
+  type: oneOf(["text", "image"]),
+  text: v.optional(v.string()),
+  font: v.optional(oneOf(Object.keys(WATERMARK_FONTS) as WatermarkFont[])),
+  fontSize: v.optional(v.number()),
+  color: v.optional(v.string()),
+  imageScale: v.optional(v.number()),
+  opacity: v.optional(v.number()),
+  rotation: v.optional(v.number()),
+  anchor: v.optional(oneOf(Object.keys(WATERMARK_ANCHORS) as WatermarkAnchor[])),
+  margin: v.optional(v.number()),
+  tile: v.optional(v.boolean()),
+  behindContent: v.optional(v.boolean()),
+  pages: v.optional(v.string()),
+});
+
+export const MarkdownToPdfOptions = v.object({
+  theme: v.optional(oneOf(Object.keys(DOCUMENT_THEMES) as DocumentTheme[])),
+  coverPage: v.optional(v.union(
+    v.object({
+      title: v.optional(v.string()),
+      subtitle: v.optional(v.string()),
+      author: v.optional(v.string()),
+      date: v.optional(v.string()),
+    }),
+    v.null()
+  )),
+  tableOfContents: v.optional(v.boolean()),
+  sourceFileNames: v.optional(v.array(v.string())),
+});
+
+export const HtmlToPdfOptions = v.object({
+  pageSize: v.optional(oneOf(Object.keys(PAGE_SIZES) as (keyof typeof PAGE_SIZES)[])),
+  orientation: v.optional(oneOf(["portrait", "landscape"])),
+  margins: v.optional(v.object({ top: v.number(), right: v.number(), bottom: v.number(), left: v.number() })),
+});
+
+// The options each converter takes; null for those that take none
+export const converterOptions = {
+  pdf_to_word: null,
+  word_to_pdf: null,
+  markdown_to_pdf: MarkdownToPdfOptions,
+  html_to_pdf: HtmlToPdfOptions,
+  image_to_pdf: ImageToPdfOptions,
+  pdf_merger: PdfMergeOptions,
+  pdf_split: PdfSplitOptions,
+  pdf_organize: PdfOrganizeOptions,
+  pdf_compress: PdfCompressOptions,
+  pdf_to_images: PdfToImagesOptions,
+  pdf_to_text: PdfToTextOptions,
+  ocr: OcrOptions,
+  pdf_watermark: PdfWatermarkOptions,
+  pdf_stamp_numbers: PdfStampNumbersOptions,
+  pdf_protect: PdfProtectOptions,
+} as const satisfies Record<ConverterId, GenericValidator | null>;
+
+// The path of the first value that does not match the validator ("" for the
+// value itself), or null when everything matches. Convex checks declared
+// arguments, but options are a single v.any() argument, so they are walked
+// here.
+function findMismatch(validator: Validator<any, OptionalProperty, any>, value: unknown, path: string): string | null {
+  const at = (key: string | number) => typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+  switch (validator.kind) {
+    case "any":
+      return null;
+    case "null":
+      return value === null ? null : path;
+    case "boolean":
+      return typeof value === "boolean" ? null : path;
+    case "float64":
+      return typeof value === "number" ? null : path;
+    case "int64":
+      return typeof value === "bigint" ? null : path;
+    case "string":
+    case "id":
+      return typeof value === "string" ? null : path;
+    case "bytes":
+      return value instanceof ArrayBuffer ? null : path;
+    case "literal":
+      return value === validator.value ? null : path;
+    case "array": {
+      if (!Array.isArray(value)) {
+        return path;
+      }
+      for (let index = 0; index < value.length; index++) {
+        const mismatch = findMismatch(validator.element, value[index], at(index));
+        if (mismatch !== null) return mismatch;
+      }
+      return null;
+    }
+    case "record":
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return path;
+      }
+      const entries = Object.entries(value).filter(([, field]) => field !== undefined);
+      if (validator.kind === "record") {
+        for (const [key, field] of entries) {
+          const mismatch = findMismatch(validator.key, key, at(key)) ?? findMismatch(validator.value, field, at(key));
+          if (mismatch !== null) return mismatch;
+        }
+        return null;
+      }
+      const unknown = entries.find(([key]) => !(key in validator.fields));
+      if (unknown) {
+        return at(unknown[0]);
+      }
+      for (const [key, fieldValidator] of Object.entries(validator.fields)) {
+        const field = (value as Record<string, unknown>)[key];
+        const mismatch = field === undefined
+          ? (fieldValidator.isOptional === "optional" ? null : at(key))
+          : findMismatch(fieldValidator, field, at(key));
+        if (mismatch !== null) return mismatch;
+      }
+      return null;
+    }
+    case "union":
+      return validator.members.some((member) => findMismatch(member, value, path) === null) ? null : path;
+  }
+}
+
+// Why a job's options do not fit its converter, or null when they do.
+// Leaving the options out is always allowed; converters have defaults.
+export function getOptionsError(type: ConverterId, options: unknown): string | null {
+  if (options === undefined) {
+    return null;
+  }
+  const validator: GenericValidator | null = converterOptions[type];
+  const { label } = getConverter(type);
+  if (!validator) {
+    return `${label} does not take any options`;
+  }
+  const mismatch = findMismatch(validator, options, "");
+  if (mismatch === null) {
+    return null;
+  }
+  return mismatch ? `${label}: the ${mismatch} option is not valid` : `${label}: the options are not valid`;
+}
+
+export const converterIds = converters.map((converter) => converter.id) as ConverterId[];
+
+// Validator for the conversion `type` field, derived from the registry
+export const ConversionType = v.union(
+  ...converterIds.map((id) => v.literal(id))
+);
+
+export function getConverter(id: ConverterId): Converter {
+  const converter = converters.find((c) => c.id === id);
+  if (!converter) {
+    throw new Error(`Unknown converter: ${id}`);
+  }
+  return converter;
+}
+
+// Content type to upload a file with, from its extension when the browser did not set one
+export function getFileMimeType(file: { name: string; type: string }): string {
+  if (file.type) {
+    return file.type;
+  }
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (extension === 'pdf' || extension === 'docx') {
+    return MIME_TYPES[extension];
+  }
+  if (extension === 'md' || extension === 'markdown') {
+    return MIME_TYPES.markdown;
+  }
+  if (extension === 'html' || extension === 'htm') {
+    return MIME_TYPES.html;
+  }
+  if (extension === 'zip') {
+    return MIME_TYPES.zip;
+  }
+  const format = IMAGE_INPUT_FORMATS.find((f) => (f.extensions as readonly string[]).includes(extension));
+  return format ? format.mimeTypes[0] : 'application/octet-stream';
+}
+
+export function acceptsFile(converter: ConverterDefinition, file: { name: string; type: string }): boolean {
+  return acceptsMimeType(converter, getFileMimeType(file));
+}
+
+export function acceptsMimeType(converter: ConverterDefinition, mimeType: string): boolean {
+  return converter.accept.some((accepted) =>
+    accepted.endsWith("/*")
+      ? mimeType.startsWith(accepted.slice(0, -1))
+      : mimeType === accepted
+  );
+}
@@ -29,7 +29,26 @@ export const cleanupExpiredConversions = internalMutation({
         if (conversion.docxFileId) {
           await ctx.storage.delete(conversion.docxFileId);
         }
+
+        // Delete the converter output if it exists
+        if (conversion.outputFileId) {
+          await ctx.storage.delete(conversion.outputFileId);
+        }
+
+        // Delete the individual files of multi-output conversions
+        for (const output of conversion.outputs ?? []) {
+          await ctx.storage.delete(output.fileId);
+        }
         
+        // Delete the passwords of a job whose action never read them
+        const passwords = await ctx.db
+          .query("jobPasswords")
+          .withIndex("by_conversion", (q) => q.eq("conversionId", conversion._id))
+          .unique();
+        if (passwords) {
+          await ctx.db.delete(passwords._id);
+        }
+
         // Delete the conversion record
         await ctx.db.delete(conversion._id);
         deletedCount++;
@@ -0,0 +1,845 @@
+"use node";
+
+// Lays out structured documents as PDF pages with PDFKit. The Word and
+// Markdown converters turn their input into the blocks below (paragraphs,
+// tables, code, quotes, notes); this module owns pages, fonts and colours,
+// and adds the optional cover page, table of contents and bookmarks.
+//
+// Text is set in the PDF standard fonts, so only WinAnsi characters can be
+// shown; appendText replaces the rest with "?".
+
+import PDFDocument from 'pdfkit';
+import { DocumentTheme } from './converters';
+import { NormalizedImage } from './imageNormalize';
+
+export type Alignment = "left" | "center" | "right" | "justify";
+export type HeadingLevel = "title" | "subtitle" | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type TextStyle = {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  // Superscript or subscript, drawn smaller
+  script: boolean;
+  // Monospaced
+  code: boolean;
+  link: string | null;
+  // highlight.js scope of code, coloured by the theme
+  syntax: string | null;
+};
+
+export type TextSegment = TextStyle & { text: string };
+
+// A paragraph is split around images and page breaks, which PDFKit cannot
+// place inside a run of text
+export type InlinePart =
+  | { type: "text"; segments: TextSegment[] }
+  | { type: "image"; image: NormalizedImage }
+  | { type: "pageBreak" };
+
+export type TableCell = { blocks: Block[]; colSpan: number; rowSpan: number };
+export type TableRow = { header: boolean; cells: TableCell[] };
+
+export type Block =
+  | {
+    type: "paragraph";
+    parts: InlinePart[];
+    heading?: HeadingLevel;
+    align?: Alignment;
+    // Left indent in points
+    indent?: number;
+    // Nesting level and bullet or number; an empty marker continues the item
+    list?: { level: number; marker: string };
+  }
+  | { type: "table"; rows: TableRow[] }
+  // One entry per source line, wrapped where longer than the page
+  | { type: "code"; lines: TextSegment[][] }
+  // Block quotes (with a bar) and content nested in list items
+  | { type: "inset"; indent: number; bar: boolean; blocks: Block[] }
+  | { type: "rule" }
+  | { type: "pageBreak" }
+  // Footnotes, numbered from 1 in order
+  | { type: "notes"; notes: Block[][] };
+
+export type CoverPage = {
+  title: string;
+  subtitle?: string;
+  author?: string;
+  date?: string;
+};
+
+// Page size and margins in points
+export type PageSetup = {
+  width: number;
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+};
+
+export type RenderDocumentOptions = {
+  theme: DocumentTheme;
+  // A4 with one-inch margins by default
+  page?: PageSetup;
+  // Document title in the PDF metadata
+  title?: string;
+  cover?: CoverPage | null;
+  tableOfContents?: boolean;
+  // "N" centred in the footer of every page after the cover
+  pageNumbers?: boolean;
+};
+
+export type RenderedDocument = {
+  data: Buffer;
+  pageCount: number;
+};
+
+type ThemeStyle = {
+  fonts: { regular: string; bold: string; italic: string; boldItalic: string; mono: string; monoBold: string };
+  fontSize: number;
+  headingSizes: Record<HeadingLevel, number>;
+  // Paragraphs without an alignment of their own are justified
+  justify: boolean;
+  colors: {
+    text: string;
+    heading: string;
+    link: string;
+    muted: string;
+    border: string;
+    accent: string;
+    code: string;
+    codeBackground: string;
+  };
+  // Colours of highlight.js scopes in code blocks
+  syntax: Record<string, string>;
+};
+
+const HELVETICA = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+  italic: "Helvetica-Oblique",
+  boldItalic: "Helvetica-BoldOblique",
+  mono: "Courier",
+  monoBold: "Courier-Bold",
+};
+
+const THEME_STYLES: Record<DocumentTheme, ThemeStyle> = {
+  classic: {
+    fonts: HELVETICA,
+    fontSize: 11,
+    headingSizes: { title: 26, subtitle: 15, 1: 20, 2: 16, 3: 14, 4: 12, 5: 11, 6: 11 },
+    justify: false,
+    colors: {
+      text: "#111827",
+      heading: "#111827",
+      link: "#1d4ed8",
+      muted: "#6b7280",
+      border: "#9ca3af",
+      accent: "#1d4ed8",
+      code: "#24292e",
+      codeBackground: "#f3f4f6",
+    },
+    syntax: {
+      keyword: "#d73a49",
+      type: "#d73a49",
+      string: "#032f62",
+      regexp: "#032f62",
+      comment: "#6a737d",
+      number: "#005cc5",
+      literal: "#005cc5",
+      built_in: "#005cc5",
+      attr: "#005cc5",
+      title: "#6f42c1",
+      meta: "#735c0f",
+      tag: "#22863a",
+      name: "#22863a",
+    },
+  },
+  academic: {
+    fonts: {
+      regular: "Times-Roman",
+      bold: "Times-Bold",
+      italic: "Times-Italic",
+      boldItalic: "Times-BoldItalic",
+      mono: "Courier",
+      monoBold: "Courier-Bold",
+    },
+    fontSize: 11.5,
+    headingSizes: { title: 24, subtitle: 15, 1: 17, 2: 14, 3: 12.5, 4: 11.5, 5: 11.5, 6: 11.5 },
+    justify: true,
+    colors: {
+      text: "#000000",
+      heading: "#000000",
+      link: "#1e3a8a",
+      muted: "#4b5563",
+      border: "#6b7280",
+      accent: "#000000",
+      code: "#1f2937",
+      codeBackground: "#f5f5f5",
+    },
+    syntax: {
+      keyword: "#7f0055",
+      type: "#7f0055",
+      string: "#2a00ff",
+      regexp: "#2a00ff",
+      comment: "#3f7f5f",
+      title: "#000080",
+      meta: "#646464",
+      tag: "#3f7f7f",
+      attr: "#7f007f",
+    },
+  },
+  modern: {
+    fonts: HELVETICA,
+    fontSize: 10.5,
+    headingSizes: { title: 28, subtitle: 16, 1: 21, 2: 16, 3: 13, 4: 11.5, 5: 10.5, 6: 10.5 },
+    justify: false,
+    colors: {
+      text: "#1f2937",
+      heading: "#4338ca",
+      link: "#4f46e5",
+      muted: "#6b7280",
+      border: "#c7d2fe",
+      accent: "#6366f1",
+      code: "#e5e7eb",
+      codeBackground: "#1f2937",
+    },
+    syntax: {
+      keyword: "#c678dd",
+      type: "#e5c07b",
+      built_in: "#e5c07b",
+      string: "#98c379",
+      regexp: "#98c379",
+      comment: "#7f848e",
+      number: "#d19a66",
+      literal: "#d19a66",
+      title: "#61afef",
+      attr: "#d19a66",
+      meta: "#56b6c2",
+      tag: "#e06c75",
+      name: "#e06c75",
+    },
+  },
+};
+
+const DEFAULT_PAGE: PageSetup = {
+  width: 595.28,
+  height: 841.89,
+  margins: { top: 72, right: 72, bottom: 72, left: 72 },
+};
+// Indent per list level; list content other than paragraphs is inset by a
+// multiple of it
+export const LIST_INDENT = 18;
+const CELL_PADDING = 4;
+const CODE_PADDING = 6;
+const NOTE_SCALE = 0.82;
+// Heading levels listed in the table of contents
+const TOC_DEPTH = 3;
+// Images without a physical size are assumed to be 96 DPI, as Word does
+const POINTS_PER_PIXEL = 0.75;
+
+const BULLETS = ["•", "–", "·"];
+
+// The standard fonts cover Latin-1 plus the WinAnsi punctuation in 0x80-0x9F
+// (curly quotes, dashes, bullet, euro sign), which PDFKit maps itself
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+export function toWinAnsi(text: string): string {
+  return text.replace(/[^\n\x20-\x7E\xA0-\xFF]/g, (char) => (WIN_ANSI_EXTRAS.includes(char) ? char : "?"));
+}
+
+export const PLAIN_STYLE: TextStyle = {
+  bold: false,
+  italic: false,
+  underline: false,
+  strike: false,
+  script: false,
+  code: false,
+  link: null,
+  syntax: null,
+};
+
+// Bullet of a list item at `level`, alternating like Word's defaults
+export function getBullet(level: number): string {
+  return BULLETS[level % BULLETS.length];
+}
+
+function sameStyle(a: TextStyle, b: TextStyle): boolean {
+  return a.bold === b.bold && a.italic === b.italic && a.underline === b.underline && a.strike === b.strike
+    && a.script === b.script && a.code === b.code && a.link === b.link && a.syntax === b.syntax;
+}
+
+// Adds text to the end of a paragraph, merging it into the last segment when
+// the style is the same
+export function appendText(parts: InlinePart[], text: string, style: TextStyle) {
+  let last = parts[parts.length - 1];
+  if (last?.type !== "text") {
+    last = { type: "text", segments: [] };
+    parts.push(last);
+  }
+  const previous = last.segments[last.segments.length - 1];
+  if (previous && sameStyle(previous, style)) {
+    previous.text += toWinAnsi(text);
+  } else {
+    last.segments.push({ ...style, text: toWinAnsi(text) });
+  }
+}
+
+function getPlainText(parts: InlinePart[]): string {
+  return parts.map((part) => (part.type === "text" ? part.segments.map((segment) => segment.text).join("") : "")).join("");
+}
+
+type Heading = { text: string; level: number; page: number; destination: string };
+
+type RenderState = {
+  doc: PDFKit.PDFDocument;
+  theme: ThemeStyle;
+  // Headings for the bookmarks and the table of contents, in order
+  headings: Heading[];
+  // Inside a table cell no page break may be added
+  inTable: boolean;
+  // Headings in tables and notes are not listed
+  recordHeadings: boolean;
+};
+
+// Where blocks are drawn and the text settings they inherit
+type Frame = {
+  x: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+  color: string | null;
+};
+
+function getFont(theme: ThemeStyle, style: Pick<TextStyle, "bold" | "italic" | "code">): string {
+  const { fonts } = theme;
+  if (style.code) {
+    return style.bold ? fonts.monoBold : fonts.mono;
+  }
+  if (style.bold) {
+    return style.italic ? fonts.boldItalic : fonts.bold;
+  }
+  return style.italic ? fonts.italic : fonts.regular;
+}
+
+function getPageBottom(doc: PDFKit.PDFDocument): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function getPageIndex(doc: PDFKit.PDFDocument): number {
+  const { start, count } = doc.bufferedPageRange();
+  return start + count - 1;
+}
+
+function getImageSize(image: NormalizedImage, doc: PDFKit.PDFDocument, maxWidth: number) {
+  const maxHeight = getPageBottom(doc) - doc.page.margins.top;
+  const width = image.width * POINTS_PER_PIXEL;
+  const height = image.height * POINTS_PER_PIXEL;
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: width * scale, height: height * scale };
+}
+
+// Rough height of a cell's content, to decide whether a table row still fits
+// on the page. Measured in bold, which is the wider of the fonts.
+function estimateHeight(state: RenderState, blocks: Block[], width: number): number {
+  const { doc, theme } = state;
+  let height = 0;
+  for (const block of blocks) {
+    if (block.type === "paragraph") {
+      doc.font(theme.fonts.bold).fontSize(block.heading ? theme.headingSizes[block.heading] : theme.fontSize);
+      height += doc.heightOfString(getPlainText(block.parts) || " ", { width }) + theme.fontSize / 2;
+      for (const part of block.parts) {
+        height += part.type === "image" ? getImageSize(part.image, doc, width).height : 0;
+      }
+    } else if (block.type === "code") {
+      height += block.lines.length * theme.fontSize + 2 * CODE_PADDING;
+    } else if (block.type === "inset") {
+      height += estimateHeight(state, block.blocks, width - block.indent);
+    } else if (block.type === "table") {
+      height += block.rows.reduce((sum, row) =>
+        sum + Math.max(0, ...row.cells.map((cell) => estimateHeight(state, cell.blocks, width))), 0);
+    }
+  }
+  return height;
+}
+
+function renderSegments(state: RenderState, segments: TextSegment[], frame: Frame, fontSize: number, align: Alignment) {
+  // PDFKit loses the left edge after a line break inside continued text, so
+  // each line is set as a run of its own
+  const lines: TextSegment[][] = [[]];
+  for (const segment of segments) {
+    segment.text.split("\n").forEach((text, index) => {
+      if (index > 0) lines.push([]);
+      lines[lines.length - 1].push({ ...segment, text });
+    });
+  }
+  for (const line of lines) {
+    renderLine(state, line, frame, fontSize, align);
+  }
+}
+
+function renderLine(state: RenderState, segments: TextSegment[], frame: Frame, fontSize: number, align: Alignment) {
+  const { doc, theme } = state;
+  const nonEmpty = segments.filter((segment) => segment.text.length > 0);
+  if (nonEmpty.length === 0) {
+    // An empty paragraph still takes up a line
+    doc.font(theme.fonts.regular).fontSize(fontSize).text(" ", frame.x, doc.y, { width: frame.width });
+    return;
+  }
+  nonEmpty.forEach((segment, index) => {
+    const bold = segment.bold || frame.bold;
+    doc.font(getFont(theme, { ...segment, bold })).fontSize(segment.script ? fontSize * 0.7 : fontSize)
+      .fillColor(segment.link ? theme.colors.link
+        : segment.code ? (segment.syntax && theme.syntax[segment.syntax]) || theme.colors.code
+        : frame.color ?? theme.colors.text);
+    // Options carry over between continued calls unless set again
+    const options: PDFKit.Mixins.TextOptions = {
+      width: frame.width,
+      align,
+      underline: segment.underline || segment.link !== null,
+      strike: segment.strike,
+      link: segment.link,
+      continued: index < nonEmpty.length - 1,
+    };
+    if (index === 0) {
+      doc.text(segment.text, frame.x, doc.y, options);
+    } else {
+      doc.text(segment.text, options);
+    }
+  });
+  doc.fillColor(theme.colors.text);
+}
+
+function renderImage(state: RenderState, image: NormalizedImage, frame: Frame, align: Alignment) {
+  const { doc, theme } = state;
+  const { width, height } = getImageSize(image, doc, frame.width);
+  if (!state.inTable && doc.y + height > getPageBottom(doc)) {
+    doc.addPage();
+  }
+  const offset = align === "center" ? (frame.width - width) / 2 : align === "right" ? frame.width - width : 0;
+  const y = doc.y;
+  doc.image(image.data, frame.x + offset, y, { width, height });
+  doc.x = frame.x;
+  doc.y = y + height + theme.fontSize / 4;
+}
+
+// Draws a list bullet or number in the space left of the text
+function renderMarker(state: RenderState, marker: string, x: number, fontSize: number, color: string) {
+  const { doc, theme } = state;
+  const y = doc.y;
+  doc.font(theme.fonts.regular).fontSize(fontSize).fillColor(color)
+    .text(marker, x, y, { width: LIST_INDENT, lineBreak: false });
+  doc.y = y;
+}
+
+function renderParagraph(state: RenderState, block: Extract<Block, { type: "paragraph" }>, frame: Frame) {
+  const { doc, theme } = state;
+  const size = block.heading ? theme.headingSizes[block.heading] * (frame.fontSize / theme.fontSize) : frame.fontSize;
+  const align = block.align ?? (theme.justify && !block.heading && !block.list ? "justify" : "left");
+  const textFrame: Frame = block.heading ? { ...frame, bold: true, color: theme.colors.heading } : { ...frame };
+
+  if (block.heading) {
+    doc.y += size * 0.5;
+    // Keep a heading with at least a line of what follows it
+    if (!state.inTable && doc.y + size * 1.2 + frame.fontSize * 2.5 > getPageBottom(doc)) {
+      doc.addPage();
+    }
+    if (state.recordHeadings && typeof block.heading === "number") {
+      const destination = `heading-${state.headings.length + 1}`;
+      // Not in @types/pdfkit; points a named destination at the current position
+      (doc as unknown as { addNamedDestination(name: string, ...args: unknown[]): void })
+        .addNamedDestination(destination, "XYZ", null, doc.y, null);
+      state.headings.push({
+        text: getPlainText(block.parts).replace(/\s+/g, " ").trim(),
+        level: block.heading,
+        page: getPageIndex(doc),
+        destination,
+      });
+    }
+  }
+
+  if (block.list) {
+    const markerX = frame.x + block.list.level * LIST_INDENT;
+    textFrame.x = markerX + LIST_INDENT;
+    textFrame.width = Math.max(LIST_INDENT, frame.width - (block.list.level + 1) * LIST_INDENT);
+    if (block.list.marker) {
+      renderMarker(state, block.list.marker, markerX, size, frame.color ?? theme.colors.text);
+    }
+  } else if (block.indent) {
+    const indent = Math.min(block.indent, frame.width / 2);
+    textFrame.x = frame.x + indent;
+    textFrame.width = frame.width - indent;
+  }
+
+  if (block.parts.length === 0) {
+    renderSegments(state, [], textFrame, size, align);
+  }
+  for (const part of block.parts) {
+    if (part.type === "text") {
+      renderSegments(state, part.segments, textFrame, size, align);
+    } else if (part.type === "image") {
+      renderImage(state, part.image, textFrame, align);
+    } else if (!state.inTable) {
+      doc.addPage();
+    }
+  }
+
+  doc.x = frame.x;
+  doc.y += block.list ? frame.fontSize / 4 : frame.fontSize / 2;
+}
+
+function renderTable(state: RenderState, rows: TableRow[], frame: Frame) {
+  const { doc, theme } = state;
+  const columns = Math.max(1, ...rows.map((row) => row.cells.reduce((sum, cell) => sum + cell.colSpan, 0)));
+  const columnWidth = frame.width / columns;
+  // Rows still covered by a vertically merged cell, per column; the covered
+  // cells are left out of the later rows
+  const covered: number[] = new Array(columns).fill(0);
+  const wasInTable = state.inTable;
+  const recordHeadings = state.recordHeadings;
+
+  let y = doc.y;
+  for (const row of rows) {
+    const placed: { cell: TableCell; x: number; width: number }[] = [];
+    const placedColumns = new Set<number>();
+    let column = 0;
+    for (const cell of row.cells) {
+      while (column < columns && covered[column] > 0) column++;
+      const span = Math.min(cell.colSpan, columns - column);
+      if (span <= 0) break;
+      placed.push({ cell, x: frame.x + column * columnWidth, width: span * columnWidth });
+      for (let i = column; i < column + span; i++) {
+        covered[i] = cell.rowSpan;
+        placedColumns.add(i);
+      }
+      column += span;
+    }
+
+    const cellHeights = placed.map(({ cell, width }) => estimateHeight(state, cell.blocks, width - 2 * CELL_PADDING));
+    const estimate = Math.max(frame.fontSize, ...cellHeights) + 2 * CELL_PADDING;
+    if (!wasInTable && y + estimate > getPageBottom(doc) && y > doc.page.margins.top) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+
+    state.inTable = true;
+    state.recordHeadings = false;
+    let rowBottom = y + frame.fontSize + 2 * CELL_PADDING;
+    for (const { cell, x, width } of placed) {
+      doc.y = y + CELL_PADDING;
+      renderBlocks(state, cell.blocks, {
+        ...frame,
+        x: x + CELL_PADDING,
+        width: width - 2 * CELL_PADDING,
+        bold: frame.bold || row.header,
+      });
+      // The gap after the cell's last paragraph doubles as bottom padding
+      rowBottom = Math.max(rowBottom, doc.y);
+    }
+    state.inTable = wasInTable;
+    state.recordHeadings = recordHeadings;
+
+    doc.save().lineWidth(0.5).strokeColor(theme.colors.border);
+    for (const { x, width } of placed) {
+      doc.rect(x, y, width, rowBottom - y);
+    }
+    // Columns under a vertically merged cell get its sides, and its bottom
+    // edge in the last row it covers
+    for (let i = 0; i < columns; i++) {
+      if (placedColumns.has(i) || covered[i] === 0) continue;
+      const x = frame.x + i * columnWidth;
+      doc.moveTo(x, y).lineTo(x, rowBottom).moveTo(x + columnWidth, y).lineTo(x + columnWidth, rowBottom);
+      if (covered[i] === 1) {
+        doc.moveTo(x, rowBottom).lineTo(x + columnWidth, rowBottom);
+      }
+    }
+    doc.stroke().restore();
+
+    for (let i = 0; i < columns; i++) {
+      covered[i] = Math.max(0, covered[i] - 1);
+    }
+    y = rowBottom;
+  }
+
+  doc.x = frame.x;
+  doc.y = y + frame.fontSize / 2;
+}
+
+// Code is drawn line by line on a shaded background so long listings can
+// continue on the next page
+function renderCode(state: RenderState, lines: TextSegment[][], frame: Frame) {
+  const { doc, theme } = state;
+  const fontSize = frame.fontSize * 0.85;
+  const innerWidth = frame.width - 2 * CODE_PADDING;
+  const codeFrame: Frame = { ...frame, x: frame.x + CODE_PADDING, width: innerWidth, color: theme.colors.code };
+
+  lines.forEach((line, index) => {
+    const top = index === 0 ? CODE_PADDING : 0;
+    const bottom = index === lines.length - 1 ? CODE_PADDING : 0;
+    doc.font(theme.fonts.mono).fontSize(fontSize);
+    const height = doc.heightOfString(line.map((segment) => segment.text).join("") || " ", { width: innerWidth });
+    if (!state.inTable && doc.y + top + height + bottom > getPageBottom(doc)) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    doc.rect(frame.x, y, frame.width, top + height + bottom).fill(theme.colors.codeBackground);
+    doc.y = y + top;
+    renderSegments(state, line.map((segment) => ({ ...segment, code: true })), codeFrame, fontSize, "left");
+    doc.y = y + top + height + bottom;
+  });
+
+  doc.x = frame.x;
+  doc.y += frame.fontSize / 2;
+}
+
+function renderInset(state: RenderState, block: Extract<Block, { type: "inset" }>, frame: Frame) {
+  const { doc, theme } = state;
+  const startPage = getPageIndex(doc);
+  const startY = doc.y;
+  renderBlocks(state, block.blocks, {
+    ...frame,
+    x: frame.x + block.indent,
+    width: frame.width - block.indent,
+    color: block.bar ? theme.colors.muted : frame.color,
+  });
+  if (block.bar) {
+    // Quotes running onto another page only get the bar on the last one
+    const top = getPageIndex(doc) === startPage ? startY : doc.page.margins.top;
+    const bottom = doc.y - frame.fontSize / 2;
+    if (bottom > top) {
+      doc.save().lineWidth(3).strokeColor(theme.colors.border)
+        .moveTo(frame.x + 1.5, top).lineTo(frame.x + 1.5, bottom).stroke().restore();
+    }
+  }
+  doc.x = frame.x;
+}
+
+function renderRule(state: RenderState, frame: Frame, width = frame.width) {
+  const { doc, theme } = state;
+  doc.y += frame.fontSize / 2;
+  doc.save().lineWidth(0.5).strokeColor(theme.colors.border)
+    .moveTo(frame.x, doc.y).lineTo(frame.x + width, doc.y).stroke().restore();
+  doc.y += frame.fontSize / 2;
+}
+
+function renderNotes(state: RenderState, notes: Block[][], frame: Frame) {
+  const { doc } = state;
+  if (notes.length === 0) {
+    return;
+  }
+  const noteFrame: Frame = { ...frame, fontSize: frame.fontSize * NOTE_SCALE };
+  if (!state.inTable && doc.y + noteFrame.fontSize * 4 > getPageBottom(doc)) {
+    doc.addPage();
+  }
+  renderRule(state, frame, frame.width / 3);
+
+  const recordHeadings = state.recordHeadings;
+  state.recordHeadings = false;
+  notes.forEach((note, index) => {
+    renderMarker(state, `${index + 1}.`, frame.x, noteFrame.fontSize, frame.color ?? state.theme.colors.text);
+    renderBlocks(state, note, { ...noteFrame, x: frame.x + LIST_INDENT, width: frame.width - LIST_INDENT });
+  });
+  state.recordHeadings = recordHeadings;
+}
+
+function renderBlocks(state: RenderState, blocks: Block[], frame: Frame) {
+  for (const block of blocks) {
+    switch (block.type) {
+      case "paragraph":
+        renderParagraph(state, block, frame);
+        break;
+      case "table":
+        renderTable(state, block.rows, frame);
+        break;
+      case "code":
+        renderCode(state, block.lines, frame);
+        break;
+      case "inset":
+        renderInset(state, block, frame);
+        break;
+      case "rule":
+        renderRule(state, frame);
+        break;
+      case "pageBreak":
+        if (!state.inTable) state.doc.addPage();
+        break;
+      case "notes":
+        renderNotes(state, block.notes, frame);
+        break;
+    }
+  }
+}
+
+function renderCover(state: RenderState, cover: CoverPage) {
+  const { doc, theme } = state;
+  const x = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const centered = { width, align: "center" as const };
+
+  doc.y = doc.page.height * 0.3;
+  doc.rect(x + width / 2 - 30, doc.y - 28, 60, 4).fill(theme.colors.accent);
+  doc.font(theme.fonts.bold).fontSize(theme.headingSizes.title + 4).fillColor(theme.colors.heading)
+    .text(toWinAnsi(cover.title), x, doc.y, centered);
+  if (cover.subtitle) {
+    doc.moveDown(0.6).font(theme.fonts.regular).fontSize(theme.headingSizes.subtitle).fillColor(theme.colors.muted)
+      .text(toWinAnsi(cover.subtitle), x, doc.y, centered);
+  }
+
+  const byline = [cover.author, cover.date].filter((line): line is string => !!line);
+  if (byline.length > 0) {
+    doc.y = Math.max(doc.y + theme.fontSize * 4, doc.page.height * 0.68);
+    doc.font(theme.fonts.regular).fontSize(theme.fontSize + 1).fillColor(theme.colors.text);
+    for (const line of byline) {
+      doc.text(toWinAnsi(line), x, doc.y, centered);
+    }
+  }
+  doc.fillColor(theme.colors.text);
+}
+
+function countTocEntries(blocks: Block[]): number {
+  return blocks.reduce((count, block) => {
+    if (block.type === "paragraph") {
+      return count + (typeof block.heading === "number" && block.heading <= TOC_DEPTH ? 1 : 0);
+    }
+    return count + (block.type === "inset" ? countTocEntries(block.blocks) : 0);
+  }, 0);
+}
+
+function getTocLineHeight(theme: ThemeStyle): number {
+  return theme.fontSize * 1.9;
+}
+
+// Pages kept free for the table of contents, which is only filled in once
+// the page of every heading is known
+function getTocPageCount(doc: PDFKit.PDFDocument, theme: ThemeStyle, entries: number): number {
+  const height = getPageBottom(doc) - doc.page.margins.top;
+  const firstPage = Math.floor((height - theme.headingSizes[1] * 2.5) / getTocLineHeight(theme));
+  const otherPages = Math.floor(height / getTocLineHeight(theme));
+  return 1 + Math.max(0, Math.ceil((entries - firstPage) / otherPages));
+}
+
+function renderTableOfContents(state: RenderState, pages: number[]) {
+  const { doc, theme } = state;
+  const entries = state.headings.filter((heading) => heading.level <= TOC_DEPTH);
+  const lineHeight = getTocLineHeight(theme);
+  let pageIndex = 0;
+
+  doc.switchToPage(pages[0]);
+  const x = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  doc.font(theme.fonts.bold).fontSize(theme.headingSizes[1]).fillColor(theme.colors.heading)
+    .text("Contents", x, doc.page.margins.top, { width });
+  doc.y += theme.headingSizes[1];
+
+  for (const entry of entries) {
+    if (doc.y + lineHeight > getPageBottom(doc) && pageIndex < pages.length - 1) {
+      doc.switchToPage(pages[++pageIndex]);
+      doc.y = doc.page.margins.top;
+    }
+    const y = doc.y;
+    const indent = (entry.level - 1) * LIST_INDENT;
+    const font = entry.level === 1 ? theme.fonts.bold : theme.fonts.regular;
+    const pageNumber = String(entry.page + 1);
+
+    doc.font(theme.fonts.regular).fontSize(theme.fontSize);
+    const numberWidth = doc.widthOfString(pageNumber);
+    doc.font(font);
+    // Long headings are shortened to leave room for the page number
+    const available = width - indent - numberWidth - theme.fontSize * 2;
+    let text = entry.text || " ";
+    while (text.length > 1 && doc.widthOfString(text) > available) {
+      text = `${text.slice(0, -2).trimEnd()}…`;
+    }
+
+    doc.fillColor(theme.colors.text).text(text, x + indent, y, { lineBreak: false });
+    doc.font(theme.fonts.regular).text(pageNumber, x + width - numberWidth, y, { lineBreak: false });
+    // One link over the whole line; PDFKit cannot size links on text drawn
+    // without line breaking
+    doc.goTo(x + indent, y, width - indent, lineHeight, entry.destination);
+    doc.y = y + lineHeight;
+  }
+}
+
+// Bookmarks for every heading, nested by level
+function addOutline(state: RenderState) {
+  const { doc } = state;
+  const parents: { level: number; item: PDFKit.PDFOutline }[] = [];
+  for (const heading of state.headings) {
+    while (parents.length > 0 && parents[parents.length - 1].level >= heading.level) {
+      parents.pop();
+    }
+    doc.switchToPage(heading.page);
+    const parent = parents.length > 0 ? parents[parents.length - 1].item : doc.outline;
+    parents.push({ level: heading.level, item: parent.addItem(heading.text || " ") });
+  }
+}
+
+function addPageNumbers(state: RenderState, firstPage: number) {
+  const { doc, theme } = state;
+  const { start, count } = doc.bufferedPageRange();
+  for (let page = Math.max(start, firstPage); page < start + count; page++) {
+    doc.switchToPage(page);
+    // Writing into the bottom margin would otherwise start a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font(theme.fonts.regular).fontSize(theme.fontSize * 0.8).fillColor(theme.colors.muted)
+      .text(String(page + 1), doc.page.margins.left, doc.page.height - bottomMargin / 2,
+        { width: doc.page.width - doc.page.margins.left - doc.page.margins.right, align: "center", lineBreak: false });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+export async function renderDocument(blocks: Block[], options: RenderDocumentOptions): Promise<RenderedDocument> {
+  const theme = THEME_STYLES[options.theme] ?? THEME_STYLES.classic;
+  const page = options.page ?? DEFAULT_PAGE;
+  const doc = new PDFDocument({
+    size: [page.width, page.height],
+    margins: page.margins,
+    bufferPages: true,
+    info: options.title ? { Title: options.title } : undefined,
+  });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const state: RenderState = { doc, theme, headings: [], inTable: false, recordHeadings: true };
+  const frame: Frame = {
+    x: page.margins.left,
+    width: page.width - page.margins.left - page.margins.right,
+    fontSize: theme.fontSize,
+    bold: false,
+    color: null,
+  };
+
+  let contentStart = 0;
+  if (options.cover) {
+    renderCover(state, options.cover);
+    doc.addPage();
+    contentStart = getPageIndex(doc);
+  }
+  const tocPages: number[] = [];
+  if (options.tableOfContents) {
+    const pageCount = getTocPageCount(doc, theme, countTocEntries(blocks));
+    for (let i = 0; i < pageCount; i++) {
+      tocPages.push(getPageIndex(doc));
+      doc.addPage();
+    }
+  }
+
+  doc.fillColor(theme.colors.text);
+  renderBlocks(state, blocks, frame);
+
+  if (tocPages.length > 0) {
+    renderTableOfContents(state, tocPages);
+  }
+  addOutline(state);
+  if (options.pageNumbers) {
+    addPageNumbers(state, contentStart);
+  }
+
+  const { count } = doc.bufferedPageRange();
+  doc.end();
+  return { data: await finished, pageCount: count };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { AlignmentType, Document, FootnoteReferenceRun, LevelFormat, Packer, Paragraph, TextRun } from "docx";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { convertWordToPdf } from "./docxToPdf";
+
+// The text of each line of the PDF, top to bottom
+async function readLines(data: Buffer): Promise<string[]> {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  const lines: string[] = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const { items } = await (await pdf.getPage(number)).getTextContent();
+    let line = "";
+    for (const item of items) {
+      if (!("str" in item)) continue;
+      line += item.str;
+      if (item.hasEOL) {
+        lines.push(line.trim());
+        line = "";
+      }
+    }
+    lines.push(line.trim());
+  }
+  await pdf.destroy();
+  return lines.filter(Boolean);
+}
+
+// A numbered list whose levels Word would show as 1. 2. 3. throughout;
+// the converter uses its own numbering per level
+function listItem(text: string, level: number, note?: number) {
+  return new Paragraph({
+    numbering: { reference: "steps", level },
+    children: [new TextRun(text), ...(note ? [new FootnoteReferenceRun(note)] : [])],
+  });
+}
+
+describe("convertWordToPdf", () => {
+  it("numbers list levels 1. a. i. and restarts them after other paragraphs", async () => {
+    const doc = new Document({
+      numbering: {
+        config: [{
+          reference: "steps",
+          levels: [0, 1, 2].map((level) => ({ level, format: LevelFormat.DECIMAL, text: `%${level + 1}.`, alignment: AlignmentType.START })),
+        }],
+      },
+      sections: [{
+        children: [
+          listItem("One", 0),
+          listItem("Two", 0),
+          listItem("Sub", 1),
+          listItem("Sub", 1),
+          ...Array.from({ length: 9 }, () => listItem("Deep", 2)),
+          listItem("Three", 0),
+          listItem("Sub", 1),
+          new Paragraph("Between"),
+          listItem("Again", 0),
+        ],
+      }],
+    });
+    const { data, warnings } = await convertWordToPdf(await Packer.toBuffer(doc));
+
+    expect(warnings).toEqual([]);
+    expect(await readLines(data)).toEqual([
+      "1. One",
+      "2. Two",
+      "a. Sub",
+      "b. Sub",
+      ...["i", "ii", "iii", "iv", "v", "vi", "vii", "viii", "ix"].map((numeral) => `${numeral}. Deep`),
+      "3. Three",
+      "a. Sub",
+      "Between",
+      "1. Again",
+    ]);
+  });
+
+  it("numbers notes in the order they are referenced and lists them at the end", async () => {
+    const doc = new Document({
+      footnotes: {
+        1: { children: [new Paragraph("Defined first")] },
+        2: { children: [new Paragraph("Defined second")] },
+      },
+      sections: [{
+        children: [
+          new Paragraph({ children: [new TextRun("Cited second"), new FootnoteReferenceRun(2)] }),
+          new Paragraph({ children: [new TextRun("Cited first"), new FootnoteReferenceRun(1)] }),
+        ],
+      }],
+    });
+    const { data } = await convertWordToPdf(await Packer.toBuffer(doc));
+
+    expect(await readLines(data)).toEqual([
+      "Cited second1",
+      "Cited first2",
+      "1. Defined second",
+      "2. Defined first",
+    ]);
+  });
+});
@@ -0,0 +1,305 @@
+"use node";
+
+// Converts a Word document to PDF. mammoth reads the DOCX into its document
+// model (paragraphs with their styles and numbering, formatted runs, links,
+// tables, images and notes), which is mapped onto the blocks of
+// documentLayout.ts. Word's own fonts, colours and page setup are not kept.
+
+import mammoth from 'mammoth';
+import {
+  Alignment,
+  Block,
+  HeadingLevel,
+  InlinePart,
+  PLAIN_STYLE,
+  TableRow,
+  TextStyle,
+  appendText,
+  getBullet,
+  renderDocument,
+} from './documentLayout';
+import { NormalizedImage, normalizeImage } from './imageNormalize';
+
+// The parts of mammoth's document model read here; mammoth does not export
+// types for it
+type DocxParagraph = {
+  type: "paragraph";
+  children: DocxNode[];
+  styleName: string | null;
+  numbering: { level: string; isOrdered: boolean } | null;
+  alignment: string | null;
+  // Twentieths of a point, as written in the DOCX
+  indent: { start: string | null };
+};
+type DocxRun = {
+  type: "run";
+  children: DocxNode[];
+  isBold: boolean;
+  isItalic: boolean;
+  isUnderline: boolean;
+  isStrikethrough: boolean;
+  verticalAlignment: "baseline" | "superscript" | "subscript";
+};
+type DocxTable = { type: "table"; children: DocxNode[] };
+type DocxTableRow = { type: "tableRow"; children: DocxNode[]; isHeader: boolean };
+type DocxTableCell = { type: "tableCell"; children: DocxNode[]; colSpan: number; rowSpan: number };
+type DocxImage = {
+  type: "image";
+  contentType?: string;
+  altText?: string;
+  readAsBuffer(): Promise<Buffer>;
+};
+type DocxNode =
+  | DocxParagraph
+  | DocxRun
+  | DocxTable
+  | DocxTableRow
+  | DocxTableCell
+  | DocxImage
+  | { type: "hyperlink"; children: DocxNode[]; href?: string }
+  | { type: "text"; value: string }
+  | { type: "tab" }
+  | { type: "break"; breakType: "line" | "page" | "column" }
+  | { type: "checkbox"; checked: boolean }
+  | { type: "noteReference"; noteType: string; noteId: string }
+  | { type: "bookmarkStart" | "commentReference" };
+type DocxDocument = {
+  type: "document";
+  children: DocxNode[];
+  notes: { resolve(reference: DocxNode): { body: DocxNode[] } | null };
+};
+
+export type WordToPdfResult = {
+  data: Buffer;
+  pageCount: number;
+  // Content that could not be reproduced, e.g. images in formats sharp
+  // cannot read such as EMF
+  warnings: string[];
+};
+
+// Word's built-in heading styles
+const HEADING_STYLES: Record<string, HeadingLevel> = {
+  "title": "title",
+  "subtitle": "subtitle",
+  "heading 1": 1,
+  "heading 2": 2,
+  "heading 3": 3,
+  "heading 4": 4,
+  "heading 5": 5,
+  "heading 6": 6,
+};
+
+const ALIGNMENTS: Record<string, Alignment> = {
+  left: "left",
+  start: "left",
+  center: "center",
+  right: "right",
+  end: "right",
+  both: "justify",
+  distribute: "justify",
+};
+
+type MappingState = {
+  notes: DocxDocument["notes"];
+  images: Map<DocxImage, NormalizedImage>;
+  // Footnote and endnote bodies in the order they are referenced
+  noteBodies: DocxNode[][];
+  // Current number of each level of the running numbered list
+  listCounters: number[];
+};
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [[1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"],
+    [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"]];
+  let result = "";
+  for (const [amount, numeral] of numerals) {
+    for (; value >= amount; value -= amount) result += numeral;
+  }
+  return result;
+}
+
+// Word's default multi-level list: 1. then a. then i.
+function formatListNumber(value: number, level: number): string {
+  switch (level % 3) {
+    case 1:
+      return `${String.fromCharCode(96 + ((value - 1) % 26) + 1)}.`;
+    case 2:
+      return `${toRoman(value)}.`;
+    default:
+      return `${value}.`;
+  }
+}
+
+function collectImages(nodes: DocxNode[], images: DocxImage[]) {
+  for (const node of nodes) {
+    if (node.type === "image") {
+      images.push(node);
+    } else if ("children" in node) {
+      collectImages(node.children, images);
+    }
+  }
+}
+
+function mapInline(state: MappingState, nodes: DocxNode[], style: TextStyle, parts: InlinePart[]) {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "run":
+        mapInline(state, node.children, {
+          ...style,
+          bold: style.bold || node.isBold,
+          italic: style.italic || node.isItalic,
+          underline: style.underline || node.isUnderline,
+          strike: style.strike || node.isStrikethrough,
+          script: style.script || node.verticalAlignment !== "baseline",
+        }, parts);
+        break;
+      case "hyperlink":
+        // Links to bookmarks inside the document have no href and stay plain text
+        mapInline(state, node.children, node.href ? { ...style, link: node.href } : style, parts);
+        break;
+      case "text":
+        appendText(parts, node.value, style);
+        break;
+      case "tab":
+        appendText(parts, "    ", style);
+        break;
+      case "checkbox":
+        appendText(parts, node.checked ? "[x] " : "[ ] ", style);
+        break;
+      case "break":
+        if (node.breakType === "page") {
+          parts.push({ type: "pageBreak" });
+        } else {
+          appendText(parts, "\n", style);
+        }
+        break;
+      case "noteReference": {
+        const note = state.notes.resolve(node);
+        if (note) {
+          state.noteBodies.push(note.body);
+          appendText(parts, String(state.noteBodies.length), { ...style, script: true });
+        }
+        break;
+      }
+      case "image": {
+        // Images that could not be decoded are left out
+        const image = state.images.get(node);
+        if (image) {
+          parts.push({ type: "image", image });
+        }
+        break;
+      }
+    }
+  }
+}
+
+function mapParagraph(state: MappingState, paragraph: DocxParagraph): Block {
+  const heading = HEADING_STYLES[(paragraph.styleName ?? "").toLowerCase()];
+  const parts: InlinePart[] = [];
+  mapInline(state, paragraph.children, PLAIN_STYLE, parts);
+  const block: Extract<Block, { type: "paragraph" }> = {
+    type: "paragraph",
+    parts,
+    ...(heading ? { heading } : {}),
+    ...(paragraph.alignment && ALIGNMENTS[paragraph.alignment] ? { align: ALIGNMENTS[paragraph.alignment] } : {}),
+  };
+
+  if (paragraph.numbering) {
+    const level = Number(paragraph.numbering.level) || 0;
+    state.listCounters.length = level + 1;
+    let marker = getBullet(level);
+    if (paragraph.numbering.isOrdered) {
+      state.listCounters[level] = (state.listCounters[level] ?? 0) + 1;
+      marker = formatListNumber(state.listCounters[level], level);
+    }
+    block.list = { level, marker };
+  } else {
+    state.listCounters = [];
+    // Twentieths of a point
+    const indent = Number(paragraph.indent.start) / 20;
+    if (indent > 0) {
+      block.indent = indent;
+    }
+  }
+  return block;
+}
+
+function mapTable(state: MappingState, table: DocxTable): Block {
+  const rows: TableRow[] = [];
+  for (const row of table.children) {
+    if (row.type !== "tableRow") continue;
+    rows.push({
+      header: row.isHeader,
+      cells: row.children
+        .filter((cell): cell is DocxTableCell => cell.type === "tableCell")
+        .map((cell) => ({ blocks: mapBlocks(state, cell.children), colSpan: cell.colSpan, rowSpan: cell.rowSpan })),
+    });
+  }
+  return { type: "table", rows };
+}
+
+function mapBlocks(state: MappingState, nodes: DocxNode[]): Block[] {
+  const blocks: Block[] = [];
+  for (const node of nodes) {
+    if (node.type === "paragraph") {
+      blocks.push(mapParagraph(state, node));
+    } else if (node.type === "table") {
+      state.listCounters = [];
+      blocks.push(mapTable(state, node));
+    } else if ("children" in node) {
+      blocks.push(...mapBlocks(state, node.children));
+    }
+  }
+  return blocks;
+}
+
+async function readDocument(docxBuffer: Buffer): Promise<DocxDocument> {
+  let document: DocxDocument | null = null;
+  await mammoth.convertToHtml({ buffer: docxBuffer }, {
+    transformDocument: (element: DocxDocument) => {
+      document = element;
+      return element;
+    },
+    // The HTML is thrown away, so images need not be encoded into it
+    convertImage: mammoth.images.imgElement(async () => ({ src: "" })),
+  });
+  if (!document) {
+    throw new Error("The file could not be read as a Word document");
+  }
+  return document;
+}
+
+export async function convertWordToPdf(docxBuffer: Buffer, title?: string): Promise<WordToPdfResult> {
+  const document = await readDocument(docxBuffer);
+  const warnings: string[] = [];
+
+  // Images are decoded up front since PDFKit draws synchronously
+  const docxImages: DocxImage[] = [];
+  collectImages(document.children, docxImages);
+  const images = new Map<DocxImage, NormalizedImage>();
+  for (const [index, image] of docxImages.entries()) {
+    try {
+      images.set(image, await normalizeImage(await image.readAsBuffer()));
+    } catch (error) {
+      const description = image.altText ? `"${image.altText}"` : `(${image.contentType ?? "unknown format"})`;
+      console.warn(`Skipping image ${index + 1}:`, error instanceof Error ? error.message : error);
+      warnings.push(`Image ${index + 1} ${description} could not be converted and was left out`);
+    }
+  }
+
+  const state: MappingState = { notes: document.notes, images, noteBodies: [], listCounters: [] };
+  const blocks = mapBlocks(state, document.children);
+  // Notes are collected at the end, numbered like their references in the
+  // text. A note can reference further notes, which are appended meanwhile.
+  const notes: Block[][] = [];
+  for (let i = 0; i < state.noteBodies.length; i++) {
+    notes.push(mapBlocks(state, state.noteBodies[i]));
+  }
+  if (notes.length > 0) {
+    blocks.push({ type: "notes", notes });
+  }
+
+  const { data, pageCount } = await renderDocument(blocks, { theme: "classic", title });
+  console.log(`Rendered Word document to ${pageCount} PDF pages with ${images.size} images`);
+  return { data, pageCount, warnings };
+}
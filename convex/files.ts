@@ -1,10 +1,30 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { api } from "./_generated/api";
+import { internal } from "./_generated/api";
 import { ConvexError } from "convex/values";
 import { Doc, Id } from "./_generated/dataModel";
-import { ConversionType } from "./schema";
+import {
+  ConversionType,
+  ConverterId,
+  ImageGridOptions,
+  ImageLabelOptions,
+  ImageToPdfOptions,
+  JobPasswords,
+  MergeSourceOptions,
+  PdfMergeOptions,
+  PdfProtectOptions,
+  PdfStampNumbersOptions,
+  acceptsMimeType,
+  getConverter,
+  getOptionsError,
+  getOutputExtension,
+  getProtectOptionsError,
+  splitPasswords,
+} from "./converters";
+import { parsePageRanges } from "./pageRanges";
+import { resolveImageLayout, resolvePageLabels } from "./imageLayout";
+import { ConversionEngine, ConversionOutput, ConversionStatus, FailureReason, PageConfidence, SourceResult } from "./schema";
 
 export const generateUploadUrl = mutation({
   args: {},
@@ -21,59 +41,157 @@ export const getUrl = query({
   },
 });
 
+// Shared by startJob and the per-tool mutations kept for existing clients
+async function createJob(
+  ctx: MutationCtx,
+  args: {
+    type: ConverterId;
+    sourceFileIds: Id<"_storage">[];
+    fileName: string;
+    options?: unknown;
+  }
+) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) throw new Error("Not authenticated");
+
+  const converter = getConverter(args.type);
+  const inputCount = args.sourceFileIds.length;
+  if (inputCount < converter.minInputs || inputCount > converter.maxInputs) {
+    throw new ConvexError(
+      converter.minInputs === converter.maxInputs
+        ? `${converter.label} expects exactly ${converter.minInputs} file${converter.minInputs !== 1 ? 's' : ''}`
+        : `${converter.label} expects between ${converter.minInputs} and ${converter.maxInputs} files`
+    );
+  }
+
+  const optionsError = getOptionsError(args.type, args.options);
+  if (optionsError) {
+    throw new ConvexError(optionsError);
+  }
+
+  // Reject inputs the converter cannot read, based on the uploaded content type
+  for (const fileId of args.sourceFileIds) {
+    const metadata = await ctx.db.system.get(fileId);
+    if (!metadata) {
+      throw new ConvexError(`Uploaded file not found: ${fileId}`);
+    }
+    if (metadata.contentType && !acceptsMimeType(converter, metadata.contentType)) {
+      throw new ConvexError(`${converter.label} does not accept ${metadata.contentType} files`);
+    }
+  }
+
+  // Passwords are kept apart from the job, only until its action reads them
+  const { options, passwords } = splitPasswords(args.type, args.options);
+  const conversionId = await ctx.db.insert("conversions", {
+    userId,
+    status: "processing",
+    type: args.type,
+    sourceFileIds: args.sourceFileIds,
+    fileName: args.fileName,
+    ...(options !== undefined ? { options } : {}),
+    expiresAt: Date.now() + 60 * 60 * 1000, // 1 hour
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  });
+
+  if (passwords) {
+    await ctx.db.insert("jobPasswords", { conversionId, passwords });
+  }
+
+  await ctx.scheduler.runAfter(0, internal.conversion.runJob, { conversionId });
+
+  return conversionId;
+}
+
+export const startJob = mutation({
+  args: {
+    type: ConversionType,
+    sourceFileIds: v.array(v.id("_storage")),
+    fileName: v.string(),
+    // Checked against the converter's validator in converterOptions
+    options: v.optional(v.any()),
+  },
+  handler: async (ctx, args) => {
+    return await createJob(ctx, args);
+  },
+});
+
 export const startConversion = mutation({
   args: {
     pdfFileId: v.id("_storage"),
     fileName: v.string(),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const conversionId = await ctx.db.insert("conversions", {
-      userId,
-      status: "processing",
+    return await createJob(ctx, {
       type: "pdf_to_word",
-      pdfFileId: args.pdfFileId,
+      sourceFileIds: [args.pdfFileId],
       fileName: args.fileName,
-      expiresAt: Date.now() + 60 * 60 * 1000, // 1 hour
-      createdAt: Date.now(),
-      updatedAt: Date.now()
-    });
-
-    await ctx.scheduler.runAfter(0, api.conversion.convertPdfToWord, {
-      conversionId,
     });
-
-    return conversionId;
   },
 });
 
+function checkProtectOptions(protect: PdfProtectOptions | undefined) {
+  const error = protect ? getProtectOptionsError(protect) : null;
+  if (error) {
+    throw new ConvexError(error);
+  }
+}
+
 export const startImageToPdfConversion = mutation({
   args: {
     sourceFileIds: v.array(v.id("_storage")),
     fileName: v.string(),
+    // Page layout; anything left out keeps the A4 portrait default
+    pageSize: v.optional(v.union(
+      v.literal("a4"),
+      v.literal("letter"),
+      v.literal("legal"),
+      v.literal("a3"),
+      v.literal("fit")
+    )),
+    orientation: v.optional(v.union(v.literal("portrait"), v.literal("landscape"), v.literal("auto"))),
+    // In points
+    margin: v.optional(v.number()),
+    fit: v.optional(v.union(v.literal("contain"), v.literal("cover"), v.literal("stretch"))),
+    // Several images per page; gutter in points
+    grid: v.optional(ImageGridOptions),
+    // Header/footer; defaults to a centred "Page N of M" footer
+    labels: v.optional(ImageLabelOptions),
+    // Original image names, used for captions
+    sourceFileNames: v.optional(v.array(v.string())),
+    // One page per GIF frame; multi-page TIFFs are always expanded
+    expandGifFrames: v.optional(v.boolean()),
+    // Encrypt the PDF before it is stored
+    protect: v.optional(PdfProtectOptions),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
-
-    const conversionId = await ctx.db.insert("conversions", {
-      userId,
-      status: "processing",
+    const { pageSize, orientation, margin, fit, grid, labels, sourceFileNames, expandGifFrames, protect, ...job } = args;
+    if (sourceFileNames && sourceFileNames.length !== args.sourceFileIds.length) {
+      throw new ConvexError("A file name must be given for every image");
+    }
+    checkProtectOptions(protect);
+    const options: ImageToPdfOptions = {
+      ...(pageSize ? { pageSize } : {}),
+      ...(orientation ? { orientation } : {}),
+      ...(margin !== undefined ? { margin } : {}),
+      ...(fit ? { fit } : {}),
+      ...(grid ? { grid } : {}),
+      ...(labels ? { labels } : {}),
+      ...(sourceFileNames ? { sourceFileNames } : {}),
+      ...(expandGifFrames ? { expandGifFrames } : {}),
+      ...(protect ? { protect } : {}),
+    };
+    try {
+      resolveImageLayout(options);
+      resolvePageLabels(labels);
+    } catch (error) {
+      throw new ConvexError(error instanceof Error ? error.message : String(error));
+    }
+    return await createJob(ctx, {
       type: "image_to_pdf",
-      sourceFileIds: args.sourceFileIds,
-      fileName: args.fileName,
-      expiresAt: Date.now() + 60 * 60 * 1000, // 1 hour
-      createdAt: Date.now(),
-      updatedAt: Date.now()
+      ...job,
+      ...(Object.keys(options).length > 0 ? { options } : {}),
     });
-
-    await ctx.scheduler.runAfter(0, api.conversion.convertImagesToPdf, {
-      conversionId,
-    });
-
-    return conversionId;
   }
 });
 
@@ -81,27 +199,59 @@ export const startPdfMergerConversion = mutation({
   args: {
     sourceFileIds: v.array(v.id("_storage")),
     fileName: v.string(),
+    // Optional page range and rotation for each source, in the same order
+    sources: v.optional(v.array(MergeSourceOptions)),
+    // Bookmark per source, each source's own bookmarks, and a contents page
+    outline: v.optional(v.boolean()),
+    preserveSourceOutlines: v.optional(v.boolean()),
+    tableOfContents: v.optional(v.boolean()),
+    // Skip unreadable files and finish with warnings, or fail the job
+    onInvalidSource: v.optional(v.union(v.literal("skip"), v.literal("fail"))),
+    // Page numbers, Bates numbers or header/footer text on the merged PDF
+    stampNumbers: v.optional(PdfStampNumbersOptions),
+    // Encrypt the merged PDF before it is stored
+    protect: v.optional(PdfProtectOptions),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Not authenticated");
+    const { sources, outline, preserveSourceOutlines, tableOfContents, onInvalidSource, stampNumbers, protect, ...job } = args;
+    if (sources) {
+      if (sources.length !== args.sourceFileIds.length) {
+        throw new ConvexError("Page selection must be given for every source file");
+      }
+      // Catch range typos before the job is queued; page counts are checked when merging
+      sources.forEach((source, index) => {
+        if (source.pages?.trim()) {
+          try {
+            parsePageRanges(source.pages);
+          } catch (error) {
+            throw new ConvexError(`File ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      });
+    }
+    if (stampNumbers?.pages?.trim()) {
+      try {
+        parsePageRanges(stampNumbers.pages);
+      } catch (error) {
+        throw new ConvexError(`Page numbers: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    checkProtectOptions(protect);
 
-    const conversionId = await ctx.db.insert("conversions", {
-      userId,
-      status: "processing",
+    const options: PdfMergeOptions = {
+      ...(sources ? { sources } : {}),
+      ...(outline !== undefined ? { outline } : {}),
+      ...(preserveSourceOutlines !== undefined ? { preserveSourceOutlines } : {}),
+      ...(tableOfContents !== undefined ? { tableOfContents } : {}),
+      ...(onInvalidSource ? { onInvalidSource } : {}),
+      ...(stampNumbers ? { stampNumbers } : {}),
+      ...(protect ? { protect } : {}),
+    };
+    return await createJob(ctx, {
       type: "pdf_merger",
-      sourceFileIds: args.sourceFileIds,
-      fileName: args.fileName,
-      expiresAt: Date.now() + 60 * 60 * 1000, // 1 hour
-      createdAt: Date.now(),
-      updatedAt: Date.now()
-    });
-
-    await ctx.scheduler.runAfter(0, api.conversion.mergePdfFiles, {
-      conversionId,
+      ...job,
+      ...(Object.keys(options).length > 0 ? { options } : {}),
     });
-
-    return conversionId;
   }
 });
 
@@ -123,18 +273,38 @@ export const startPdfStorage = mutation({
   },
 });
 
+// Download links for the individual files of a multi-output conversion
+async function getOutputFiles(ctx: QueryCtx, outputs: ConversionOutput[] | undefined) {
+  return await Promise.all(
+    (outputs ?? []).map(async (output) => ({
+      ...output,
+      url: await ctx.storage.getUrl(output.fileId),
+    }))
+  );
+}
+
+// A conversion as the public queries return it. The stored options stay on
+// the server; clients only get the output extension they decide.
+function withoutOptions({ options, ...conversion }: Doc<"conversions">) {
+  return { ...conversion, outputExtension: getOutputExtension(conversion.type, options) };
+}
+
 // Type for conversion result to include sourceUrls
 type ConversionResult = {
   _id: Id<"conversions">;
   _creationTime: number;
   userId: string;
   status: string;
-  type: "pdf_to_word" | "image_to_pdf" | "pdf_merger";
+  type: ConverterId;
   fileName: string;
   pdfFileId?: Id<"_storage">;
   docxFileId?: Id<"_storage">;
+  outputFileId?: Id<"_storage">;
   pdfUrl: string | null;
   docxUrl: string | null;
+  outputUrl: string | null;
+  outputExtension: string;
+  outputFiles?: (ConversionOutput & { url: string | null })[];
   sourceFileIds: Id<"_storage">[];
   sourceUrls?: string[];
   updatedAt: number;
@@ -161,13 +331,17 @@ export const listConversions = query({
 
     return await Promise.all(
       conversions.map(async (conversion) => ({
-        ...conversion,
+        ...withoutOptions(conversion),
         docxUrl: conversion.docxFileId 
           ? await ctx.storage.getUrl(conversion.docxFileId)
           : null,
         pdfUrl: conversion.pdfFileId 
           ? await ctx.storage.getUrl(conversion.pdfFileId)
           : null,
+        outputUrl: conversion.outputFileId
+          ? await ctx.storage.getUrl(conversion.outputFileId)
+          : null,
+        outputFiles: await getOutputFiles(ctx, conversion.outputs),
         sourceUrls: conversion.sourceFileIds
           ? await Promise.all(
               conversion.sourceFileIds.map(id => ctx.storage.getUrl(id))
@@ -183,8 +357,11 @@ export const getConversion = query({
     conversionId: v.id("conversions"),
   },
   handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
     const conversion = await ctx.db.get(args.conversionId);
-    if (!conversion) return null;
+    if (!conversion || conversion.userId !== userId) return null;
 
     // If the conversion has a PDF or DOCX, get its URL
     let pdfUrl = null;
@@ -196,12 +373,15 @@ export const getConversion = query({
     if (conversion.docxFileId) {
       docxUrl = await ctx.storage.getUrl(conversion.docxFileId);
     }
+
+    let outputUrl = null;
+    if (conversion.outputFileId) {
+      outputUrl = await ctx.storage.getUrl(conversion.outputFileId);
+    }
     
     // Get source file URLs if available
-    // This works for both image-to-pdf and pdf-merger conversions
     let sourceUrls: string[] = [];
-    if ((conversion.type === "image_to_pdf" || conversion.type === "pdf_merger") && 
-        conversion.sourceFileIds && conversion.sourceFileIds.length > 0) {
+    if (conversion.sourceFileIds && conversion.sourceFileIds.length > 0) {
       const urls = await Promise.all(
         conversion.sourceFileIds.map(async (id) => {
           const url = await ctx.storage.getUrl(id);
@@ -212,60 +392,76 @@ export const getConversion = query({
     }
 
     return {
-      ...conversion,
+      ...withoutOptions(conversion),
       pdfUrl,
       docxUrl,
+      outputUrl,
+      outputFiles: await getOutputFiles(ctx, conversion.outputs),
       sourceUrls: sourceUrls.length > 0 ? sourceUrls : undefined
     };
   },
 });
 
-export const markConversionComplete = mutation({
+// The whole record, options included, for the action running the job
+export const getConversionJob = internalQuery({
   args: {
     conversionId: v.id("conversions"),
-    success: v.boolean(),
-    docxFileId: v.optional(v.id("_storage")),
   },
   handler: async (ctx, args) => {
-    const conversion = await ctx.db.get(args.conversionId);
-    if (!conversion) {
-      throw new ConvexError("Conversion not found");
-    }
-
-    await ctx.db.patch(args.conversionId, {
-      status: args.success ? "completed" : "failed",
-      ...(args.docxFileId ? { docxFileId: args.docxFileId } : {}),
-      updatedAt: Date.now(),
-    });
+    return await ctx.db.get(args.conversionId);
   },
 });
 
-export const getConversionJob = query({
+// Hands a job's passwords to the action running it and deletes them
+export const takeJobPasswords = internalMutation({
   args: {
     conversionId: v.id("conversions"),
   },
-  handler: async (ctx, args) => {
-    return await ctx.db.get(args.conversionId);
+  handler: async (ctx, args): Promise<JobPasswords | null> => {
+    const record = await ctx.db
+      .query("jobPasswords")
+      .withIndex("by_conversion", (q) => q.eq("conversionId", args.conversionId))
+      .unique();
+    if (!record) {
+      return null;
+    }
+    await ctx.db.delete(record._id);
+    return record.passwords;
   },
 });
 
-export const updateConversionJob = mutation({
+export const updateConversionJob = internalMutation({
   args: {
     jobId: v.id("conversions"),
     pdfFileId: v.optional(v.id("_storage")),
-    status: v.optional(v.union(
-      v.literal("pending"),
-      v.literal("processing"),
-      v.literal("completed"),
-      v.literal("failed")
-    )),
+    outputFileId: v.optional(v.id("_storage")),
+    outputs: v.optional(v.array(ConversionOutput)),
+    engine: v.optional(ConversionEngine),
+    strategy: v.optional(v.string()),
+    sourceResults: v.optional(v.array(SourceResult)),
+    pageConfidence: v.optional(v.array(PageConfidence)),
+    inputSize: v.optional(v.number()),
+    outputSize: v.optional(v.number()),
+    status: v.optional(ConversionStatus),
     error: v.optional(v.string()),
+    failureReason: v.optional(FailureReason),
+    warnings: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
     await ctx.db.patch(args.jobId, {
       ...(args.pdfFileId ? { pdfFileId: args.pdfFileId } : {}),
+      ...(args.outputFileId ? { outputFileId: args.outputFileId } : {}),
+      ...(args.outputs ? { outputs: args.outputs } : {}),
+      ...(args.engine ? { engine: args.engine } : {}),
+      ...(args.strategy ? { strategy: args.strategy } : {}),
+      ...(args.sourceResults ? { sourceResults: args.sourceResults } : {}),
+      ...(args.pageConfidence ? { pageConfidence: args.pageConfidence } : {}),
+      ...(args.inputSize !== undefined ? { inputSize: args.inputSize } : {}),
+      ...(args.outputSize !== undefined ? { outputSize: args.outputSize } : {}),
       ...(args.status ? { status: args.status } : {}),
       ...(args.error ? { error: args.error } : {}),
+      ...(args.failureReason ? { failureReason: args.failureReason } : {}),
+      ...(args.warnings?.length ? { warnings: args.warnings } : {}),
       updatedAt: Date.now(),
     });
   },
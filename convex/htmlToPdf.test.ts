@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import JSZip from "jszip";
+import { PDFDocument } from "pdf-lib";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { convertHtmlToPdf } from "./htmlToPdf";
+
+async function createZip(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return await zip.generateAsync({ type: "nodebuffer" });
+}
+
+const png = () => sharp({ create: { width: 30, height: 20, channels: 3, background: "blue" } }).png().toBuffer();
+
+// The text of the first page and how many images it paints
+async function readFirstPage(data: Buffer) {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  const page = await pdf.getPage(1);
+  const { items } = await page.getTextContent();
+  const { fnArray } = await page.getOperatorList();
+  const result = {
+    text: items.map((item) => ("str" in item ? item.str : "")).join(" ").replace(/\s+/g, " ").trim(),
+    images: fnArray.filter((fn) => fn === pdfjs.OPS.paintImageXObject).length,
+  };
+  await pdf.destroy();
+  return result;
+}
+
+describe("convertHtmlToPdf", () => {
+  it("renders the index page of a ZIP with the assets it references", async () => {
+    const zip = await createZip({
+      "site/guide.html": "<p>Guide</p>",
+      "site/index.html": `<html><head><title>Handbook</title></head><body>
+        <p>Index</p>
+        <img src="img/Logo%20Big.PNG?v=2">
+        <img src="/shared/banner.png">
+        <img src="../top.png">
+        <img src="gone.png">
+        <img src="https://example.com/remote.png">
+      </body></html>`,
+      "__MACOSX/site/._index.html": "<p>Resource fork</p>",
+      "site/img/logo big.png": await png(),
+      "shared/banner.png": await png(),
+      "top.png": await png(),
+    });
+    const { data, warnings } = await convertHtmlToPdf(zip, "site.zip", {});
+
+    expect(await readFirstPage(data)).toEqual({ text: "Index", images: 3 });
+    expect((await PDFDocument.load(data)).getTitle()).toBe("Handbook");
+    expect(warnings).toEqual(["Images not found in the ZIP were left out: gone.png, https://example.com/remote.png"]);
+  });
+
+  it("prefers the page closest to the root of the ZIP over a nested index", async () => {
+    const zip = await createZip({
+      "docs/index.html": "<p>Nested index</p>",
+      "readme.htm": "<p>Readme</p>",
+    });
+    const { data } = await convertHtmlToPdf(zip, "docs.zip", {});
+    expect((await readFirstPage(data)).text).toBe("Readme");
+  });
+
+  it("rejects a ZIP without an HTML page", async () => {
+    const zip = await createZip({ "notes.txt": "Not a page" });
+    await expect(convertHtmlToPdf(zip, "notes.zip", {})).rejects.toThrow("The ZIP file does not contain an HTML page");
+  });
+
+  it("only reads embedded images from a single page and lays it out on the chosen paper", async () => {
+    const html = `<p>Page</p><img src="data:image/png;base64,${(await png()).toString("base64")}"><img src="photo.png">`;
+    const { data, warnings } = await convertHtmlToPdf(Buffer.from(html), "page.html", { pageSize: "letter", orientation: "landscape" });
+
+    expect(await readFirstPage(data)).toEqual({ text: "Page", images: 1 });
+    expect((await PDFDocument.load(data)).getPage(0).getSize()).toEqual({ width: 792, height: 612 });
+    expect(warnings).toEqual([
+      "Images were left out because they are not embedded in the page: photo.png. Upload a ZIP with the page and its images to include them.",
+    ]);
+  });
+
+  it("rejects margins that leave no room for the content", async () => {
+    await expect(convertHtmlToPdf(Buffer.from("<p>Page</p>"), "page.html", {
+      pageSize: "a4",
+      margins: { top: 20, right: 300, bottom: 20, left: 300 },
+    })).rejects.toThrow("These margins leave no room for the content on A4 pages");
+  });
+});
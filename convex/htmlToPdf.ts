@@ -0,0 +1,511 @@
+"use node";
+
+// Converts an HTML page to PDF. htmlparser2 reads the markup, which is mapped
+// onto the blocks of documentLayout.ts: headings, paragraphs, lists, tables,
+// preformatted text, quotes and images, with the inline styles that matter
+// for reading (bold, italic, underline, alignment, page breaks). Stylesheets,
+// scripts and embedded media are not rendered.
+//
+// Images come from data: URIs or, when the page is uploaded as a ZIP, from
+// the files next to it. Nothing is fetched from the network.
+
+import { parseDocument } from 'htmlparser2';
+import { ChildNode, Element } from 'domhandler';
+import JSZip from 'jszip';
+import path from 'path';
+import {
+  Alignment,
+  Block,
+  HeadingLevel,
+  InlinePart,
+  LIST_INDENT,
+  PLAIN_STYLE,
+  PageSetup,
+  TableRow,
+  TextSegment,
+  TextStyle,
+  appendText,
+  getBullet,
+  renderDocument,
+} from './documentLayout';
+import { NormalizedImage, normalizeImage } from './imageNormalize';
+import { PAGE_SIZES } from './imageLayout';
+import { HtmlToPdfOptions } from './converters';
+
+export type HtmlToPdfResult = {
+  data: Buffer;
+  pageCount: number;
+  warnings: string[];
+};
+
+// The page and the assets it may reference
+type HtmlSource = {
+  html: string;
+  // Reads a file relative to the page, null when there is none
+  readAsset: ((assetPath: string) => Promise<Buffer | null>) | null;
+};
+
+const HEADINGS: Record<string, HeadingLevel> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+
+// Elements that start a new block; everything else is laid out inline
+const CONTAINERS = new Set([
+  "html", "body", "main", "article", "section", "header", "footer", "nav", "aside", "div", "p",
+  "address", "center", "figure", "figcaption", "details", "summary", "dl", "dt", "dd", "form", "fieldset",
+]);
+
+// Left out without a trace
+const IGNORED = new Set(["head", "title", "script", "style", "noscript", "template", "link", "meta", "base"]);
+
+// Left out with a warning, since the reader would notice them missing
+const UNSUPPORTED = new Set(["svg", "canvas", "iframe", "object", "embed", "video", "audio"]);
+
+const QUOTE_INDENT = 12;
+const DEFINITION_INDENT = 24;
+const DEFAULT_MARGIN = 72;
+
+type MappingState = {
+  images: Map<Element, NormalizedImage>;
+  unsupported: Set<string>;
+};
+
+// Inherited by the children of a block
+type BlockContext = { style: TextStyle; align?: Alignment };
+
+function isElement(node: ChildNode): node is Element {
+  return node.type === "tag" || node.type === "script" || node.type === "style";
+}
+
+function parseStyle(element: Element): Record<string, string> {
+  const style: Record<string, string> = {};
+  for (const declaration of (element.attribs.style ?? "").split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon > 0) {
+      style[declaration.slice(0, colon).trim().toLowerCase()] = declaration.slice(colon + 1).trim().toLowerCase();
+    }
+  }
+  return style;
+}
+
+function getAlignment(element: Element): Alignment | undefined {
+  const value = parseStyle(element)["text-align"] ?? element.attribs.align?.toLowerCase();
+  return value === "left" || value === "center" || value === "right" || value === "justify" ? value : undefined;
+}
+
+function hasPageBreak(element: Element, side: "before" | "after"): boolean {
+  const style = parseStyle(element);
+  return style[`page-break-${side}`] === "always" || style[`break-${side}`] === "page";
+}
+
+// Style of an inline element on top of the inherited one
+function getInlineStyle(element: Element, style: TextStyle): TextStyle {
+  const next = { ...style };
+  switch (element.name) {
+    case "b":
+    case "strong":
+      next.bold = true;
+      break;
+    case "i":
+    case "em":
+    case "cite":
+    case "var":
+    case "dfn":
+      next.italic = true;
+      break;
+    case "u":
+    case "ins":
+      next.underline = true;
+      break;
+    case "s":
+    case "strike":
+    case "del":
+      next.strike = true;
+      break;
+    case "code":
+    case "kbd":
+    case "samp":
+    case "tt":
+      next.code = true;
+      break;
+    case "sup":
+    case "sub":
+      next.script = true;
+      break;
+    case "a":
+      // Links within the page or relative to it would not work from the PDF
+      if (/^(https?:|mailto:)/i.test(element.attribs.href ?? "")) {
+        next.link = element.attribs.href;
+      }
+      break;
+  }
+
+  const css = parseStyle(element);
+  if (css["font-weight"] === "bold" || css["font-weight"] === "bolder" || Number(css["font-weight"]) >= 600) {
+    next.bold = true;
+  }
+  if (css["font-style"] === "italic" || css["font-style"] === "oblique") {
+    next.italic = true;
+  }
+  if (css["text-decoration"]?.includes("underline")) {
+    next.underline = true;
+  }
+  if (css["text-decoration"]?.includes("line-through")) {
+    next.strike = true;
+  }
+  return next;
+}
+
+function getText(node: ChildNode): string {
+  if (node.type === "text") {
+    return node.data;
+  }
+  return isElement(node) ? node.children.map(getText).join("") : "";
+}
+
+function endsWithSpace(parts: InlinePart[]): boolean {
+  const last = parts[parts.length - 1];
+  if (last?.type !== "text") {
+    return true;
+  }
+  const segment = last.segments[last.segments.length - 1];
+  return !segment || /[ \n]$/.test(segment.text);
+}
+
+// Drops the spaces that whitespace between tags leaves at the start and end
+// of a paragraph and around line breaks
+function trimParts(parts: InlinePart[]): InlinePart[] {
+  for (const part of parts) {
+    if (part.type === "text") {
+      for (const segment of part.segments) {
+        segment.text = segment.text.replace(/ *\n */g, "\n");
+      }
+    }
+  }
+  const first = parts[0];
+  if (first?.type === "text" && first.segments.length > 0) {
+    first.segments[0].text = first.segments[0].text.trimStart();
+  }
+  const last = parts[parts.length - 1];
+  if (last?.type === "text" && last.segments.length > 0) {
+    const segment = last.segments[last.segments.length - 1];
+    segment.text = segment.text.trimEnd();
+  }
+  return parts.filter((part) => part.type !== "text" || part.segments.some((segment) => segment.text));
+}
+
+function mapInline(state: MappingState, node: ChildNode, style: TextStyle, parts: InlinePart[]) {
+  if (node.type === "text") {
+    let text = node.data.replace(/\s+/g, " ");
+    if (text.startsWith(" ") && endsWithSpace(parts)) {
+      text = text.slice(1);
+    }
+    if (text) {
+      appendText(parts, text, style);
+    }
+    return;
+  }
+  if (!isElement(node) || IGNORED.has(node.name)) {
+    return;
+  }
+  if (UNSUPPORTED.has(node.name)) {
+    state.unsupported.add(node.name);
+  } else if (node.name === "br") {
+    appendText(parts, "\n", style);
+  } else if (node.name === "img") {
+    const image = state.images.get(node);
+    if (image) {
+      parts.push({ type: "image", image });
+    } else if (node.attribs.alt) {
+      appendText(parts, `[${node.attribs.alt}]`, { ...style, italic: true });
+    }
+  } else {
+    const childStyle = getInlineStyle(node, style);
+    for (const child of node.children) {
+      mapInline(state, child, childStyle, parts);
+    }
+  }
+}
+
+function isBlockElement(node: ChildNode): node is Element {
+  return isElement(node) && (CONTAINERS.has(node.name) || node.name in HEADINGS || [
+    "ul", "ol", "li", "blockquote", "pre", "hr", "table",
+  ].includes(node.name));
+}
+
+// Maps a run of siblings, gathering inline content between block elements
+// into paragraphs
+function mapChildren(state: MappingState, nodes: ChildNode[], context: BlockContext): Block[] {
+  const blocks: Block[] = [];
+  let parts: InlinePart[] = [];
+  const flush = () => {
+    parts = trimParts(parts);
+    if (parts.length > 0) {
+      blocks.push({ type: "paragraph", parts, ...(context.align ? { align: context.align } : {}) });
+    }
+    parts = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlockElement(node)) {
+      flush();
+      blocks.push(...mapBlockElement(state, node, context));
+    } else {
+      mapInline(state, node, context.style, parts);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// Gives the first paragraph of a list item its marker; the item's other
+// paragraphs continue it and its other blocks are inset to its text
+function mapListItem(blocks: Block[], level: number, marker: string): Block[] {
+  if (blocks[0]?.type !== "paragraph" || blocks[0].list) {
+    blocks.unshift({ type: "paragraph", parts: [] });
+  }
+  return blocks.map((block, index) => {
+    if (block.type === "paragraph" && !block.list) {
+      return { ...block, list: { level, marker: index === 0 ? marker : "" } };
+    }
+    if (block.type === "paragraph" || block.type === "pageBreak") {
+      return block;
+    }
+    return { type: "inset", indent: (level + 1) * LIST_INDENT, bar: false, blocks: [block] };
+  });
+}
+
+// Nested lists are mapped with the item, so their level is counted from the
+// enclosing lists
+function mapList(state: MappingState, list: Element, context: BlockContext, level: number): Block[] {
+  const blocks: Block[] = [];
+  const ordered = list.name === "ol";
+  let number = Number(list.attribs.start) || 1;
+  for (const item of list.children) {
+    if (!isElement(item) || item.name !== "li") continue;
+    if (item.attribs.value && Number(item.attribs.value)) {
+      number = Number(item.attribs.value);
+    }
+    const marker = ordered ? `${number++}.` : getBullet(level);
+    const itemBlocks: Block[] = [];
+    let inline: ChildNode[] = [];
+    const flush = () => {
+      itemBlocks.push(...mapChildren(state, inline, context));
+      inline = [];
+    };
+    for (const child of item.children) {
+      if (isElement(child) && (child.name === "ul" || child.name === "ol")) {
+        flush();
+        itemBlocks.push(...mapList(state, child, context, level + 1));
+      } else {
+        inline.push(child);
+      }
+    }
+    flush();
+    blocks.push(...mapListItem(itemBlocks, level, marker));
+  }
+  return blocks;
+}
+
+function mapTable(state: MappingState, table: Element, context: BlockContext): Block {
+  const rows: TableRow[] = [];
+  const addRows = (nodes: ChildNode[], header: boolean) => {
+    for (const node of nodes) {
+      if (!isElement(node)) continue;
+      if (node.name === "thead" || node.name === "tbody" || node.name === "tfoot") {
+        addRows(node.children, node.name === "thead");
+      } else if (node.name === "tr") {
+        const cells = node.children.filter((cell): cell is Element => isElement(cell) && (cell.name === "td" || cell.name === "th"));
+        rows.push({
+          header: header || (cells.length > 0 && cells.every((cell) => cell.name === "th")),
+          cells: cells.map((cell) => ({
+            blocks: mapChildren(state, cell.children, {
+              style: cell.name === "th" ? { ...context.style, bold: true } : context.style,
+              align: getAlignment(cell) ?? getAlignment(node),
+            }),
+            colSpan: Math.max(1, Number(cell.attribs.colspan) || 1),
+            rowSpan: Math.max(1, Number(cell.attribs.rowspan) || 1),
+          })),
+        });
+      }
+    }
+  };
+  addRows(table.children, false);
+  return { type: "table", rows };
+}
+
+function mapPreformatted(pre: Element): Block {
+  const text = getText(pre).replace(/\r\n?/g, "\n").replace(/^\n/, "").replace(/\n$/, "").replace(/\t/g, "    ");
+  return {
+    type: "code",
+    lines: text.split("\n").map((line): TextSegment[] => (line ? [{ ...PLAIN_STYLE, code: true, text: line }] : [])),
+  };
+}
+
+function mapBlockElement(state: MappingState, element: Element, context: BlockContext): Block[] {
+  const align = getAlignment(element) ?? context.align;
+  const inner: BlockContext = { style: getInlineStyle(element, context.style), align };
+  let blocks: Block[];
+
+  if (element.name in HEADINGS) {
+    const parts: InlinePart[] = [];
+    for (const child of element.children) {
+      mapInline(state, child, inner.style, parts);
+    }
+    blocks = [{ type: "paragraph", heading: HEADINGS[element.name], parts: trimParts(parts), ...(align ? { align } : {}) }];
+  } else if (element.name === "ul" || element.name === "ol") {
+    blocks = mapList(state, element, inner, 0);
+  } else if (element.name === "li") {
+    // An item outside of a list
+    blocks = mapListItem(mapChildren(state, element.children, inner), 0, getBullet(0));
+  } else if (element.name === "blockquote") {
+    blocks = [{ type: "inset", indent: QUOTE_INDENT, bar: true, blocks: mapChildren(state, element.children, inner) }];
+  } else if (element.name === "dd") {
+    blocks = [{ type: "inset", indent: DEFINITION_INDENT, bar: false, blocks: mapChildren(state, element.children, inner) }];
+  } else if (element.name === "dt") {
+    blocks = mapChildren(state, element.children, { ...inner, style: { ...inner.style, bold: true } });
+  } else if (element.name === "pre") {
+    blocks = [mapPreformatted(element)];
+  } else if (element.name === "hr") {
+    blocks = [{ type: "rule" }];
+  } else if (element.name === "table") {
+    blocks = [mapTable(state, element, inner)];
+  } else {
+    blocks = mapChildren(state, element.children, inner);
+  }
+
+  if (hasPageBreak(element, "before")) {
+    blocks.unshift({ type: "pageBreak" });
+  }
+  if (hasPageBreak(element, "after")) {
+    blocks.push({ type: "pageBreak" });
+  }
+  return blocks;
+}
+
+function findElements(nodes: ChildNode[], name: string, found: Element[] = []): Element[] {
+  for (const node of nodes) {
+    if (isElement(node)) {
+      if (node.name === name) {
+        found.push(node);
+      }
+      findElements(node.children, name, found);
+    }
+  }
+  return found;
+}
+
+// Reads an <img> from a data: URI or the uploaded assets
+async function readImage(source: HtmlSource, src: string): Promise<Buffer | null> {
+  const dataUri = /^data:[^,]*?(;base64)?,(.*)$/is.exec(src);
+  if (dataUri) {
+    return dataUri[1] ? Buffer.from(dataUri[2], "base64") : Buffer.from(decodeURIComponent(dataUri[2]));
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(src) || src.startsWith("//") || !source.readAsset) {
+    return null;
+  }
+  let assetPath = src.split(/[?#]/)[0];
+  try {
+    assetPath = decodeURIComponent(assetPath);
+  } catch {
+    // Use the path as written
+  }
+  return await source.readAsset(assetPath);
+}
+
+// The page of a ZIP: index.html if there is one, otherwise the HTML file
+// closest to the root
+async function readZip(data: Buffer): Promise<HtmlSource> {
+  const zip = await JSZip.loadAsync(data);
+  const pages = Object.values(zip.files)
+    .filter((file) => !file.dir && /\.html?$/i.test(file.name) && !file.name.startsWith("__MACOSX/"))
+    .sort((a, b) => {
+      const depth = a.name.split("/").length - b.name.split("/").length;
+      return depth !== 0 ? depth : Number(!/(^|\/)index\.html?$/i.test(a.name)) - Number(!/(^|\/)index\.html?$/i.test(b.name));
+    });
+  if (pages.length === 0) {
+    throw new Error("The ZIP file does not contain an HTML page");
+  }
+
+  const page = pages[0];
+  const folder = path.posix.dirname(page.name);
+  console.log(`Rendering ${page.name} from a ZIP with ${Object.keys(zip.files).length} entries`);
+  return {
+    html: await page.async("string"),
+    readAsset: async (assetPath) => {
+      const name = path.posix.normalize(assetPath.startsWith("/") ? assetPath.slice(1) : path.posix.join(folder, assetPath));
+      const file = zip.file(name) ?? zip.file(new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, "i"))[0];
+      return file ? await file.async("nodebuffer") : null;
+    },
+  };
+}
+
+function getPageSetup(options: HtmlToPdfOptions): PageSetup {
+  const size = PAGE_SIZES[options.pageSize ?? "a4"];
+  if (!size) {
+    throw new Error(`Unknown page size: ${options.pageSize}`);
+  }
+  const landscape = options.orientation === "landscape";
+  const page: PageSetup = {
+    width: landscape ? size.height : size.width,
+    height: landscape ? size.width : size.height,
+    margins: options.margins ?? { top: DEFAULT_MARGIN, right: DEFAULT_MARGIN, bottom: DEFAULT_MARGIN, left: DEFAULT_MARGIN },
+  };
+
+  const { top, right, bottom, left } = page.margins;
+  if (![top, right, bottom, left].every((margin) => Number.isFinite(margin) && margin >= 0)) {
+    throw new Error("Margins must be zero or more");
+  }
+  // Leave at least an inch or so for the content
+  if (page.width - left - right < 72 || page.height - top - bottom < 72) {
+    throw new Error(`These margins leave no room for the content on ${size.label} pages`);
+  }
+  return page;
+}
+
+export async function convertHtmlToPdf(data: Buffer, fileName: string, options: HtmlToPdfOptions): Promise<HtmlToPdfResult> {
+  const page = getPageSetup(options);
+  // ZIP files start with a local file header
+  const source: HtmlSource = data.subarray(0, 4).equals(Buffer.from("PK\x03\x04", "binary"))
+    ? await readZip(data)
+    : { html: data.toString("utf8"), readAsset: null };
+
+  const document = parseDocument(source.html);
+  const warnings: string[] = [];
+
+  // Images are decoded up front since PDFKit draws synchronously
+  const state: MappingState = { images: new Map(), unsupported: new Set() };
+  const missing: string[] = [];
+  for (const img of findElements(document.children, "img")) {
+    const src = (img.attribs.src ?? "").trim();
+    if (!src) continue;
+    const description = src.startsWith("data:") ? "embedded image" : `"${src}"`;
+    try {
+      const imageData = await readImage(source, src);
+      if (imageData) {
+        state.images.set(img, await normalizeImage(imageData));
+      } else if (!missing.includes(src)) {
+        missing.push(src);
+      }
+    } catch (error) {
+      console.warn(`Skipping image ${src.slice(0, 80)}:`, error instanceof Error ? error.message : error);
+      warnings.push(`The ${description} could not be converted and was left out`);
+    }
+  }
+  if (missing.length > 0) {
+    warnings.push(source.readAsset
+      ? `Images not found in the ZIP were left out: ${missing.join(", ")}`
+      : `Images were left out because they are not embedded in the page: ${missing.join(", ")}. Upload a ZIP with the page and its images to include them.`);
+  }
+
+  const body = findElements(document.children, "body")[0];
+  const blocks = mapChildren(state, body ? body.children : document.children, { style: PLAIN_STYLE });
+  if (state.unsupported.size > 0) {
+    warnings.push(`Embedded content is not supported and was left out: ${[...state.unsupported].join(", ")}`);
+  }
+
+  const titleElement = findElements(document.children, "title")[0];
+  const title = (titleElement && getText(titleElement).replace(/\s+/g, " ").trim())
+    || fileName.replace(/\.(html?|zip)$/i, "");
+  const { data: pdf, pageCount } = await renderDocument(blocks, { theme: "classic", title, page });
+  console.log(`Rendered HTML to ${pageCount} PDF pages with ${state.images.size} images`);
+  return { data: pdf, pageCount, warnings };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { PAGE_SIZES, POINTS_PER_PIXEL, planImagePages, resolveImageLayout } from "./imageLayout";
+
+const a4 = PAGE_SIZES.a4;
+
+describe("planImagePages", () => {
+  it("puts one image on each page, centred inside the margins", () => {
+    const layout = resolveImageLayout({ margin: 36 });
+    const [page] = planImagePages([{ width: 400, height: 200 }], layout);
+    const placement = page.images[0].placement!;
+
+    expect(page.pageWidth).toBe(a4.width);
+    expect(page.pageHeight).toBe(a4.height);
+    expect(placement.width).toBeCloseTo(a4.width - 72);
+    expect(placement.height).toBeCloseTo((a4.width - 72) / 2);
+    expect(placement.y + placement.height / 2).toBeCloseTo(a4.height / 2);
+    expect(placement.clip).toBe(false);
+  });
+
+  it("turns pages to suit each image with the auto orientation", () => {
+    const layout = resolveImageLayout({ orientation: "auto" });
+    const pages = planImagePages([{ width: 300, height: 100 }, { width: 100, height: 300 }], layout);
+    expect(pages.map((page) => page.pageWidth > page.pageHeight)).toEqual([true, false]);
+  });
+
+  it("sizes fit pages to the image plus the margin", () => {
+    const layout = resolveImageLayout({ pageSize: "fit", margin: 10 });
+    const [page] = planImagePages([{ width: 800, height: 600 }], layout);
+    expect(page.pageWidth).toBeCloseTo(800 * POINTS_PER_PIXEL + 20);
+    expect(page.pageHeight).toBeCloseTo(600 * POINTS_PER_PIXEL + 20);
+  });
+
+  it("keeps a page for an unreadable image", () => {
+    const pages = planImagePages([null], resolveImageLayout({ pageSize: "fit" }));
+    expect(pages).toHaveLength(1);
+    expect(pages[0].pageWidth).toBe(a4.width);
+    expect(pages[0].images).toEqual([{ index: 0, placement: null }]);
+  });
+
+  it("fills grid cells row by row and starts a new page when the grid is full", () => {
+    const layout = resolveImageLayout({ grid: { columns: 2, rows: 2, gutter: 10 }, margin: 20 });
+    const sizes = Array.from({ length: 5 }, () => ({ width: 100, height: 100 }));
+    const pages = planImagePages(sizes, layout);
+
+    expect(pages.map((page) => page.images.map((image) => image.index))).toEqual([[0, 1, 2, 3], [4]]);
+    const [first, second, third] = pages[0].images.map((image) => image.placement!.area);
+    const cellWidth = (a4.width - 40 - 10) / 2;
+    expect(first).toMatchObject({ x: 20, y: 20 });
+    expect(second.x).toBeCloseTo(20 + cellWidth + 10);
+    expect(third.y).toBeCloseTo(first.y + first.height + 10);
+  });
+
+  it("leaves room for captions under grid images", () => {
+    const plain = planImagePages([{ width: 1, height: 1 }], resolveImageLayout({ grid: { columns: 2, rows: 2 } }));
+    const captioned = planImagePages([{ width: 1, height: 1 }], resolveImageLayout({ grid: { columns: 2, rows: 2, captions: true } }));
+    expect(captioned[0].images[0].placement!.area.height).toBeLessThan(plain[0].images[0].placement!.area.height);
+  });
+});
+
+describe("resolveImageLayout", () => {
+  it("rejects margins and grids that leave no room for the images", () => {
+    expect(() => resolveImageLayout({ margin: 400 })).toThrow("leaves no room");
+    expect(() => resolveImageLayout({ grid: { columns: 7, rows: 1 } })).toThrow("1 to 6 columns and rows");
+    expect(() => resolveImageLayout({ pageSize: "fit", grid: { columns: 2, rows: 2 } })).toThrow("fixed page size");
+  });
+});
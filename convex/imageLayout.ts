@@ -0,0 +1,381 @@
+// Page layout and header/footer text for image_to_pdf. Shared by the server
+// (PDFKit, pdf-lib) and the browser fallback (jsPDF) so a PDF looks the same
+// whichever one built it. All sizes are PDF points (72 per inch) with the
+// origin at the top left, which is what PDFKit and jsPDF both use.
+
+export const PAGE_SIZES = {
+  a4: { label: "A4", width: 595.28, height: 841.89 },
+  letter: { label: "Letter", width: 612, height: 792 },
+  legal: { label: "Legal", width: 612, height: 1008 },
+  a3: { label: "A3", width: 841.89, height: 1190.55 },
+} as const;
+
+// "fit" makes every page the size of its image plus the margin
+export type PageSizeName = keyof typeof PAGE_SIZES | "fit";
+
+// "auto" turns each page to match its image
+export type PageOrientation = "portrait" | "landscape" | "auto";
+
+// contain: whole image visible; cover: fills the area, edges cropped;
+// stretch: fills the area, aspect ratio ignored
+export type ImageFit = "contain" | "cover" | "stretch";
+
+// Several images per page (a contact sheet), filled row by row
+export type ImageGridOptions = {
+  columns: number;
+  rows: number;
+  // Space between cells in points
+  gutter?: number;
+  // The image's file name under each image
+  captions?: boolean;
+};
+
+export type ImageGrid = Required<ImageGridOptions>;
+
+export const GRID_PRESETS = {
+  "2x2": { label: "2 × 2", columns: 2, rows: 2 },
+  "2x3": { label: "2 × 3", columns: 2, rows: 3 },
+  "3x3": { label: "3 × 3", columns: 3, rows: 3 },
+} as const;
+
+export const MAX_GRID_SIDE = 6;
+export const DEFAULT_GRID_GUTTER = 12;
+// Cell captions are smaller than the header/footer so they fit under the images
+export const GRID_CAPTION_FONT_SIZE = 8;
+const GRID_CAPTION_HEIGHT = GRID_CAPTION_FONT_SIZE * 1.75;
+
+export type ImageLayoutOptions = {
+  pageSize?: PageSizeName;
+  orientation?: PageOrientation;
+  // Space around the image in points
+  margin?: number;
+  fit?: ImageFit;
+  // One image per page when left out or null
+  grid?: ImageGridOptions | null;
+};
+
+export type ImageLayout = Required<Omit<ImageLayoutOptions, "grid">> & { grid: ImageGrid | null };
+
+type Box = { x: number; y: number; width: number; height: number };
+
+export type ImagePlacement = {
+  pageWidth: number;
+  pageHeight: number;
+  // Area inside the margins (or the grid cell); cover mode has to clip the image to it
+  area: Box;
+  // Where the image is drawn, which for cover extends past the area
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  clip: boolean;
+};
+
+// One page of the output. `placement` is null for images whose size could
+// not be read; renderers leave their space empty or put a notice there.
+export type ImagePage = {
+  pageWidth: number;
+  pageHeight: number;
+  images: { index: number; placement: ImagePlacement | null }[];
+};
+
+// A4 portrait with half-inch margins, the layout used before it was configurable
+export const DEFAULT_IMAGE_LAYOUT: ImageLayout = {
+  pageSize: "a4",
+  orientation: "portrait",
+  margin: 36,
+  fit: "contain",
+  grid: null,
+};
+
+// Image pixels are treated as CSS pixels (96 per inch) for "fit" pages
+export const POINTS_PER_PIXEL = 72 / 96;
+
+export function resolveImageLayout(options: ImageLayoutOptions = {}): ImageLayout {
+  const layout: ImageLayout = {
+    pageSize: options.pageSize ?? DEFAULT_IMAGE_LAYOUT.pageSize,
+    orientation: options.orientation ?? DEFAULT_IMAGE_LAYOUT.orientation,
+    margin: options.margin ?? DEFAULT_IMAGE_LAYOUT.margin,
+    fit: options.fit ?? DEFAULT_IMAGE_LAYOUT.fit,
+    grid: options.grid
+      ? { gutter: DEFAULT_GRID_GUTTER, captions: false, ...options.grid }
+      : null,
+  };
+
+  if (layout.pageSize !== "fit" && !(layout.pageSize in PAGE_SIZES)) {
+    throw new Error(`Unknown page size "${layout.pageSize}"`);
+  }
+  if (!Number.isFinite(layout.margin) || layout.margin < 0) {
+    throw new Error("The margin must be zero or more");
+  }
+  if (layout.pageSize !== "fit") {
+    const { width, height } = PAGE_SIZES[layout.pageSize];
+    if (layout.margin * 2 >= Math.min(width, height)) {
+      throw new Error(`A ${Math.round(layout.margin)}pt margin leaves no room for the image on ${PAGE_SIZES[layout.pageSize].label} pages`);
+    }
+  }
+
+  const { grid } = layout;
+  if (grid) {
+    for (const side of [grid.columns, grid.rows]) {
+      if (!Number.isInteger(side) || side < 1 || side > MAX_GRID_SIDE) {
+        throw new Error(`Grids can have 1 to ${MAX_GRID_SIDE} columns and rows`);
+      }
+    }
+    if (!Number.isFinite(grid.gutter) || grid.gutter < 0) {
+      throw new Error("The gutter must be zero or more");
+    }
+    if (layout.pageSize === "fit") {
+      throw new Error("Grid layouts need a fixed page size");
+    }
+    const [cell] = getGridCells(layout, grid);
+    if (cell.width < 1 || cell.height - (grid.captions ? GRID_CAPTION_HEIGHT : 0) < 1) {
+      throw new Error(`A ${grid.columns} × ${grid.rows} grid does not fit on ${PAGE_SIZES[layout.pageSize].label} pages with these margins and gutters`);
+    }
+  }
+  return layout;
+}
+
+// Scales an image into a box the way the fit mode says
+function fitImage(imageWidth: number, imageHeight: number, box: Box, fit: ImageFit): Box {
+  let width = box.width;
+  let height = box.height;
+  if (fit !== "stretch") {
+    const widthScale = box.width / imageWidth;
+    const heightScale = box.height / imageHeight;
+    const scale = fit === "cover" ? Math.max(widthScale, heightScale) : Math.min(widthScale, heightScale);
+    width = imageWidth * scale;
+    height = imageHeight * scale;
+  }
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+function getGridPageSize(layout: ImageLayout, grid: ImageGrid): { pageWidth: number; pageHeight: number } {
+  const size = PAGE_SIZES[layout.pageSize === "fit" ? "a4" : layout.pageSize];
+  // "auto" turns the page to suit the grid rather than any one image
+  const landscape = layout.orientation === "landscape" ||
+    (layout.orientation === "auto" && grid.columns > grid.rows);
+  return landscape
+    ? { pageWidth: size.height, pageHeight: size.width }
+    : { pageWidth: size.width, pageHeight: size.height };
+}
+
+// Cell boxes in reading order, including the space for captions
+function getGridCells(layout: ImageLayout, grid: ImageGrid): Box[] {
+  const { pageWidth, pageHeight } = getGridPageSize(layout, grid);
+  const { margin } = layout;
+  const width = (pageWidth - margin * 2 - grid.gutter * (grid.columns - 1)) / grid.columns;
+  const height = (pageHeight - margin * 2 - grid.gutter * (grid.rows - 1)) / grid.rows;
+
+  const cells: Box[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      cells.push({
+        x: margin + column * (width + grid.gutter),
+        y: margin + row * (height + grid.gutter),
+        width,
+        height,
+      });
+    }
+  }
+  return cells;
+}
+
+// Splits the images over pages: one per page, or a grid's worth per page.
+// `sizes` are the images' pixel sizes, null where they could not be read.
+export function planImagePages(
+  sizes: ({ width: number; height: number } | null)[],
+  layout: ImageLayout
+): ImagePage[] {
+  const { grid } = layout;
+  if (!grid) {
+    return sizes.map((size, index) => {
+      // Unreadable images still get a page of the layout's size
+      const placement = size ? getImagePlacement(size.width, size.height, layout) : null;
+      const page = placement ?? getImagePlacement(1, 1, { ...layout, pageSize: layout.pageSize === "fit" ? "a4" : layout.pageSize });
+      return { pageWidth: page.pageWidth, pageHeight: page.pageHeight, images: [{ index, placement }] };
+    });
+  }
+
+  const { pageWidth, pageHeight } = getGridPageSize(layout, grid);
+  const cells = getGridCells(layout, grid);
+  const pages: ImagePage[] = [];
+  sizes.forEach((size, index) => {
+    if (index % cells.length === 0) {
+      pages.push({ pageWidth, pageHeight, images: [] });
+    }
+    const cell = cells[index % cells.length];
+    const area = grid.captions ? { ...cell, height: cell.height - GRID_CAPTION_HEIGHT } : cell;
+    pages[pages.length - 1].images.push({
+      index,
+      placement: size
+        ? { pageWidth, pageHeight, area, ...fitImage(size.width, size.height, area, layout.fit), clip: layout.fit === "cover" }
+        : null,
+    });
+  });
+  return pages;
+}
+
+export function getImagePlacement(imageWidth: number, imageHeight: number, layout: ImageLayout): ImagePlacement {
+  const { margin } = layout;
+
+  let pageWidth: number;
+  let pageHeight: number;
+  if (layout.pageSize === "fit") {
+    pageWidth = imageWidth * POINTS_PER_PIXEL + margin * 2;
+    pageHeight = imageHeight * POINTS_PER_PIXEL + margin * 2;
+  } else {
+    const size = PAGE_SIZES[layout.pageSize];
+    const landscape = layout.orientation === "landscape" ||
+      (layout.orientation === "auto" && imageWidth > imageHeight);
+    pageWidth = landscape ? size.height : size.width;
+    pageHeight = landscape ? size.width : size.height;
+  }
+
+  const area = { x: margin, y: margin, width: pageWidth - margin * 2, height: pageHeight - margin * 2 };
+  return {
+    pageWidth,
+    pageHeight,
+    area,
+    ...fitImage(imageWidth, imageHeight, area, layout.fit),
+    clip: layout.fit === "cover",
+  };
+}
+
+export type PageLabelPosition = "header" | "footer";
+export type PageLabelAlign = "left" | "center" | "right";
+
+// Text printed in the margin of every page
+export type PageLabelOptions = {
+  // {page} and {total} are replaced; an empty format turns page numbers off
+  pageNumberFormat?: string;
+  position?: PageLabelPosition;
+  align?: PageLabelAlign;
+  fontSize?: number;
+  // The image's file name, without extension. It goes on the edge the page
+  // number does not use, or on `position` when page numbers are off.
+  caption?: boolean;
+};
+
+export type PageLabels = Required<PageLabelOptions>;
+
+// The centred "Page N of M" footer that was always printed before
+export const DEFAULT_PAGE_LABELS: PageLabels = {
+  pageNumberFormat: "Page {page} of {total}",
+  position: "footer",
+  align: "center",
+  fontSize: 10,
+  caption: false,
+};
+
+// A line of text ready to draw; `baseline` is measured from the top of the
+// page and `x` is the anchor the text is aligned to
+export type PageLabelText = {
+  text: string;
+  x: number;
+  baseline: number;
+  align: PageLabelAlign;
+  fontSize: number;
+};
+
+const MAX_CAPTION_LENGTH = 80;
+
+export function resolvePageLabels(options: PageLabelOptions = {}): PageLabels {
+  const labels: PageLabels = { ...DEFAULT_PAGE_LABELS, ...options };
+  if (!Number.isFinite(labels.fontSize) || labels.fontSize < 4 || labels.fontSize > 72) {
+    throw new Error("The font size must be between 4 and 72 points");
+  }
+  return labels;
+}
+
+export function formatPageNumber(format: string, page: number, total: number): string {
+  return format.replace(/\{page\}/g, String(page)).replace(/\{total\}/g, String(total));
+}
+
+// File name without its extension, shortened to `maxLength` characters
+function getCaption(fileName: string, maxLength: number): string {
+  const caption = fileName.replace(/\.[^.]+$/, "");
+  return caption.length > maxLength ? `${caption.slice(0, Math.max(1, maxLength - 3))}...` : caption;
+}
+
+// The standard PDF fonts only cover WinAnsi; anything else is drawn as "?".
+// Also used for the merge contents page and stamped text.
+export function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+// Texts for one page, with characters Helvetica lacks replaced by "?". Grid
+// layouts caption each cell instead, see getGridCaptionTexts.
+export function getPageLabelTexts(
+  pageWidth: number,
+  pageHeight: number,
+  margin: number,
+  labels: PageLabels,
+  pageNumber: number,
+  total: number,
+  fileName?: string
+): PageLabelText[] {
+  const { fontSize, align } = labels;
+  // Centred in the margin, but never closer to the edge than the text is tall
+  const inset = Math.max(margin / 2, fontSize);
+  const baselines: Record<PageLabelPosition, number> = {
+    header: inset + fontSize * 0.35,
+    footer: pageHeight - inset + fontSize * 0.35,
+  };
+  const sideInset = Math.max(margin, fontSize);
+  const x = align === "left" ? sideInset : align === "right" ? pageWidth - sideInset : pageWidth / 2;
+
+  const texts: PageLabelText[] = [];
+  const pageNumberText = labels.pageNumberFormat.trim()
+    ? formatPageNumber(labels.pageNumberFormat, pageNumber, total)
+    : "";
+  if (pageNumberText) {
+    texts.push({ text: pageNumberText, x, baseline: baselines[labels.position], align, fontSize });
+  }
+
+  const caption = labels.caption && fileName ? getCaption(fileName, MAX_CAPTION_LENGTH) : "";
+  if (caption) {
+    const otherEdge: PageLabelPosition = labels.position === "footer" ? "header" : "footer";
+    texts.push({
+      text: caption,
+      x,
+      baseline: baselines[pageNumberText ? otherEdge : labels.position],
+      align,
+      fontSize,
+    });
+  }
+
+  return texts.map((label) => ({ ...label, text: toWinAnsi(label.text) }));
+}
+
+// Captions under the images on page `pageIndex` of a grid layout.
+// `fileNames` holds the names of all images, in order.
+export function getGridCaptionTexts(layout: ImageLayout, pageIndex: number, fileNames: string[]): PageLabelText[] {
+  const { grid } = layout;
+  if (!grid?.captions) {
+    return [];
+  }
+
+  const cells = getGridCells(layout, grid);
+  const texts: PageLabelText[] = [];
+  cells.forEach((cell, position) => {
+    const fileName = fileNames[pageIndex * cells.length + position];
+    // Helvetica averages about half an em per character
+    const caption = fileName ? getCaption(fileName, Math.floor(cell.width / (GRID_CAPTION_FONT_SIZE * 0.5))) : "";
+    if (caption) {
+      texts.push({
+        text: toWinAnsi(caption),
+        x: cell.x + cell.width / 2,
+        baseline: cell.y + cell.height - GRID_CAPTION_FONT_SIZE * 0.5,
+        align: "center",
+        fontSize: GRID_CAPTION_FONT_SIZE,
+      });
+    }
+  });
+  return texts;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import * as bmp from "bmp-js";
+import heicConvert from "heic-convert";
+import { countImagePages, normalizeImage, normalizeImageFrames } from "./imageNormalize";
+
+// There is no HEIC encoder at hand, so the decoder hands back a JPEG
+vi.mock("heic-convert", async () => {
+  const { default: sharp } = await import("sharp");
+  return {
+    default: vi.fn(async () => await sharp({ create: { width: 64, height: 48, channels: 3, background: "green" } }).jpeg().toBuffer()),
+  };
+});
+
+const RED = { r: 255, g: 0, b: 0 };
+
+// An uncompressed greyscale TIFF with one page per grey value; sharp writes
+// only single-page TIFFs
+function createTiff(greys: number[], width: number, height: number): Buffer {
+  const tags = (pixels: number) => [
+    [256, 3, width], [257, 3, height], [258, 3, 8], [259, 3, 1], [262, 3, 1],
+    [273, 4, pixels], [277, 3, 1], [278, 3, height], [279, 4, width * height],
+  ];
+  const pageSize = width * height + 2 + 9 * 12 + 4;
+  const tiff = Buffer.alloc(8 + greys.length * pageSize);
+  tiff.write("II*\0", 0, "latin1");
+  let nextPointer = 4;
+  greys.forEach((grey, index) => {
+    const pixels = 8 + index * pageSize;
+    tiff.fill(grey, pixels, pixels + width * height);
+    const ifd = pixels + width * height;
+    tiff.writeUInt32LE(ifd, nextPointer);
+    tiff.writeUInt16LE(9, ifd);
+    tags(pixels).forEach(([tag, type, value], entry) => {
+      const offset = ifd + 2 + entry * 12;
+      tiff.writeUInt16LE(tag, offset);
+      tiff.writeUInt16LE(type, offset + 2);
+      tiff.writeUInt32LE(1, offset + 4);
+      if (type === 3) tiff.writeUInt16LE(value, offset + 8);
+      else tiff.writeUInt32LE(value, offset + 8);
+    });
+    nextPointer = ifd + 2 + 9 * 12;
+  });
+  return tiff;
+}
+
+// Colour of the pixel at x, y
+async function pixelAt(data: Buffer, x: number, y: number) {
+  const { data: pixels, info } = await sharp(data).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * 3;
+  return { r: pixels[offset], g: pixels[offset + 1], b: pixels[offset + 2] };
+}
+
+describe("normalizeImage", () => {
+  it("leaves upright sRGB JPEGs as they are", async () => {
+    const jpeg = await sharp({ create: { width: 40, height: 20, channels: 3, background: "white" } }).jpeg().toBuffer();
+    const normalized = await normalizeImage(jpeg);
+    expect(normalized).toEqual({ data: jpeg, contentType: "image/jpeg", width: 40, height: 20 });
+  });
+
+  it("turns photos upright by their EXIF orientation", async () => {
+    // Stored 40 × 20 with a red square top left; orientation 6 shows it a
+    // quarter turn clockwise, which moves the square to the top right
+    const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: "white" } })
+      .composite([{ input: { create: { width: 10, height: 10, channels: 3, background: RED } }, left: 0, top: 0 }])
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    const normalized = await normalizeImage(photo);
+
+    expect(normalized).toMatchObject({ contentType: "image/jpeg", width: 20, height: 40 });
+    expect((await sharp(normalized.data).metadata()).orientation ?? 1).toBe(1);
+    const topRight = await pixelAt(normalized.data, 15, 5);
+    expect(topRight.r).toBeGreaterThan(200);
+    expect(topRight.g).toBeLessThan(60);
+  });
+
+  it("decodes BMPs into PNGs with their colours", async () => {
+    // bmp-js takes and gives pixels as ABGR
+    const data = Buffer.from([255, 0, 0, 255, 255, 255, 0, 0]);
+    const normalized = await normalizeImage(bmp.encode({ data, width: 2, height: 1 }).data);
+
+    expect(normalized).toMatchObject({ contentType: "image/png", width: 2, height: 1 });
+    expect(await pixelAt(normalized.data, 0, 0)).toEqual(RED);
+    expect(await pixelAt(normalized.data, 1, 0)).toEqual({ r: 0, g: 0, b: 255 });
+  });
+
+  it("transcodes HEIC with heic-convert, but reads AVIF in the same container itself", async () => {
+    const ftyp = (brands: string[]) => {
+      const box = Buffer.alloc(8 + brands.length * 4 + 4);
+      box.writeUInt32BE(box.length, 0);
+      box.write("ftyp", 4, "latin1");
+      box.write(brands[0], 8, "latin1");
+      brands.slice(1).forEach((brand, index) => box.write(brand, 16 + index * 4, "latin1"));
+      return box;
+    };
+    const heic = Buffer.concat([ftyp(["heic", "mif1", "heic"]), Buffer.alloc(64)]);
+    const normalized = await normalizeImage(heic);
+
+    expect(heicConvert).toHaveBeenCalledWith({ buffer: heic, format: "JPEG", quality: 0.9 });
+    expect(normalized).toMatchObject({ contentType: "image/jpeg", width: 64, height: 48 });
+
+    vi.mocked(heicConvert).mockClear();
+    const avif = await sharp({ create: { width: 30, height: 10, channels: 3, background: "blue" } }).avif().toBuffer();
+    expect(await normalizeImage(avif)).toMatchObject({ contentType: "image/jpeg", width: 30, height: 10 });
+    expect(heicConvert).not.toHaveBeenCalled();
+  });
+});
+
+describe("normalizeImageFrames", () => {
+  const tiff = createTiff([0, 128, 255], 8, 6);
+
+  it("splits multi-page TIFFs into one image per page, in order", async () => {
+    const frames = await normalizeImageFrames(tiff, false);
+
+    expect(frames).toHaveLength(3);
+    expect(frames.map(({ width, height }) => [width, height])).toEqual([[8, 6], [8, 6], [8, 6]]);
+    expect(await Promise.all(frames.map(async ({ data }) => (await pixelAt(data, 4, 3)).r))).toEqual([0, 128, 255]);
+  });
+
+  it("only splits GIFs into their frames when asked", async () => {
+    const gif = await sharp(tiff, { pages: -1 }).gif().toBuffer();
+
+    expect(await normalizeImageFrames(gif, false)).toHaveLength(1);
+    const frames = await normalizeImageFrames(gif, true);
+    expect(frames).toHaveLength(3);
+    expect(await Promise.all(frames.map(async ({ data }) => (await pixelAt(data, 4, 3)).r))).toEqual([0, 128, 255]);
+  });
+});
+
+describe("countImagePages", () => {
+  it("counts every frame toward the page limit, and files it cannot read as one page", async () => {
+    const tiff = createTiff([0, 128, 255], 8, 6);
+    const gif = await sharp(tiff, { pages: -1 }).gif().toBuffer();
+    const jpeg = await sharp({ create: { width: 8, height: 6, channels: 3, background: "white" } }).jpeg().toBuffer();
+    const upload = [tiff, gif, jpeg, Buffer.from("not an image")];
+
+    expect(await countImagePages(upload, false)).toBe(6);
+    expect(await countImagePages(upload, true)).toBe(8);
+  });
+});
@@ -0,0 +1,133 @@
+"use node";
+
+// Prepares uploaded images for embedding in a PDF. Every provider only has to
+// handle plain sRGB JPEG and PNG afterwards:
+//
+//   - EXIF orientation is applied to the pixels, so phone photos are upright
+//   - embedded colour profiles (including CMYK) are converted to sRGB
+//   - HEIC, WebP, TIFF, GIF, BMP and AVIF become JPEG or PNG
+//   - multi-page TIFFs, and GIFs if asked, are split into one image per frame
+//
+// The format is detected from the file's bytes, not the upload's content type.
+
+import sharp from 'sharp';
+import heicConvert from 'heic-convert';
+import * as bmp from 'bmp-js';
+import { MIME_TYPES } from './converters';
+
+export type NormalizedImage = {
+  data: Buffer;
+  contentType: typeof MIME_TYPES.jpeg | typeof MIME_TYPES.png;
+  // Pixel size after rotation
+  width: number;
+  height: number;
+};
+
+const JPEG_QUALITY = 90;
+
+// HEIC files are ISO media files whose "ftyp" box names a HEVC brand
+const HEIC_BRANDS = new Set(["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"]);
+
+function isHeic(data: Buffer): boolean {
+  if (data.length < 16 || data.toString('latin1', 4, 8) !== 'ftyp') {
+    return false;
+  }
+  // Major brand, then the compatible brands up to the end of the box
+  const boxEnd = Math.min(data.readUInt32BE(0), data.length);
+  const brands = [data.toString('latin1', 8, 12)];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(data.toString('latin1', offset, offset + 4));
+  }
+  // AVIF uses the same container, but sharp reads it directly
+  if (brands.includes('avif') || brands.includes('avis')) {
+    return false;
+  }
+  return brands.some((brand) => HEIC_BRANDS.has(brand));
+}
+
+function isBmp(data: Buffer): boolean {
+  return data.length > 2 && data[0] === 0x42 && data[1] === 0x4d;
+}
+
+// Formats sharp cannot read with its prebuilt binaries are decoded first.
+// `page` picks a frame of a TIFF or GIF; the others have only one.
+async function decodeToSharp(data: Buffer, page: number): Promise<sharp.Sharp> {
+  if (isHeic(data)) {
+    // libheif applies the HEIC's own rotation while decoding
+    const jpeg = await heicConvert({ buffer: data, format: 'JPEG', quality: JPEG_QUALITY / 100 });
+    return sharp(Buffer.from(jpeg));
+  }
+  if (isBmp(data)) {
+    // bmp-js hands back ABGR pixels
+    const decoded = bmp.decode(data);
+    const rgba = Buffer.alloc(decoded.width * decoded.height * 4);
+    for (let i = 0; i < rgba.length; i += 4) {
+      rgba[i] = decoded.data[i + 3];
+      rgba[i + 1] = decoded.data[i + 2];
+      rgba[i + 2] = decoded.data[i + 1];
+      rgba[i + 3] = 255;
+    }
+    return sharp(rgba, { raw: { width: decoded.width, height: decoded.height, channels: 4 } });
+  }
+  return sharp(data, { page, pages: 1 });
+}
+
+export async function normalizeImage(data: Buffer, page = 0): Promise<NormalizedImage> {
+  const image = await decodeToSharp(data, page);
+  const metadata = await image.metadata();
+
+  // JPEG and PNG that are already upright, 8-bit sRGB are left untouched so
+  // photos are not re-compressed
+  const upright = !metadata.orientation || metadata.orientation === 1;
+  const plainColour = !metadata.icc && (metadata.space === 'srgb' || metadata.space === 'b-w');
+  if (upright && plainColour && metadata.width && metadata.height && metadata.depth === 'uchar') {
+    if (metadata.format === 'jpeg') {
+      return { data, contentType: MIME_TYPES.jpeg, width: metadata.width, height: metadata.height };
+    }
+    if (metadata.format === 'png') {
+      return { data, contentType: MIME_TYPES.png, width: metadata.width, height: metadata.height };
+    }
+  }
+
+  // Photos stay JPEG; anything with transparency or from a lossless format
+  // becomes PNG so edges and text are not blurred
+  const lossless = metadata.hasAlpha || ['png', 'gif', 'tiff', 'raw'].includes(metadata.format ?? '');
+  const pipeline = image.rotate().toColourspace('srgb');
+  const { data: output, info } = lossless
+    ? await pipeline.png().toBuffer({ resolveWithObject: true })
+    : await pipeline.jpeg({ quality: JPEG_QUALITY }).toBuffer({ resolveWithObject: true });
+
+  console.log(`Normalized ${metadata.format ?? 'unknown'} image (orientation ${metadata.orientation ?? 1}) to ${info.format} ${info.width}×${info.height}`);
+  return {
+    data: output,
+    contentType: lossless ? MIME_TYPES.png : MIME_TYPES.jpeg,
+    width: info.width,
+    height: info.height,
+  };
+}
+
+// Number of pages the image will take up in the PDF
+export async function countImageFrames(data: Buffer, expandGifFrames: boolean): Promise<number> {
+  if (isHeic(data) || isBmp(data)) {
+    return 1;
+  }
+  const { format, pages = 1 } = await sharp(data).metadata();
+  return format === 'tiff' || (format === 'gif' && expandGifFrames) ? pages : 1;
+}
+
+// Pages a whole upload takes up. Files whose frames cannot be counted take one
+// page, as they are passed on undecoded.
+export async function countImagePages(images: Buffer[], expandGifFrames: boolean): Promise<number> {
+  const counts = await Promise.all(images.map((data) => countImageFrames(data, expandGifFrames).catch(() => 1)));
+  return counts.reduce((sum, count) => sum + count, 0);
+}
+
+// One normalized image per frame, in order
+export async function normalizeImageFrames(data: Buffer, expandGifFrames: boolean): Promise<NormalizedImage[]> {
+  const frames = await countImageFrames(data, expandGifFrames);
+  const images: NormalizedImage[] = [];
+  for (let page = 0; page < frames; page++) {
+    images.push(await normalizeImage(data, page));
+  }
+  return images;
+}
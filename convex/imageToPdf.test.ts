@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import { PDFDocument } from "pdf-lib";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { ImageLayoutOptions, planImagePages, resolveImageLayout } from "./imageLayout";
+import { ImagePdfStrategy, getImagePdfStrategies, writeImagePdfWithFallback } from "./imageToPdf";
+import { SourceImage } from "./providers";
+
+type Box = { x: number; y: number; width: number; height: number };
+type Matrix = [number, number, number, number, number, number];
+
+const SIZES = [{ width: 400, height: 200 }, { width: 300, height: 300 }, { width: 200, height: 500 }];
+
+async function createImage(width: number, height: number, format: "jpeg" | "png"): Promise<SourceImage> {
+  const data = await sharp({ create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } } })
+    .toFormat(format)
+    .toBuffer();
+  return { data, contentType: `image/${format}` };
+}
+
+// Cloudmersive stand-in: a page the size of the image, filled by it. It
+// reads HEIC, which the local engines cannot, as a 640 × 480 picture.
+async function convertLikeCloudmersive(url: unknown, init?: RequestInit): Promise<Response> {
+  const form = init!.body as FormData;
+  if (String(url).endsWith("/convert/merge/pdf/multi")) {
+    const merged = await PDFDocument.create();
+    for (let i = 1; form.has(`inputFile${i}`); i++) {
+      const doc = await PDFDocument.load(await (form.get(`inputFile${i}`) as Blob).arrayBuffer());
+      (await merged.copyPages(doc, doc.getPageIndices())).forEach((page) => merged.addPage(page));
+    }
+    return new Response(await merged.save());
+  }
+  const file = form.get("inputFile") as Blob;
+  const data = file.type === "image/heic"
+    ? (await createImage(640, 480, "png")).data
+    : Buffer.from(await file.arrayBuffer());
+  const doc = await PDFDocument.create();
+  const image = file.type === "image/jpeg" ? await doc.embedJpg(data) : await doc.embedPng(data);
+  doc.addPage([image.width, image.height]).drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+  return new Response(await doc.save());
+}
+
+function multiply([a, b, c, d, e, f]: Matrix, ctm: Matrix): Matrix {
+  return [
+    a * ctm[0] + b * ctm[2],
+    a * ctm[1] + b * ctm[3],
+    c * ctm[0] + d * ctm[2],
+    c * ctm[1] + d * ctm[3],
+    e * ctm[0] + f * ctm[2] + ctm[4],
+    e * ctm[1] + f * ctm[3] + ctm[5],
+  ];
+}
+
+// Page sizes and where each image is painted, in PDF user space, read with
+// pdf.js so every strategy's output is measured the same way
+async function readPages(data: Buffer): Promise<{ width: number; height: number; images: Box[] }[]> {
+  const { OPS } = pdfjs;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  const pages = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const [x0, y0, x1, y1] = page.view;
+    const { fnArray, argsArray } = await page.getOperatorList();
+    const images: Box[] = [];
+    const stack: Matrix[] = [];
+    let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+    fnArray.forEach((fn, index) => {
+      const args = argsArray[index];
+      if (fn === OPS.save) {
+        stack.push(ctm);
+      } else if (fn === OPS.restore) {
+        ctm = stack.pop()!;
+      } else if (fn === OPS.transform) {
+        ctm = multiply(args as Matrix, ctm);
+      } else if (fn === OPS.paintFormXObjectBegin) {
+        stack.push(ctm);
+        if (args[0]) ctm = multiply(args[0] as Matrix, ctm);
+      } else if (fn === OPS.paintFormXObjectEnd) {
+        ctm = stack.pop()!;
+      } else if (fn === OPS.paintImageXObject || fn === OPS.paintInlineImageXObject) {
+        const [a, , , d, e, f] = ctm;
+        images.push({ x: Math.min(e, e + a), y: Math.min(f, f + d), width: Math.abs(a), height: Math.abs(d) });
+      }
+    });
+    pages.push({ width: x1 - x0, height: y1 - y0, images });
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+function expectBoxClose(actual: Box, expected: Box) {
+  for (const key of ["x", "y", "width", "height"] as const) {
+    expect(actual[key]).toBeCloseTo(expected[key], 1);
+  }
+}
+
+describe("getImagePdfStrategies", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("tries PDFKit, then pdf-lib, then Cloudmersive when it is configured", () => {
+    vi.stubEnv("CONVERSION_PROVIDER", "");
+    vi.stubEnv("CLOUDMERSIVE_API_KEY", "");
+    expect(getImagePdfStrategies().map((strategy) => strategy.name)).toEqual(["pdfkit", "pdf-lib"]);
+
+    vi.stubEnv("CLOUDMERSIVE_API_KEY", "key");
+    expect(getImagePdfStrategies().map((strategy) => strategy.name)).toEqual(["pdfkit", "pdf-lib", "cloudmersive"]);
+  });
+
+  it("only draws placeholders with the mock provider", () => {
+    vi.stubEnv("CONVERSION_PROVIDER", "mock");
+    expect(getImagePdfStrategies().map((strategy) => strategy.name)).toEqual(["mock"]);
+  });
+});
+
+describe("writeImagePdfWithFallback", () => {
+  let images: SourceImage[];
+  let strategies: ImagePdfStrategy[];
+
+  beforeEach(async () => {
+    images = await Promise.all(SIZES.map(({ width, height }, index) => createImage(width, height, index === 1 ? "png" : "jpeg")));
+    vi.stubEnv("CONVERSION_PROVIDER", "");
+    vi.stubEnv("CLOUDMERSIVE_API_KEY", "key");
+    vi.stubGlobal("fetch", vi.fn(convertLikeCloudmersive));
+    strategies = getImagePdfStrategies();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it.each<[string, ImageLayoutOptions]>([
+    ["contained on A4 pages", { pageSize: "a4", margin: 36 }],
+    ["cropped to fill turned pages", { pageSize: "letter", orientation: "auto", fit: "cover", margin: 20 }],
+    ["on pages fitted to the images", { pageSize: "fit", margin: 10 }],
+    ["in a grid", { pageSize: "a4", grid: { columns: 2, rows: 1, gutter: 12 } }],
+  ])("lays images out the same with every strategy when %s", async (_, options) => {
+    const layout = resolveImageLayout(options);
+    const planned = planImagePages(SIZES, layout);
+
+    for (const strategy of strategies) {
+      const { written, attempts } = await writeImagePdfWithFallback([strategy], images, layout);
+      expect(attempts).toEqual([]);
+      const pages = await readPages(written!.pdf);
+
+      expect(pages).toHaveLength(planned.length);
+      pages.forEach((page, index) => {
+        const plan = planned[index];
+        expect(page.width).toBeCloseTo(plan.pageWidth, 1);
+        expect(page.height).toBeCloseTo(plan.pageHeight, 1);
+        expect(page.images).toHaveLength(plan.images.length);
+        plan.images.forEach(({ placement }, imageIndex) => {
+          // Planned from the top of the page, painted from the bottom
+          expectBoxClose(page.images[imageIndex], {
+            x: placement!.x,
+            y: plan.pageHeight - placement!.y - placement!.height,
+            width: placement!.width,
+            height: placement!.height,
+          });
+        });
+      });
+    }
+  });
+
+  it("uses the next strategy when one fails and reports the failure", async () => {
+    const failing: ImagePdfStrategy = {
+      name: "pdfkit",
+      engine: "local",
+      open: async () => {
+        throw new Error("PDFKit is broken");
+      },
+    };
+    const { written, attempts } = await writeImagePdfWithFallback([failing, ...strategies.slice(1)], images, resolveImageLayout());
+
+    expect(written!.strategy.name).toBe("pdf-lib");
+    expect(attempts).toEqual([{ engine: "pdfkit", error: "PDFKit is broken" }]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("falls back to Cloudmersive for images the local engines cannot read", async () => {
+    const unreadable = [...images, { data: Buffer.from("not an image"), contentType: "image/heic" }];
+    const { written, attempts } = await writeImagePdfWithFallback(strategies, unreadable, resolveImageLayout());
+
+    expect(written!.strategy.name).toBe("cloudmersive");
+    expect(attempts.map((attempt) => attempt.engine)).toEqual(["pdfkit", "pdf-lib"]);
+    expect(attempts[0].error).toBe("Image 4 could not be converted to JPEG or PNG (image/heic)");
+    // The image sharp could not measure is sized from Cloudmersive's page
+    const pages = await readPages(written!.pdf);
+    expect(pages).toHaveLength(4);
+    expect(pages[3].images[0].width / pages[3].images[0].height).toBeCloseTo(640 / 480);
+  });
+
+  it("returns every failure when no strategy works", async () => {
+    const { written, attempts } = await writeImagePdfWithFallback(
+      strategies.slice(0, 2),
+      [{ data: Buffer.from("not an image"), contentType: "image/png" }],
+      resolveImageLayout()
+    );
+
+    expect(written).toBeNull();
+    expect(attempts).toEqual([
+      { engine: "pdfkit", error: "Image 1 could not be read" },
+      { engine: "pdf-lib", error: "Image 1 could not be read" },
+    ]);
+  });
+});
@@ -0,0 +1,286 @@
+"use node";
+
+// The image to PDF engine. The images' sizes are read once and planImagePages
+// turns them into pages; the strategies below then only differ in how they
+// write those pages, so the layout is the same whichever one succeeds.
+// writeImagePdfWithFallback tries them in this order:
+//
+//   pdfkit        PDFKit, which copies JPEG data into the PDF as it is
+//   pdf-lib       pure JavaScript, for when PDFKit fails on an image
+//   cloudmersive  only when Cloudmersive is the configured provider, through
+//                 its imageToPdf; it can read images the local decoders could not
+//
+// With CONVERSION_PROVIDER=mock the chain is the mock strategy alone, which
+// draws labelled boxes where the images would go.
+
+import PDFDocument from 'pdfkit';
+import sharp from 'sharp';
+import {
+  PDFDocument as PDFLib,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  clip,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+} from 'pdf-lib';
+import { ConversionEngine, FailureReason } from "./schema";
+import { ConversionProvider, SourceImage, getConversionProvider } from "./providers";
+import { ImageLayout, ImagePlacement, POINTS_PER_PIXEL, planImagePages } from "./imageLayout";
+
+type ImageSize = { width: number; height: number };
+
+export type ImagePdfStrategyName = "pdfkit" | "pdf-lib" | "cloudmersive" | "mock";
+
+// Writes planned pages. `sizes` are the sizes the pages are planned from;
+// a strategy may fill in those the engine could not read.
+type ImagePdfWriter = {
+  sizes: (ImageSize | null)[];
+  addPage(width: number, height: number): void;
+  drawImage(index: number, placement: ImagePlacement): void;
+  save(): Promise<Buffer>;
+};
+
+export type ImagePdfStrategy = {
+  name: ImagePdfStrategyName;
+  engine: ConversionEngine;
+  open(images: SourceImage[], sizes: (ImageSize | null)[]): Promise<ImagePdfWriter>;
+};
+
+// Only JPEG and PNG can be embedded without re-encoding; the uploads have
+// been converted to one of them unless they could not be decoded
+function checkEmbeddable(images: SourceImage[], sizes: (ImageSize | null)[]) {
+  images.forEach(({ contentType }, index) => {
+    if (contentType !== 'image/jpeg' && contentType !== 'image/png') {
+      throw new Error(`Image ${index + 1} could not be converted to JPEG or PNG (${contentType})`);
+    }
+    if (!sizes[index]) {
+      throw new Error(`Image ${index + 1} could not be read`);
+    }
+  });
+}
+
+const pdfKitStrategy: ImagePdfStrategy = {
+  name: "pdfkit",
+  engine: "local",
+
+  async open(images, sizes) {
+    checkEmbeddable(images, sizes);
+    // An empty font name keeps PDFKit from loading Helvetica from disk
+    const doc = new PDFDocument({ autoFirstPage: false, margin: 0, font: '' });
+    const chunks: Buffer[] = [];
+    const ended = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    return {
+      sizes,
+      addPage(width, height) {
+        doc.addPage({ size: [width, height], margin: 0 });
+      },
+      drawImage(index, placement) {
+        doc.save();
+        if (placement.clip) {
+          doc.rect(placement.area.x, placement.area.y, placement.area.width, placement.area.height).clip();
+        }
+        doc.image(images[index].data, placement.x, placement.y, {
+          width: placement.width,
+          height: placement.height,
+        });
+        doc.restore();
+      },
+      async save() {
+        doc.end();
+        return await ended;
+      },
+    };
+  },
+};
+
+// Draws at a placement, converting to pdf-lib's y axis (measured from the
+// bottom of the page) and clipping to the placement's area for cover
+function drawPlaced(
+  page: PDFPage,
+  placement: ImagePlacement,
+  draw: (box: { x: number; y: number; width: number; height: number }) => void
+) {
+  if (placement.clip) {
+    // pdf-lib has no clipping helper, so write the clip path directly
+    const { area } = placement;
+    page.pushOperators(
+      pushGraphicsState(),
+      rectangle(area.x, placement.pageHeight - area.y - area.height, area.width, area.height),
+      clip(),
+      endPath()
+    );
+  }
+  draw({
+    x: placement.x,
+    y: placement.pageHeight - placement.y - placement.height,
+    width: placement.width,
+    height: placement.height,
+  });
+  if (placement.clip) {
+    page.pushOperators(popGraphicsState());
+  }
+}
+
+// Writer on a pdf-lib document; `draw` puts image `index` in the box
+function createPdfLibWriter(
+  result: PDFLib,
+  sizes: (ImageSize | null)[],
+  draw: (page: PDFPage, index: number, box: { x: number; y: number; width: number; height: number }) => void
+): ImagePdfWriter {
+  let page: PDFPage | null = null;
+  return {
+    sizes,
+    addPage(width, height) {
+      page = result.addPage([width, height]);
+    },
+    drawImage(index, placement) {
+      const current = page!;
+      drawPlaced(current, placement, (box) => draw(current, index, box));
+    },
+    async save() {
+      return Buffer.from(await result.save());
+    },
+  };
+}
+
+const pdfLibStrategy: ImagePdfStrategy = {
+  name: "pdf-lib",
+  engine: "local",
+
+  async open(images, sizes) {
+    checkEmbeddable(images, sizes);
+    const result = await PDFLib.create();
+    const embedded: PDFImage[] = [];
+    for (const { data, contentType } of images) {
+      embedded.push(contentType === 'image/jpeg' ? await result.embedJpg(data) : await result.embedPng(data));
+    }
+    return createPdfLibWriter(result, sizes, (page, index, box) => page.drawImage(embedded[index], box));
+  },
+};
+
+// The provider turns each image into a PDF page of its own choosing, which is
+// then drawn where the image would go. Images the engine could not measure
+// are sized from that page, taking its points as 96 DPI pixels as "fit"
+// pages do.
+function createCloudmersiveStrategy(provider: ConversionProvider): ImagePdfStrategy {
+  return {
+    name: "cloudmersive",
+    engine: "cloudmersive",
+
+    async open(images, sizes) {
+      const converted = await PDFLib.load(await provider.imageToPdf(images));
+      if (converted.getPageCount() !== images.length) {
+        throw new Error(`Cloudmersive returned ${converted.getPageCount()} pages for ${images.length} images`);
+      }
+      const result = await PDFLib.create();
+      const embedded = await result.embedPdf(converted, converted.getPageIndices());
+      const completed = sizes.map((size, index) => size ?? {
+        width: embedded[index].width / POINTS_PER_PIXEL,
+        height: embedded[index].height / POINTS_PER_PIXEL,
+      });
+      return createPdfLibWriter(result, completed, (page, index, box) => page.drawPage(embedded[index], box));
+    },
+  };
+}
+
+// Labelled boxes instead of the images, so the job flow and UI can be
+// exercised without embedding anything, as the mock provider does elsewhere
+const mockStrategy: ImagePdfStrategy = {
+  name: "mock",
+  engine: "mock",
+
+  async open(images, sizes) {
+    const result = await PDFLib.create();
+    const font = await result.embedFont(StandardFonts.Helvetica);
+    return createPdfLibWriter(
+      result,
+      sizes.map((size) => size ?? { width: 800, height: 600 }),
+      (page, index, box) => {
+        const { contentType, data } = images[index];
+        page.drawRectangle({ ...box, color: rgb(0.9, 0.9, 0.9), borderColor: rgb(0.6, 0.6, 0.6), borderWidth: 1 });
+        page.drawText(`Mock image ${index + 1} (${contentType}, ${data.length} bytes)`, {
+          x: box.x + 8,
+          y: box.y + box.height - 18,
+          size: 10,
+          font,
+        });
+      }
+    );
+  },
+};
+
+// The strategies to try for the configured provider, in order
+export function getImagePdfStrategies(): ImagePdfStrategy[] {
+  const provider = getConversionProvider();
+  if (provider.name === "mock") {
+    return [mockStrategy];
+  }
+  return [pdfKitStrategy, pdfLibStrategy, ...(provider.name === "cloudmersive" ? [createCloudmersiveStrategy(provider)] : [])];
+}
+
+// Pixel sizes of the images, null for those sharp cannot read
+async function measureImages(images: SourceImage[]): Promise<(ImageSize | null)[]> {
+  return await Promise.all(images.map(async ({ data }) => {
+    try {
+      const { width, height } = await sharp(data).metadata();
+      return width && height ? { width, height } : null;
+    } catch {
+      return null;
+    }
+  }));
+}
+
+async function writeImagePdf(
+  strategy: ImagePdfStrategy,
+  images: SourceImage[],
+  sizes: (ImageSize | null)[],
+  layout: ImageLayout
+): Promise<Buffer> {
+  const writer = await strategy.open(images, sizes);
+  const unreadable = writer.sizes.flatMap((size, index) => (size ? [] : [index + 1]));
+  if (unreadable.length > 0) {
+    throw new Error(`Image${unreadable.length > 1 ? "s" : ""} ${unreadable.join(", ")} could not be read`);
+  }
+
+  for (const page of planImagePages(writer.sizes, layout)) {
+    writer.addPage(page.pageWidth, page.pageHeight);
+    for (const { index, placement } of page.images) {
+      if (placement) {
+        writer.drawImage(index, placement);
+      }
+    }
+  }
+  return await writer.save();
+}
+
+// Writes the PDF with the first of `strategies` that succeeds. `attempts`
+// are the strategies that failed, with their errors; when all of them did,
+// `written` is null.
+export async function writeImagePdfWithFallback(
+  strategies: ImagePdfStrategy[],
+  images: SourceImage[],
+  layout: ImageLayout
+): Promise<{ written: { pdf: Buffer; strategy: ImagePdfStrategy } | null; attempts: FailureReason["attempts"] }> {
+  const sizes = await measureImages(images);
+  const attempts: FailureReason["attempts"] = [];
+
+  for (const strategy of strategies) {
+    try {
+      console.log(`Attempting to use ${strategy.name}`);
+      return { written: { pdf: await writeImagePdf(strategy, images, sizes, layout), strategy }, attempts };
+    } catch (error) {
+      console.error(`${strategy.name} conversion failed:`, error);
+      attempts.push({ engine: strategy.name, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { written: null, attempts };
+}
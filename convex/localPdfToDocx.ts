@@ -0,0 +1,52 @@
+"use node";
+
+// Built-in PDF to Word engine used when Cloudmersive is not configured or
+// fails. It rebuilds the document from the paragraphs, list items and
+// headings pdfText.ts finds in the PDF text layer, keeping page breaks.
+// Layout, images and tables are not reproduced. ocr writes its Word output
+// with the same writer.
+
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { TextBlock, TextPage, extractPdfText } from './pdfText';
+
+const HEADING_LEVELS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+
+function getHeadingLevel(block: TextBlock) {
+  return block.type === "heading" && block.level ? HEADING_LEVELS[block.level - 1] : undefined;
+}
+
+// One Word paragraph per block, each page starting on a new page
+export async function writeTextDocx(pages: TextPage[], title: string): Promise<Buffer> {
+  const paragraphs: Paragraph[] = [];
+
+  pages.forEach(({ blocks }, pageIndex) => {
+    if (blocks.length === 0) {
+      // Keep empty (e.g. scanned) pages so page numbering still lines up
+      paragraphs.push(new Paragraph({ pageBreakBefore: pageIndex > 0 }));
+      return;
+    }
+
+    blocks.forEach((block, blockIndex) => {
+      const heading = getHeadingLevel(block);
+      paragraphs.push(new Paragraph({
+        heading,
+        pageBreakBefore: pageIndex > 0 && blockIndex === 0,
+        children: [new TextRun(block.marker ? `${block.marker} ${block.text}` : block.text)],
+      }));
+    });
+  });
+
+  const document = new Document({
+    creator: 'AdocsHub',
+    title,
+    sections: [{ children: paragraphs }],
+  });
+
+  return await Packer.toBuffer(document);
+}
+
+export async function convertPdfToDocxLocally(pdfBuffer: Buffer): Promise<Buffer> {
+  const { pages } = await extractPdfText(pdfBuffer);
+  console.log(`Local engine extracted text from ${pages.length} pages`);
+  return await writeTextDocx(pages, 'Converted PDF');
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { convertMarkdownToPdf } from "./markdownToPdf";
+import { normalizeImage } from "./imageNormalize";
+
+// The text lines of each page and how many images it paints
+async function readPages(data: Buffer) {
+  const { OPS } = pdfjs;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  const pages = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const { items } = await page.getTextContent();
+    const lines = [""];
+    for (const item of items) {
+      if (!("str" in item)) continue;
+      lines[lines.length - 1] += item.str;
+      if (item.hasEOL) lines.push("");
+    }
+    const { fnArray } = await page.getOperatorList();
+    pages.push({
+      lines: lines.map((line) => line.trim()).filter(Boolean),
+      images: fnArray.filter((fn) => fn === OPS.paintImageXObject).length,
+    });
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+const MARKDOWN = `# Quarterly report
+
+Intro with a note[^a].
+
+3. Third
+4. Fourth
+   - nested
+
+![Chart](figures/Chart%20One.PNG)
+![Missing](missing.png)
+
+<div>raw</div>
+
+<div style="page-break-after: always"></div>
+
+Last page
+
+[^a]: The note.
+`;
+
+describe("convertMarkdownToPdf", () => {
+  it("sets the cover, lists, images, page breaks and notes", async () => {
+    const chart = await normalizeImage(
+      await sharp({ create: { width: 40, height: 20, channels: 3, background: "red" } }).png().toBuffer()
+    );
+    const { data, pageCount, warnings } = await convertMarkdownToPdf(
+      MARKDOWN,
+      new Map([["chart one.png", chart]]),
+      "report.md",
+      { coverPage: { author: "Ann" } }
+    );
+
+    expect(pageCount).toBe(3);
+    expect(await readPages(data)).toEqual([
+      // The cover takes its title from the first heading and has no number
+      { lines: ["Quarterly report", "Ann"], images: 0 },
+      // The uploaded image is found by its decoded file name, ignoring the
+      // folder and case; the missing one is replaced by its alt text
+      {
+        lines: ["Quarterly report", "Intro with a note1.", "3. Third", "4. Fourth", "– nested", "[Missing]", "2"],
+        images: 1,
+      },
+      { lines: ["Last page", "1. The note.", "3"], images: 0 },
+    ]);
+    expect(warnings).toEqual([
+      'Image "missing.png" was not uploaded and was left out',
+      "Raw HTML blocks are not supported and were left out",
+    ]);
+  });
+
+  it("names the cover after the file when there is no heading", async () => {
+    const { data } = await convertMarkdownToPdf("Just text", new Map(), "notes.markdown", { coverPage: {} });
+    const [cover] = await readPages(data);
+    expect(cover.lines).toEqual(["notes"]);
+  });
+});
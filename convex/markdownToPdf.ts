@@ -0,0 +1,374 @@
+"use node";
+
+// Converts Markdown to PDF. remarkable (the parser markdown-pdf uses) reads
+// it with the GitHub extensions for tables, strikethrough and footnotes,
+// highlight.js splits fenced code into coloured scopes, and the blocks are
+// set by documentLayout.ts in the chosen theme.
+//
+// Images are only taken from the files uploaded with the Markdown; nothing is
+// fetched from the network. Raw HTML is dropped, except for the page break
+// divs Markdown-to-PDF tools commonly understand.
+
+import { Remarkable } from 'remarkable';
+import hljs from 'highlight.js';
+import {
+  Alignment,
+  Block,
+  CoverPage,
+  HeadingLevel,
+  InlinePart,
+  LIST_INDENT,
+  PLAIN_STYLE,
+  TableRow,
+  TextSegment,
+  TextStyle,
+  appendText,
+  getBullet,
+  renderDocument,
+} from './documentLayout';
+import { NormalizedImage } from './imageNormalize';
+import { MarkdownToPdfOptions } from './converters';
+
+// The fields of remarkable's tokens read here
+type MarkdownToken = {
+  type: string;
+  content?: string;
+  children?: MarkdownToken[];
+  hLevel?: number;
+  order?: number;
+  params?: string;
+  align?: string;
+  href?: string;
+  src?: string;
+  alt?: string;
+  id?: number;
+};
+
+export type MarkdownToPdfResult = {
+  data: Buffer;
+  pageCount: number;
+  warnings: string[];
+};
+
+const QUOTE_INDENT = 12;
+
+const ALIGNMENTS: Record<string, Alignment> = {
+  left: "left",
+  center: "center",
+  right: "right",
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#x27;": "'",
+  "&#39;": "'",
+};
+
+type MappingState = {
+  // Uploaded images by lower-case file name
+  images: Map<string, NormalizedImage>;
+  // Image references with no matching upload
+  missingImages: Set<string>;
+  skippedHtml: boolean;
+  notes: Block[][];
+};
+
+// Position in the token list, shared by the nested mapping calls
+type Cursor = { index: number };
+
+// The list item whose first paragraph still needs its bullet or number
+type ListContext = { level: number; marker: string | null };
+
+function decodeEntities(html: string): string {
+  return html.replace(/&(amp|lt|gt|quot|#x27|#39);/g, (entity) => HTML_ENTITIES[entity]);
+}
+
+// Turns highlight.js HTML back into text runs tagged with the innermost scope
+function parseHighlightedHtml(html: string): { text: string; scope: string | null }[] {
+  const runs: { text: string; scope: string | null }[] = [];
+  const scopes: (string | null)[] = [];
+  for (const match of html.matchAll(/<span class="([^"]*)">|<\/span>|[^<]+/g)) {
+    if (match[1] !== undefined) {
+      const scope = match[1].split(" ")[0].replace(/^hljs-/, "");
+      scopes.push(scope || null);
+    } else if (match[0] === "</span>") {
+      scopes.pop();
+    } else {
+      runs.push({ text: decodeEntities(match[0]), scope: scopes[scopes.length - 1] ?? null });
+    }
+  }
+  return runs;
+}
+
+// Code lines, coloured when the fence names a language highlight.js knows
+function highlightCode(code: string, language: string): TextSegment[][] {
+  const source = code.replace(/\n$/, "").replace(/\t/g, "    ");
+  const name = language.trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+  const runs = name && hljs.getLanguage(name)
+    ? parseHighlightedHtml(hljs.highlight(source, { language: name, ignoreIllegals: true }).value)
+    : [{ text: source, scope: null }];
+
+  const lines: InlinePart[][] = [[]];
+  for (const run of runs) {
+    run.text.split("\n").forEach((text, index) => {
+      if (index > 0) lines.push([]);
+      if (text) appendText(lines[lines.length - 1], text, { ...PLAIN_STYLE, code: true, syntax: run.scope });
+    });
+  }
+  return lines.map((parts) => (parts[0]?.type === "text" ? parts[0].segments : []));
+}
+
+function getImageKey(path: string): string {
+  const file = path.split(/[?#]/)[0].split(/[\\/]/).pop() ?? "";
+  try {
+    return decodeURIComponent(file).toLowerCase();
+  } catch {
+    return file.toLowerCase();
+  }
+}
+
+function mapInline(state: MappingState, tokens: MarkdownToken[]): InlinePart[] {
+  const parts: InlinePart[] = [];
+  const styles: TextStyle[] = [PLAIN_STYLE];
+  const current = () => styles[styles.length - 1];
+  const open = (change: Partial<TextStyle>) => styles.push({ ...current(), ...change });
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case "text":
+        appendText(parts, token.content ?? "", current());
+        break;
+      case "code":
+        appendText(parts, token.content ?? "", { ...current(), code: true });
+        break;
+      case "softbreak":
+        appendText(parts, " ", current());
+        break;
+      case "hardbreak":
+        appendText(parts, "\n", current());
+        break;
+      case "strong_open":
+        open({ bold: true });
+        break;
+      case "em_open":
+        open({ italic: true });
+        break;
+      case "del_open":
+        open({ strike: true });
+        break;
+      case "ins_open":
+        open({ underline: true });
+        break;
+      case "mark_open":
+        open({});
+        break;
+      case "link_open":
+        // Relative links point into the author's folder and would not work
+        // from the PDF
+        open({ link: /^(https?:|mailto:)/i.test(token.href ?? "") ? token.href! : null });
+        break;
+      case "strong_close":
+      case "em_close":
+      case "del_close":
+      case "ins_close":
+      case "mark_close":
+      case "link_close":
+        if (styles.length > 1) styles.pop();
+        break;
+      case "sup":
+      case "sub":
+        appendText(parts, token.content ?? "", { ...current(), script: true });
+        break;
+      case "footnote_ref":
+        appendText(parts, String((token.id ?? 0) + 1), { ...current(), script: true });
+        break;
+      case "htmltag":
+        if (/^<br\s*\/?>$/i.test(token.content ?? "")) {
+          appendText(parts, "\n", current());
+        }
+        break;
+      case "image": {
+        const image = state.images.get(getImageKey(token.src ?? ""));
+        if (image) {
+          parts.push({ type: "image", image });
+        } else {
+          state.missingImages.add(token.src ?? "");
+          if (token.alt) {
+            appendText(parts, `[${token.alt}]`, { ...current(), italic: true });
+          }
+        }
+        break;
+      }
+    }
+  }
+  return parts;
+}
+
+function mapTable(state: MappingState, tokens: MarkdownToken[], cursor: Cursor): Block {
+  const rows: TableRow[] = [];
+  let header = false;
+  while (cursor.index < tokens.length) {
+    const token = tokens[cursor.index++];
+    if (token.type === "table_close") {
+      break;
+    } else if (token.type === "thead_open" || token.type === "thead_close") {
+      header = token.type === "thead_open";
+    } else if (token.type === "tr_open") {
+      rows.push({ header, cells: [] });
+    } else if ((token.type === "th_open" || token.type === "td_open") && rows.length > 0) {
+      const inline = tokens[cursor.index]?.type === "inline" ? tokens[cursor.index++] : null;
+      const align = ALIGNMENTS[token.align ?? ""];
+      rows[rows.length - 1].cells.push({
+        blocks: [{ type: "paragraph", parts: mapInline(state, inline?.children ?? []), ...(align ? { align } : {}) }],
+        colSpan: 1,
+        rowSpan: 1,
+      });
+    }
+  }
+  return { type: "table", rows };
+}
+
+// Maps block tokens up to `close` (or the end). Inside a list item,
+// paragraphs get the item's marker and other blocks are inset to its text.
+function mapBlocks(
+  state: MappingState,
+  tokens: MarkdownToken[],
+  cursor: Cursor,
+  close: string | null,
+  list: ListContext | null
+): Block[] {
+  const blocks: Block[] = [];
+  const add = (block: Block) => {
+    blocks.push(list ? { type: "inset", indent: (list.level + 1) * LIST_INDENT, bar: false, blocks: [block] } : block);
+  };
+  // Heading and paragraph tokens are followed by their inline content and
+  // the closing token
+  const readInline = () => {
+    const inline = tokens[cursor.index]?.type === "inline" ? tokens[cursor.index++] : null;
+    cursor.index++;
+    return mapInline(state, inline?.children ?? []);
+  };
+
+  while (cursor.index < tokens.length) {
+    const token = tokens[cursor.index++];
+    if (token.type === close) {
+      break;
+    }
+    switch (token.type) {
+      case "heading_open":
+        add({ type: "paragraph", heading: Math.min(Math.max(token.hLevel ?? 1, 1), 6) as HeadingLevel, parts: readInline() });
+        break;
+      case "paragraph_open": {
+        const parts = readInline();
+        if (list) {
+          blocks.push({ type: "paragraph", parts, list: { level: list.level, marker: list.marker ?? "" } });
+          list.marker = null;
+        } else {
+          blocks.push({ type: "paragraph", parts });
+        }
+        break;
+      }
+      case "bullet_list_open":
+      case "ordered_list_open": {
+        const level = list ? list.level + 1 : 0;
+        const ordered = token.type === "ordered_list_open";
+        const listClose = ordered ? "ordered_list_close" : "bullet_list_close";
+        let number = token.order ?? 1;
+        while (cursor.index < tokens.length) {
+          const item = tokens[cursor.index++];
+          if (item.type === listClose) break;
+          if (item.type === "list_item_open") {
+            const marker = ordered ? `${number++}.` : getBullet(level);
+            blocks.push(...mapBlocks(state, tokens, cursor, "list_item_close", { level, marker }));
+          }
+        }
+        break;
+      }
+      case "blockquote_open":
+        add({ type: "inset", indent: QUOTE_INDENT, bar: true, blocks: mapBlocks(state, tokens, cursor, "blockquote_close", null) });
+        break;
+      case "fence":
+      case "code":
+        add({ type: "code", lines: highlightCode(token.content ?? "", token.params ?? "") });
+        break;
+      case "hr":
+        add({ type: "rule" });
+        break;
+      case "table_open":
+        add(mapTable(state, tokens, cursor));
+        break;
+      case "htmlblock":
+        if (/page-break-(before|after)\s*:\s*always/i.test(token.content ?? "")) {
+          blocks.push({ type: "pageBreak" });
+        } else {
+          state.skippedHtml = true;
+        }
+        break;
+      case "footnote_open": {
+        const id = token.id ?? state.notes.length;
+        state.notes[id] = mapBlocks(state, tokens, cursor, "footnote_close", null);
+        break;
+      }
+    }
+  }
+  return blocks;
+}
+
+// Text of the first top-level heading, for the cover page and PDF title
+function findTitle(blocks: Block[]): string | null {
+  for (const block of blocks) {
+    if (block.type === "paragraph" && block.heading === 1) {
+      const text = block.parts
+        .map((part) => (part.type === "text" ? part.segments.map((segment) => segment.text).join("") : ""))
+        .join("")
+        .trim();
+      if (text) return text;
+    }
+  }
+  return null;
+}
+
+export async function convertMarkdownToPdf(
+  markdown: string,
+  images: Map<string, NormalizedImage>,
+  fileName: string,
+  options: MarkdownToPdfOptions
+): Promise<MarkdownToPdfResult> {
+  const parser = new Remarkable('full', { html: true, typographer: true });
+  const tokens = parser.parse(markdown, {}) as MarkdownToken[];
+
+  const state: MappingState = { images, missingImages: new Set(), skippedHtml: false, notes: [] };
+  const blocks = mapBlocks(state, tokens, { index: 0 }, null, null);
+  const notes = state.notes.filter((note) => note !== undefined);
+  if (notes.length > 0) {
+    blocks.push({ type: "notes", notes });
+  }
+
+  const title = findTitle(blocks) ?? fileName.replace(/\.(md|markdown)$/i, "");
+  const cover: CoverPage | null = options.coverPage
+    ? {
+      title: options.coverPage.title?.trim() || title,
+      subtitle: options.coverPage.subtitle?.trim() || undefined,
+      author: options.coverPage.author?.trim() || undefined,
+      date: options.coverPage.date?.trim() || undefined,
+    }
+    : null;
+
+  const { data, pageCount } = await renderDocument(blocks, {
+    theme: options.theme ?? "classic",
+    title: cover?.title ?? title,
+    cover,
+    tableOfContents: options.tableOfContents ?? false,
+    pageNumbers: true,
+  });
+
+  const warnings = [...state.missingImages].map((src) => `Image "${src}" was not uploaded and was left out`);
+  if (state.skippedHtml) {
+    warnings.push("Raw HTML blocks are not supported and were left out");
+  }
+  console.log(`Rendered Markdown to ${pageCount} PDF pages with ${images.size} uploaded images`);
+  return { data, pageCount, warnings };
+}
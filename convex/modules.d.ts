@@ -0,0 +1,40 @@
+// Declarations for the packages imported without types of their own
+
+// The library entry of pdf-parse, which pdfText.ts imports instead of the
+// package index (@types/pdf-parse only covers the index). The page passed to
+// `pagerender` is pdf.js's PDFPageProxy; only what pdfText.ts reads is typed.
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  export type PdfParsePage = {
+    pageIndex: number;
+    transport: { numPages: number };
+    getViewport(scale: number): {
+      width: number;
+      height: number;
+      convertToViewportPoint(x: number, y: number): [number, number];
+    };
+    getTextContent(options: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{
+      items: { str: string; transform: number[]; width?: number; height?: number }[];
+    }>;
+  };
+
+  export type PdfParseOptions = {
+    // Returns the text of one page for the result's `text`
+    pagerender?: (pageData: PdfParsePage) => string | Promise<string>;
+    // Pages to read; all when left out or 0
+    max?: number;
+  };
+
+  export default function pdfParse(
+    data: Buffer | Uint8Array,
+    options?: PdfParseOptions
+  ): Promise<{ numpages: number; numrender: number; text: string }>;
+}
+
+// remarkable 2. markdownToPdf.ts reads the tokens through its own
+// MarkdownToken type, so they are left unknown here.
+declare module 'remarkable' {
+  export class Remarkable {
+    constructor(preset?: 'default' | 'full' | 'commonmark', options?: Record<string, unknown>);
+    parse(markdown: string, env: object): unknown[];
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { OcrLanguage } from "./converters";
+import { runOcr } from "./ocr";
+
+// A white 1200 × 300 picture of black text, recorded without a resolution
+async function createScan(text: string): Promise<Buffer> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="300">
+    <rect width="100%" height="100%" fill="white"/>
+    <text x="60" y="180" font-family="sans-serif" font-size="96">${text}</text>
+  </svg>`;
+  return await sharp(Buffer.from(svg)).flatten().png().toBuffer();
+}
+
+// A PDF whose pages already carry the given text
+async function createTextPdf(pages: string[]): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (const text of pages) {
+    doc.addPage([600, 800]).drawText(text, { x: 72, y: 700, size: 12, font });
+  }
+  return Buffer.from(await doc.save());
+}
+
+describe("runOcr", () => {
+  it("lays the recognized words invisibly over the image in a searchable PDF", async () => {
+    const scan = await createScan("Hello scanner");
+    const { data, pages, warnings } = await runOcr(scan, { languages: ["eng"], output: "pdf" }, "scan.png");
+
+    expect(warnings).toEqual([]);
+    expect(pages).toEqual([{ page: 1, confidence: expect.any(Number), words: 2 }]);
+    expect(pages[0].confidence).toBeGreaterThan(80);
+
+    // Without a recorded resolution the picture is sized to fit A4
+    const scale = 842 / 1200;
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+    const page = await pdf.getPage(1);
+    const { items } = await page.getTextContent();
+    const words = items.flatMap((item) => ("str" in item && item.str.trim() ? [item] : []));
+    expect(page.view).toEqual([0, 0, 1200 * scale, 300 * scale]);
+    expect(words.map((word) => word.str).join("")).toBe("Hello scanner");
+    const { fnArray, argsArray } = await page.getOperatorList();
+    expect(argsArray[fnArray.indexOf(pdfjs.OPS.setTextRenderingMode)]).toEqual([3]);
+    // The first word starts at the left of the ink, on the baseline the
+    // text was drawn on 180 px down (nothing in it descends below)
+    const { info } = await sharp(scan).trim().toBuffer({ resolveWithObject: true });
+    expect(Math.abs(words[0].transform[4] - -info.trimOffsetLeft! * scale)).toBeLessThan(2);
+    expect(Math.abs(words[0].transform[5] - (300 - 180) * scale)).toBeLessThan(2);
+    await pdf.destroy();
+  }, 60_000);
+
+  it("keeps the text of pages that have a text layer instead of recognizing them", async () => {
+    const pdf = await createTextPdf(["This page was typed, not scanned at all.", "So was this one, with enough text to count."]);
+    const { data, pages, warnings } = await runOcr(pdf, { languages: ["eng"], output: "text", pages: "2" }, "typed.pdf");
+
+    expect(pages).toEqual([]);
+    expect(data.toString()).toBe("So was this one, with enough text to count.\n");
+    expect(warnings).toEqual(["Page 2 already had text and was not recognized"]);
+  });
+
+  it("rejects unknown languages and selections outside the document", async () => {
+    const pdf = await createTextPdf(["This page was typed, not scanned at all."]);
+    await expect(runOcr(pdf, { languages: ["xx" as OcrLanguage], output: "text" }, "a.pdf"))
+      .rejects.toThrow("Unsupported OCR language: xx");
+    await expect(runOcr(pdf, { languages: ["eng"], output: "text", pages: "3" }, "a.pdf"))
+      .rejects.toThrow("Page 3 is out of range, the document has 1 page");
+  });
+});
@@ -0,0 +1,389 @@
+"use node";
+
+// Optical character recognition with tesseract.js, which runs Tesseract's
+// LSTM engine as WebAssembly in a worker thread. The trained data for
+// OCR_LANGUAGES comes from the @tesseract.js-data packages installed with the
+// deployment (listed in convex.json's externalPackages, as they are read from
+// disk), so recognition never downloads anything.
+//
+// Scanned PDF pages are rendered with pdfToImages.ts and recognized; pages
+// that already have a text layer are left alone and their own text is used.
+// A searchable PDF gets an invisible text layer (rendering mode 3) laid over
+// each recognized page, word by word, so selecting text follows the scan.
+// Text and Word output go through the pdfText.ts page model, so they come out
+// like pdf_to_text and the built-in PDF to Word engine.
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createRequire } from 'module';
+import sharp from 'sharp';
+import { Line, OEM, Page as RecognizedPage, createWorker } from 'tesseract.js';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  rotateAndSkewTextDegreesAndTranslate,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib';
+import {
+  OCR_LANGUAGES,
+  OCR_LOW_CONFIDENCE,
+  OCR_MAX_PAGES,
+  OCR_OUTPUT_FORMATS,
+  OcrLanguage,
+  OcrOptions,
+} from './converters';
+import { PageConfidence } from './schema';
+import { TextBlock, TextLine, TextPage, extractPdfText, formatPdfText, joinLines } from './pdfText';
+import { renderPdfPages } from './pdfToImages';
+import { normalizeImageFrames } from './imageNormalize';
+import { writeTextDocx } from './localPdfToDocx';
+import { selectPages } from './pageRanges';
+import { getDisplayedPage, isolatePageContent } from './pageSpace';
+
+export type OcrResult = {
+  data: Buffer;
+  pages: PageConfidence[];
+  warnings: string[];
+};
+
+// An image handed to the engine and where its page is on paper
+type PageScan = {
+  // 1-based page or frame number
+  page: number;
+  data: Buffer;
+  // Points per pixel of the image
+  scale: number;
+  // Displayed size of the page in points
+  width: number;
+  height: number;
+};
+
+type RecognizedScan = PageScan & { result: RecognizedPage };
+
+// Scanned PDF pages are rendered at the resolution Tesseract is tuned for
+const OCR_DPI = 300;
+
+// Pages whose text layer has fewer characters than this, such as a scanner's
+// page stamp, count as scanned
+const MIN_TEXT_LAYER_CHARACTERS = 20;
+
+// Images recorded at a lower resolution than this usually carry a default
+// rather than the scanner's setting; they are sized to fit A4 instead
+const MIN_RECORDED_DPI = 100;
+const A4_LONG_SIDE = 842;
+
+// Folder inside the @tesseract.js-data packages with the LSTM-only models
+const TRAINED_DATA_FOLDER = '4.0.0_best_int';
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isPdf(data: Buffer): boolean {
+  return data.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+function listPages(pages: number[]): string {
+  return `Page${pages.length > 1 ? "s" : ""} ${pages.join(", ")}`;
+}
+
+// tesseract.js reads `<langPath>/<code>.traineddata.gz`, while the packages
+// keep the file in a versioned folder, so the models are gathered in one
+// temporary folder. They are copied under a temporary name and renamed, so
+// concurrent jobs never read a half-written file.
+async function getLanguagePath(languages: OcrLanguage[]): Promise<string> {
+  const require = createRequire(import.meta.url);
+  const directory = path.join(os.tmpdir(), 'ocr-traineddata');
+  await fs.mkdir(directory, { recursive: true });
+
+  for (const language of languages) {
+    const target = path.join(directory, `${language}.traineddata.gz`);
+    try {
+      await fs.access(target);
+      continue;
+    } catch {
+      // Not copied yet
+    }
+    const packageRoot = path.dirname(require.resolve(`@tesseract.js-data/${language}/package.json`));
+    const partial = `${target}.${process.pid}.${Date.now()}`;
+    await fs.copyFile(path.join(packageRoot, TRAINED_DATA_FOLDER, `${language}.traineddata.gz`), partial);
+    await fs.rename(partial, target);
+  }
+  return directory;
+}
+
+function checkLanguages(languages: OcrLanguage[] | undefined): OcrLanguage[] {
+  const selected = languages?.length ? [...new Set(languages)] : ["eng" as const];
+  const unknown = selected.filter((language) => !(language in OCR_LANGUAGES));
+  if (unknown.length > 0) {
+    throw new Error(`Unsupported OCR language${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`);
+  }
+  return selected;
+}
+
+async function recognizeScans(scans: PageScan[], languages: OcrLanguage[]): Promise<RecognizedScan[]> {
+  if (scans.length === 0) {
+    return [];
+  }
+  const worker = await createWorker(languages.join('+'), OEM.LSTM_ONLY, {
+    cacheMethod: 'none',
+    langPath: await getLanguagePath(languages),
+  });
+  try {
+    const recognized: RecognizedScan[] = [];
+    for (const scan of scans) {
+      const { data: result } = await worker.recognize(scan.data, {}, { text: true, blocks: true });
+      console.log(`Recognized page ${scan.page} with ${Math.round(result.confidence)}% confidence`);
+      recognized.push({ ...scan, result });
+    }
+    return recognized;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+function getLines(result: RecognizedPage): Line[] {
+  return (result.blocks ?? []).flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines));
+}
+
+function getConfidence({ page, result }: RecognizedScan): PageConfidence {
+  const words = getLines(result).reduce((count, line) => count + line.words.filter((word) => word.text.trim()).length, 0);
+  return { page, confidence: round(result.confidence), words };
+}
+
+// Height of the baseline at pixel x along the line, which may be slightly
+// skewed on a scan; the bottom of the box when Tesseract found none
+function getBaseline(line: Line, x: number): number {
+  const { baseline, bbox } = line;
+  if (!baseline || baseline.y0 < bbox.y0 || baseline.y0 > bbox.y1 || baseline.x1 === baseline.x0) {
+    return bbox.y1;
+  }
+  return baseline.y0 + ((baseline.y1 - baseline.y0) * (x - baseline.x0)) / (baseline.x1 - baseline.x0);
+}
+
+function toTextPage({ page, scale, width, height, result }: RecognizedScan): TextPage {
+  const blocks: TextBlock[] = [];
+  for (const paragraph of (result.blocks ?? []).flatMap((block) => block.paragraphs)) {
+    const lines: TextLine[] = paragraph.lines
+      .map((line) => {
+        const fontSize = round((getBaseline(line, line.bbox.x0) - line.bbox.y0) * scale);
+        return {
+          text: line.text.replace(/\s+/g, ' ').trim(),
+          x: round(line.bbox.x0 * scale),
+          y: round(line.bbox.y0 * scale),
+          width: round((line.bbox.x1 - line.bbox.x0) * scale),
+          height: fontSize,
+          fontSize,
+        };
+      })
+      .filter((line) => line.text);
+    if (lines.length === 0) continue;
+
+    const { bbox } = paragraph;
+    blocks.push({
+      type: "paragraph",
+      x: round(bbox.x0 * scale),
+      y: round(bbox.y0 * scale),
+      width: round((bbox.x1 - bbox.x0) * scale),
+      height: round((bbox.y1 - bbox.y0) * scale),
+      text: joinLines(lines),
+      fontSize: Math.max(...lines.map((line) => line.fontSize)),
+      lines,
+    });
+  }
+  return { page, width: round(width), height: round(height), blocks };
+}
+
+// The standard fonts only cover WinAnsi; anything else is written as "?" in
+// the hidden layer, which keeps the words' positions intact
+function createEncoder(font: PDFFont): (text: string) => string {
+  const supported = new Set(font.getCharacterSet());
+  return (text) => [...text.normalize('NFKC')]
+    .map((character) => (supported.has(character.codePointAt(0)!) ? character : '?'))
+    .join('');
+}
+
+// Lays the recognized words over the page in invisible text. Positions are
+// measured on the page as displayed and turned back into the page's own
+// coordinates for its /Rotate.
+function addTextLayer(page: PDFPage, font: PDFFont, { result, scale }: RecognizedScan) {
+  const { rotation, toPageSpace } = getDisplayedPage(page);
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+  const encode = createEncoder(font);
+  const operators = [pushGraphicsState(), beginText(), setTextRenderingMode(TextRenderingMode.Invisible)];
+
+  for (const line of getLines(result)) {
+    const words = line.words.filter((word) => word.text.trim());
+    if (words.length === 0) continue;
+    const fontSize = Math.max(1, (getBaseline(line, line.bbox.x0) - line.bbox.y0) * scale);
+    operators.push(setFontAndSize(fontKey, fontSize));
+
+    words.forEach((word, index) => {
+      // Each word but the last carries the space after it, stretched to
+      // reach the next word, so copied text keeps its spaces
+      const next = words[index + 1];
+      const text = encode(word.text.trim()) + (next ? ' ' : '');
+      const width = ((next ? next.bbox.x0 : word.bbox.x1) - word.bbox.x0) * scale;
+      const naturalWidth = font.widthOfTextAtSize(text, fontSize);
+      if (width <= 0 || naturalWidth <= 0) return;
+
+      const [x, y] = toPageSpace(word.bbox.x0 * scale, getBaseline(line, word.bbox.x0) * scale);
+      operators.push(
+        setCharacterSqueeze(round((100 * width) / naturalWidth)),
+        rotateAndSkewTextDegreesAndTranslate(rotation, 0, 0, round(x), round(y)),
+        showText(font.encodeText(text))
+      );
+    });
+  }
+
+  operators.push(endText(), popGraphicsState());
+  page.pushOperators(...operators);
+}
+
+function hasTextLayer(page: TextPage): boolean {
+  const characters = page.blocks.reduce((count, block) => count + block.text.replace(/\s/g, '').length, 0);
+  return characters >= MIN_TEXT_LAYER_CHARACTERS;
+}
+
+function checkPageCount(count: number) {
+  if (count > OCR_MAX_PAGES) {
+    throw new Error(`${count} pages need recognizing, but at most ${OCR_MAX_PAGES} can be recognized at once`);
+  }
+}
+
+async function writeTextOutput(options: OcrOptions, pages: TextPage[], fileName: string): Promise<Buffer> {
+  if (options.output === "docx") {
+    return await writeTextDocx(pages, fileName.replace(/\.[^.]+$/, ''));
+  }
+  return Buffer.from(formatPdfText({ pageCount: pages.length, pages, bodyFontSize: 0, unreadablePages: [] }, "text", fileName));
+}
+
+async function recognizePdf(
+  pdfBuffer: Buffer,
+  options: OcrOptions,
+  languages: OcrLanguage[],
+  fileName: string
+): Promise<{ data: Buffer; recognized: RecognizedScan[]; warnings: string[] }> {
+  // Reading the text layer also checks the page selection against the PDF
+  const textLayer = await extractPdfText(pdfBuffer, options.pages);
+  const selected = options.pages?.trim()
+    ? selectPages(options.pages, textLayer.pageCount).map((index) => index + 1)
+    : Array.from({ length: textLayer.pageCount }, (_, index) => index + 1);
+  const withText = new Map(textLayer.pages.filter(hasTextLayer).map((page) => [page.page, page]));
+  const scanned = selected.filter((page) => !withText.has(page));
+  checkPageCount(scanned.length);
+
+  const warnings: string[] = [];
+  if (withText.size > 0) {
+    warnings.push(`${listPages([...withText.keys()])} already had text and ${withText.size > 1 ? "were" : "was"} not recognized`);
+  }
+
+  const pdf = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+  const scans: PageScan[] = [];
+  if (scanned.length > 0) {
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    const rendered = await renderPdfPages(pdfBuffer, { format: "png", dpi: OCR_DPI, pages: scanned.join(',') }, baseName);
+    warnings.push(...rendered.warnings);
+    for (const image of rendered.images) {
+      // Pages are rendered as displayed, crop box only. Those too large for
+      // the full resolution come out smaller, so the scale is measured.
+      const { width, height } = getDisplayedPage(pdf.getPage(image.page - 1));
+      scans.push({ page: image.page, data: image.data, scale: width / image.width, width, height });
+    }
+  }
+  const recognized = await recognizeScans(scans, languages);
+
+  if (options.output !== "pdf") {
+    const byPage = new Map(recognized.map((scan) => [scan.page, toTextPage(scan)]));
+    const pages = selected.flatMap((page) => withText.get(page) ?? byPage.get(page) ?? []);
+    return { data: await writeTextOutput(options, pages, fileName), recognized, warnings };
+  }
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const scan of recognized) {
+    const page = pdf.getPage(scan.page - 1);
+    isolatePageContent(pdf, page);
+    addTextLayer(page, font, scan);
+  }
+  return { data: Buffer.from(await pdf.save()), recognized, warnings };
+}
+
+async function recognizeImage(
+  imageBuffer: Buffer,
+  options: OcrOptions,
+  languages: OcrLanguage[],
+  fileName: string
+): Promise<{ data: Buffer; recognized: RecognizedScan[]; warnings: string[] }> {
+  const frames = await normalizeImageFrames(imageBuffer, false);
+  const selected = options.pages?.trim()
+    ? selectPages(options.pages, frames.length)
+    : frames.map((_, index) => index);
+  checkPageCount(selected.length);
+
+  let density: number | undefined;
+  try {
+    density = (await sharp(imageBuffer).metadata()).density;
+  } catch {
+    // Formats sharp cannot read directly (HEIC, BMP) are sized to fit A4
+  }
+
+  const scans: PageScan[] = selected.map((index) => {
+    const { data, width, height } = frames[index];
+    const scale = density && density >= MIN_RECORDED_DPI ? 72 / density : A4_LONG_SIDE / Math.max(width, height);
+    return { page: index + 1, data, scale, width: width * scale, height: height * scale };
+  });
+  const recognized = await recognizeScans(scans, languages);
+
+  if (options.output !== "pdf") {
+    return { data: await writeTextOutput(options, recognized.map(toTextPage), fileName), recognized, warnings: [] };
+  }
+
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const scan of recognized) {
+    const frame = frames[scan.page - 1];
+    const image = frame.contentType === 'image/jpeg' ? await pdf.embedJpg(frame.data) : await pdf.embedPng(frame.data);
+    const page = pdf.addPage([scan.width, scan.height]);
+    page.drawImage(image, { x: 0, y: 0, width: scan.width, height: scan.height });
+    addTextLayer(page, font, scan);
+  }
+  return { data: Buffer.from(await pdf.save()), recognized, warnings: [] };
+}
+
+// Recognizes a scanned PDF or an image (every frame of a multi-page TIFF)
+export async function runOcr(input: Buffer, options: OcrOptions, fileName: string): Promise<OcrResult> {
+  if (!OCR_OUTPUT_FORMATS[options.output]) {
+    throw new Error(`Unsupported OCR output: ${options.output}`);
+  }
+  const languages = checkLanguages(options.languages);
+
+  const { data, recognized, warnings } = isPdf(input)
+    ? await recognizePdf(input, options, languages, fileName)
+    : await recognizeImage(input, options, languages, fileName);
+
+  const pages = recognized.map(getConfidence);
+  const blank = pages.filter((page) => page.words === 0).map((page) => page.page);
+  const unsure = pages
+    .filter((page) => page.words > 0 && page.confidence < OCR_LOW_CONFIDENCE)
+    .map((page) => page.page);
+  if (blank.length > 0) {
+    warnings.push(`No text was recognized on ${listPages(blank).toLowerCase()}`);
+  }
+  if (unsure.length > 0) {
+    warnings.push(`${listPages(unsure)} ${unsure.length > 1 ? "were" : "was"} recognized with low confidence; check the text against the original`);
+  }
+
+  console.log(`Recognized ${pages.length} pages in ${languages.join('+')}`);
+  return { data, pages, warnings };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { applyPageOperations } from "./pageOperations";
+
+describe("applyPageOperations", () => {
+  it("returns the pages unchanged without operations", () => {
+    expect(applyPageOperations(2, [])).toEqual([
+      { page: 1, rotation: 0 },
+      { page: 2, rotation: 0 },
+    ]);
+  });
+
+  it("replays moves, rotations and deletions in order", () => {
+    const pages = applyPageOperations(4, [
+      { type: "move", page: 4, toPosition: 1 },
+      { type: "rotate", page: 2, degrees: 90 },
+      { type: "delete", page: 3 },
+      { type: "rotate", page: 2, degrees: 180 },
+    ]);
+    expect(pages).toEqual([
+      { page: 4, rotation: 0 },
+      { page: 1, rotation: 0 },
+      { page: 2, rotation: 270 },
+    ]);
+  });
+
+  it("identifies pages by their original number after a move", () => {
+    const pages = applyPageOperations(3, [
+      { type: "move", page: 1, toPosition: 3 },
+      { type: "rotate", page: 1, degrees: -90 },
+    ]);
+    expect(pages).toEqual([
+      { page: 2, rotation: 0 },
+      { page: 3, rotation: 0 },
+      { page: 1, rotation: 270 },
+    ]);
+  });
+
+  it("rejects operations on deleted or unknown pages", () => {
+    expect(() => applyPageOperations(2, [
+      { type: "delete", page: 1 },
+      { type: "rotate", page: 1, degrees: 90 },
+    ])).toThrow("Operation 2: page 1 is not in the document");
+    expect(() => applyPageOperations(2, [{ type: "delete", page: 3 }])).toThrow("page 3 is not in the document");
+  });
+
+  it("rejects moves past the end and rotations that are not quarter turns", () => {
+    expect(() => applyPageOperations(2, [{ type: "move", page: 1, toPosition: 3 }])).toThrow("position 3 is out of range");
+    expect(() => applyPageOperations(2, [{ type: "rotate", page: 1, degrees: 45 as 90 }])).toThrow("steps of 90 degrees");
+  });
+
+  it("keeps at least one page", () => {
+    expect(() => applyPageOperations(1, [{ type: "delete", page: 1 }])).toThrow("At least one page has to remain");
+  });
+});
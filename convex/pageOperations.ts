@@ -0,0 +1,68 @@
+// Edits made in the page organizer, recorded in the order the user made them.
+// The list is the job's options, so it is kept with the conversion as an
+// audit trail; the organizer UI and the server both replay it with
+// applyPageOperations to get the final page layout.
+//
+// Pages are identified by their 1-based number in the uploaded PDF, so a
+// recorded operation still reads "rotate page 3" after pages were moved.
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export type PageOperation =
+  | { type: "move"; page: number; toPosition: number }
+  | { type: "rotate"; page: number; degrees: 90 | -90 | 180 }
+  | { type: "delete"; page: number };
+
+export type PdfOrganizeOptions = {
+  operations: PageOperation[];
+};
+
+// One page of the result: which source page it is and how far to turn it
+export type OrganizedPage = {
+  page: number;
+  rotation: PageRotation;
+};
+
+export function applyPageOperations(pageCount: number, operations: PageOperation[]): OrganizedPage[] {
+  let pages: OrganizedPage[] = Array.from({ length: pageCount }, (_, i) => ({ page: i + 1, rotation: 0 }));
+
+  operations.forEach((operation, index) => {
+    const position = pages.findIndex((p) => p.page === operation.page);
+    if (position === -1) {
+      throw new Error(`Operation ${index + 1}: page ${operation.page} is not in the document`);
+    }
+
+    switch (operation.type) {
+      case "move": {
+        const target = operation.toPosition - 1;
+        if (!Number.isInteger(target) || target < 0 || target >= pages.length) {
+          throw new Error(`Operation ${index + 1}: position ${operation.toPosition} is out of range`);
+        }
+        const [moved] = pages.splice(position, 1);
+        pages.splice(target, 0, moved);
+        break;
+      }
+      case "rotate": {
+        if (![90, -90, 180].includes(operation.degrees)) {
+          throw new Error(`Operation ${index + 1}: pages turn in steps of 90 degrees`);
+        }
+        const current = pages[position];
+        pages[position] = {
+          ...current,
+          rotation: ((current.rotation + operation.degrees + 360) % 360) as PageRotation,
+        };
+        break;
+      }
+      case "delete":
+        pages = pages.filter((p) => p.page !== operation.page);
+        break;
+      default:
+        throw new Error(`Operation ${index + 1}: unknown operation ${(operation as { type: string }).type}`);
+    }
+  });
+
+  if (pages.length === 0) {
+    throw new Error("At least one page has to remain");
+  }
+  return pages;
+}
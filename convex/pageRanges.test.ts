@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { checkRange, formatPageSpan, parsePageRanges, resolvePageRanges, selectPages } from "./pageRanges";
+
+describe("parsePageRanges", () => {
+  it("reads single pages, closed ranges and open ends", () => {
+    expect(parsePageRanges("1-3, 5,8-")).toEqual([
+      { start: 1, end: 3 },
+      { start: 5, end: 5 },
+      { start: 8, end: null },
+    ]);
+  });
+
+  it("starts a range without a first page at page 1", () => {
+    expect(parsePageRanges("-4")).toEqual([{ start: 1, end: 4 }]);
+  });
+
+  it("allows spaces around the dash", () => {
+    expect(parsePageRanges(" 2 - 6 ")).toEqual([{ start: 2, end: 6 }]);
+  });
+
+  it.each([
+    ["", "Enter at least one page or page range"],
+    [" , ", "Enter at least one page or page range"],
+    ["1,,3", 'Invalid page range ""'],
+    ["-", 'Invalid page range "-"'],
+    ["a-3", 'Invalid page range "a-3"'],
+    ["1-2-3", 'Invalid page range "1-2-3"'],
+    ["1 2", 'Invalid page range "1 2"'],
+    ["0-2", 'Page numbers start at 1 in "0-2"'],
+    ["5-2", 'Range "5-2" ends before it starts'],
+  ])("rejects %j", (spec, message) => {
+    expect(() => parsePageRanges(spec)).toThrow(message);
+  });
+});
+
+describe("resolvePageRanges", () => {
+  it("turns ranges into zero-based indices and runs open ends to the last page", () => {
+    expect(resolvePageRanges(parsePageRanges("2-3,5-"), 6)).toEqual([[1, 2], [4, 5]]);
+  });
+
+  it("rejects pages past the end of the document", () => {
+    expect(() => resolvePageRanges(parsePageRanges("2-4"), 3)).toThrow(
+      "Page 4 is out of range, the document has 3 pages"
+    );
+    expect(() => resolvePageRanges(parsePageRanges("2"), 1)).toThrow(
+      "Page 2 is out of range, the document has 1 page"
+    );
+  });
+});
+
+describe("selectPages", () => {
+  it("keeps the order given and pages listed twice", () => {
+    expect(selectPages("4,1-2,2", 4)).toEqual([3, 0, 1, 1]);
+  });
+});
+
+describe("formatPageSpan", () => {
+  it("labels a run of indices with 1-based page numbers", () => {
+    expect(formatPageSpan([0, 1, 2])).toBe("1-3");
+    expect(formatPageSpan([4])).toBe("5");
+  });
+});
+
+describe("checkRange", () => {
+  it("returns values inside the range, ends included", () => {
+    expect(checkRange("margin", 0, 0, 144)).toBe(0);
+    expect(checkRange("margin", 144, 0, 144)).toBe(144);
+  });
+
+  it("rejects values outside the range and ones that are not numbers", () => {
+    expect(() => checkRange("margin", 145, 0, 144)).toThrow("The margin must be between 0 and 144");
+    expect(() => checkRange("margin", NaN, 0, 144)).toThrow("The margin must be between 0 and 144");
+  });
+
+  it("rejects fractions when a whole number is asked for", () => {
+    expect(() => checkRange("first Bates number", 1.5, 0, 10, true)).toThrow(
+      "The first Bates number must be a whole number between 0 and 10"
+    );
+  });
+});
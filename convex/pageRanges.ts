@@ -0,0 +1,76 @@
+// Page range syntax shared by the tools that work on a subset of pages and by
+// their uploaders, which validate the syntax before anything is uploaded.
+//
+//   "1-3,5,8-"  pages 1 to 3, page 5, and page 8 to the end
+//   "-4"        pages 1 to 4
+//
+// Pages are 1-based in the syntax and 0-based once resolved against a document.
+//
+// checkRange validates the numeric settings that come with those tools.
+
+export type PageRange = {
+  start: number;
+  // null means "to the last page"
+  end: number | null;
+};
+
+export function parsePageRanges(spec: string): PageRange[] {
+  const groups = spec.split(',').map((group) => group.trim());
+  if (groups.length === 0 || groups.every((group) => group === '')) {
+    throw new Error('Enter at least one page or page range');
+  }
+
+  return groups.map((group) => {
+    // Two numbers need a dash between them, "1 2" is not a range
+    const match = /^(\d*)\s*(-)?\s*(\d*)$/.exec(group);
+    const [, first, dash, last] = match ?? [];
+    if (!match || group === '' || group === '-' || (!dash && first && last)) {
+      throw new Error(`Invalid page range "${group}"`);
+    }
+
+    const start = first ? Number(first) : 1;
+    const end = dash ? (last ? Number(last) : null) : start;
+
+    if (start < 1 || (end !== null && end < 1)) {
+      throw new Error(`Page numbers start at 1 in "${group}"`);
+    }
+    if (end !== null && end < start) {
+      throw new Error(`Range "${group}" ends before it starts`);
+    }
+    return { start, end };
+  });
+}
+
+// Zero-based page indices for each range, checked against the page count
+export function resolvePageRanges(ranges: PageRange[], pageCount: number): number[][] {
+  return ranges.map(({ start, end }) => {
+    const last = end ?? pageCount;
+    if (start > pageCount || last > pageCount) {
+      throw new Error(
+        `Page ${Math.max(start, last)} is out of range, the document has ${pageCount} page${pageCount !== 1 ? 's' : ''}`
+      );
+    }
+    return Array.from({ length: last - start + 1 }, (_, i) => start - 1 + i);
+  });
+}
+
+// Zero-based indices of every selected page, in the order given
+export function selectPages(spec: string, pageCount: number): number[] {
+  return resolvePageRanges(parsePageRanges(spec), pageCount).flat();
+}
+
+// Compact label for a run of zero-based page indices, e.g. "1-3" or "5"
+export function formatPageSpan(pageIndices: number[]): string {
+  const first = pageIndices[0] + 1;
+  const last = pageIndices[pageIndices.length - 1] + 1;
+  return first === last ? `${first}` : `${first}-${last}`;
+}
+
+// Throws unless `value` lies between `min` and `max`, and is whole when
+// `integer` is set; `name` is the setting as the message should call it
+export function checkRange(name: string, value: number, min: number, max: number, integer = false): number {
+  if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new Error(`The ${name} must be ${integer ? 'a whole number ' : ''}between ${min} and ${max}`);
+  }
+  return value;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, degrees } from "pdf-lib";
+import { getDisplayedPage } from "./pageSpace";
+
+// A 200 × 100 pt crop box that does not start at the origin
+async function createPage(rotation: number) {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([300, 300]);
+  page.setCropBox(10, 20, 200, 100);
+  page.setRotation(degrees(rotation));
+  return page;
+}
+
+describe("getDisplayedPage", () => {
+  it.each([
+    // Rotation, displayed size, then where the displayed top left and
+    // bottom right corners are in page space
+    [0, [200, 100], [10, 120], [210, 20]],
+    [90, [100, 200], [10, 20], [210, 120]],
+    [180, [200, 100], [210, 20], [10, 120]],
+    [270, [100, 200], [210, 120], [10, 20]],
+    [-90, [100, 200], [210, 120], [10, 20]],
+  ])("maps the corners of a page turned by %i degrees", async (rotation, [width, height], topLeft, bottomRight) => {
+    const displayed = getDisplayedPage(await createPage(rotation));
+    expect([displayed.width, displayed.height]).toEqual([width, height]);
+    expect(displayed.toPageSpace(0, 0)).toEqual(topLeft);
+    expect(displayed.toPageSpace(displayed.width, displayed.height)).toEqual(bottomRight);
+  });
+
+  it("reports the turn to draw upright text with", async () => {
+    expect(getDisplayedPage(await createPage(-90)).rotation).toBe(270);
+    expect(getDisplayedPage(await createPage(450)).rotation).toBe(90);
+  });
+});
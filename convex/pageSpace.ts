@@ -0,0 +1,63 @@
+"use node";
+
+// Geometry for the tools that draw onto existing PDF pages (ocr,
+// pdf_watermark). They place things on the page as it is displayed, with
+// the origin at the top left of the crop box and y pointing down, and these
+// helpers turn that into pdf-lib's coordinates for the page's /Rotate.
+
+import { PDFArray, PDFDocument, PDFPage, popGraphicsState, pushGraphicsState } from 'pdf-lib';
+
+export type DisplayedPage = {
+  width: number;
+  height: number;
+  // Clockwise turn applied by viewers: 0, 90, 180 or 270 degrees. Text and
+  // images drawn upright on the displayed page are rotated by the same
+  // angle counterclockwise in page space.
+  rotation: number;
+  toPageSpace(x: number, y: number): [number, number];
+};
+
+export function getDisplayedPage(page: PDFPage): DisplayedPage {
+  const box = page.getCropBox();
+  const rotation = ((Math.round(page.getRotation().angle / 90) * 90 % 360) + 360) % 360;
+  const sideways = rotation === 90 || rotation === 270;
+
+  return {
+    width: sideways ? box.height : box.width,
+    height: sideways ? box.width : box.height,
+    rotation,
+    toPageSpace(x, y) {
+      switch (rotation) {
+        case 90:
+          return [box.x + y, box.y + x];
+        case 180:
+          return [box.x + box.width - x, box.y + y];
+        case 270:
+          return [box.x + box.width - y, box.y + box.height - x];
+        default:
+          return [box.x + x, box.y + box.height - y];
+      }
+    },
+  };
+}
+
+// Wraps the page's own content in q/Q before anything is drawn, so a
+// transformation or clip it leaves in effect does not apply to the drawing
+export function isolatePageContent(doc: PDFDocument, page: PDFPage) {
+  page.node.normalize();
+  const start = doc.context.register(doc.context.contentStream([pushGraphicsState()]));
+  const end = doc.context.register(doc.context.contentStream([popGraphicsState()]));
+  page.node.wrapContentStreams(start, end);
+}
+
+// pdf-lib appends everything drawn on a loaded page as one content stream
+// after the page's own; moving that stream to the front puts the drawing
+// underneath the page content
+export function moveDrawingBehindContent(page: PDFPage) {
+  const contents = page.node.Contents();
+  if (contents instanceof PDFArray && contents.size() > 1) {
+    const drawing = contents.get(contents.size() - 1);
+    contents.remove(contents.size() - 1);
+    contents.insert(0, drawing);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { PDFDict, PDFDocument, PDFName, PDFRawStream, PDFRef } from "pdf-lib";
+import { compressPdf } from "./pdfCompress";
+
+const SIDE = 400;
+
+// Noise deflates badly, so re-encoding it as a smaller JPEG always pays off
+function noise(length: number): Buffer {
+  const data = Buffer.alloc(length);
+  let seed = 1;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = seed >> 16;
+  }
+  return data;
+}
+
+function addImage(doc: PDFDocument, colorSpace: "DeviceRGB" | "DeviceGray", extra: Record<string, unknown> = {}): PDFRef {
+  const components = colorSpace === "DeviceRGB" ? 3 : 1;
+  const stream = doc.context.flateStream(noise(SIDE * SIDE * components), {
+    Type: "XObject",
+    Subtype: "Image",
+    Width: SIDE,
+    Height: SIDE,
+    ColorSpace: colorSpace,
+    BitsPerComponent: 8,
+    ...extra,
+  });
+  return doc.context.register(stream);
+}
+
+// A 72 pt page whose resources name each image, so none is unreachable
+async function createPdf(addImages: (doc: PDFDocument) => PDFRef[]): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([72, 72]);
+  addImages(doc).forEach((ref, index) => page.node.newXObject(`Im${index}`, ref));
+  return Buffer.from(await doc.save({ useObjectStreams: false }));
+}
+
+async function getImages(data: Buffer) {
+  const doc = await PDFDocument.load(data);
+  const xObjects = doc.getPage(0).node.Resources()!.lookup(PDFName.of("XObject"), PDFDict);
+  return xObjects.values().map((ref) => doc.context.lookup(ref) as PDFRawStream);
+}
+
+const filterOf = (image: PDFRawStream) => image.dict.get(PDFName.of("Filter"))?.toString();
+
+describe("compressPdf", () => {
+  it("downsamples images to the page size at the target DPI", async () => {
+    const pdf = await createPdf((doc) => [addImage(doc, "DeviceRGB")]);
+    const { data, imagesRecompressed } = await compressPdf(pdf, { preset: "screen" });
+    const [image] = await getImages(data);
+
+    expect(imagesRecompressed).toBe(1);
+    expect(filterOf(image)).toBe("/DCTDecode");
+    expect(image.dict.get(PDFName.of("Width"))?.toString()).toBe("72");
+    expect(data.length).toBeLessThan(pdf.length);
+  });
+
+  it("keeps grey images grey", async () => {
+    const pdf = await createPdf((doc) => [addImage(doc, "DeviceGray")]);
+    const [image] = await getImages((await compressPdf(pdf, { preset: "ebook" })).data);
+
+    expect(image.dict.get(PDFName.of("ColorSpace"))?.toString()).toBe("/DeviceGray");
+    expect((await sharp(Buffer.from(image.contents)).metadata()).channels).toBe(1);
+  });
+
+  it("keeps soft masks as they are", async () => {
+    const pdf = await createPdf((doc) => [addImage(doc, "DeviceRGB", { SMask: addImage(doc, "DeviceGray") })]);
+    const { data, imagesRecompressed } = await compressPdf(pdf, { preset: "screen" });
+    const doc = await PDFDocument.load(data);
+    const [image] = await getImages(data);
+    const softMask = doc.context.lookup(image.dict.get(PDFName.of("SMask"))) as PDFRawStream;
+
+    expect(imagesRecompressed).toBe(1);
+    expect(filterOf(softMask)).toBe("/FlateDecode");
+    expect(softMask.dict.get(PDFName.of("Width"))?.toString()).toBe(String(SIDE));
+  });
+
+  it.each([
+    [{ imageDpi: 20 }, "The image resolution must be between 36 and 600"],
+    [{ imageDpi: NaN }, "The image resolution must be between 36 and 600"],
+    [{ jpegQuality: 1.5 }, "The JPEG quality must be between 0.1 and 1"],
+  ])("rejects %j", async (settings, message) => {
+    const pdf = await createPdf(() => []);
+    await expect(compressPdf(pdf, { preset: "ebook", ...settings })).rejects.toThrow(message);
+  });
+
+  it("rejects a PDF without pages", async () => {
+    const doc = await PDFDocument.create();
+    const pdf = Buffer.from(await doc.save({ addDefaultPage: false }));
+    await expect(compressPdf(pdf, { preset: "ebook" })).rejects.toThrow("The PDF has no pages");
+  });
+});
@@ -0,0 +1,308 @@
+"use node";
+
+// Shrinks a PDF with pdf-lib and canvas: embedded images are decoded,
+// downsampled to the target DPI and re-encoded as JPEG, document metadata is
+// dropped, uncompressed streams are deflated and objects nothing refers to
+// any more are left out when the file is saved again.
+
+import { deflateSync } from 'zlib';
+import { createCanvas, loadImage } from 'canvas';
+import sharp from 'sharp';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import {
+  COMPRESSION_IMAGE_DPI,
+  COMPRESSION_JPEG_QUALITY,
+  COMPRESSION_PRESETS,
+  PdfCompressOptions,
+} from './converters';
+import { checkRange } from './pageRanges';
+
+export type CompressionResult = {
+  data: Buffer;
+  imagesRecompressed: number;
+  objectsRemoved: number;
+};
+
+// Filters pdf-lib can undo itself; images using anything else are left alone
+const DECODABLE_FILTERS = new Set(["FlateDecode", "LZWDecode", "ASCII85Decode", "ASCIIHexDecode", "RunLengthDecode"]);
+
+const name = (value: string) => PDFName.of(value);
+
+function getFilters(dict: PDFDict): string[] {
+  const filter = dict.lookup(name("Filter"));
+  if (filter instanceof PDFName) {
+    return [filter.decodeText()];
+  }
+  if (filter instanceof PDFArray) {
+    return filter.asArray().map((entry) => (entry instanceof PDFName ? entry.decodeText() : ""));
+  }
+  return [];
+}
+
+function getNumber(dict: PDFDict, key: string): number | undefined {
+  const value = dict.lookup(name(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+// Colour components of an image we know how to re-encode, or null for
+// CMYK, indexed, separation and other spaces the JPEG encoder cannot keep
+function getColorComponents(dict: PDFDict): 1 | 3 | null {
+  const colorSpace = dict.lookup(name("ColorSpace"));
+  if (colorSpace instanceof PDFName) {
+    const space = colorSpace.decodeText();
+    return space === "DeviceRGB" ? 3 : space === "DeviceGray" ? 1 : null;
+  }
+  if (colorSpace instanceof PDFArray && colorSpace.size() === 2) {
+    const family = colorSpace.lookup(0);
+    const profile = colorSpace.lookup(1);
+    if (family instanceof PDFName && family.decodeText() === "ICCBased" && profile instanceof PDFStream) {
+      const components = getNumber(profile.dict, "N");
+      return components === 3 || components === 1 ? components : null;
+    }
+  }
+  return null;
+}
+
+function isImage(stream: PDFRawStream): boolean {
+  const subtype = stream.dict.lookup(name("Subtype"));
+  return subtype instanceof PDFName && subtype.decodeText() === "Image";
+}
+
+// Images used as another image's /SMask or /Mask. Their samples are alpha
+// or stencil values, which JPEG artefacts would show through as fringes,
+// so they are kept as they are.
+function getMaskImageRefs(pdfDoc: PDFDocument): Set<string> {
+  const masks = new Set<string>();
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      for (const key of ["SMask", "Mask"]) {
+        const mask = object.dict.get(name(key));
+        if (mask instanceof PDFRef) masks.add(mask.tag);
+      }
+    }
+  }
+  return masks;
+}
+
+// Draws the image's pixels, scaled by `scale`, and encodes them as JPEG,
+// in colour or grey like the original. Returns null for images that cannot
+// be re-encoded without changing how they look: stencil masks, colour-key
+// masks, custom decode arrays and anything that is not 8-bit RGB or grey.
+async function reencodeImage(
+  stream: PDFRawStream,
+  maxSide: number,
+  jpegQuality: number
+): Promise<{ data: Buffer; width: number; height: number; components: 1 | 3 } | null> {
+  const { dict } = stream;
+  if (dict.lookup(name("ImageMask")) || dict.lookup(name("Mask")) instanceof PDFArray || dict.has(name("Decode"))) {
+    return null;
+  }
+
+  const width = getNumber(dict, "Width");
+  const height = getNumber(dict, "Height");
+  const components = getColorComponents(dict);
+  if (!width || !height || !components) {
+    return null;
+  }
+
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  const target = createCanvas(targetWidth, targetHeight);
+  const targetContext = target.getContext("2d");
+  targetContext.quality = "best";
+
+  const filters = getFilters(dict);
+  if (filters.length === 1 && filters[0] === "DCTDecode") {
+    const image = await loadImage(Buffer.from(stream.contents));
+    targetContext.drawImage(image, 0, 0, targetWidth, targetHeight);
+  } else if (filters.every((filter) => DECODABLE_FILTERS.has(filter))) {
+    // PNG-style predictors are not undone by pdf-lib's decoder
+    const params = dict.lookup(name("DecodeParms"));
+    if (getNumber(dict, "BitsPerComponent") !== 8 || (params instanceof PDFDict && (getNumber(params, "Predictor") ?? 1) > 1)) {
+      return null;
+    }
+    const pixels = decodePDFRawStream(stream).decode();
+    if (pixels.length < width * height * components) {
+      return null;
+    }
+
+    const source = createCanvas(width, height);
+    const sourceContext = source.getContext("2d");
+    const imageData = sourceContext.createImageData(width, height);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      const offset = pixel * components;
+      imageData.data[pixel * 4] = pixels[offset];
+      imageData.data[pixel * 4 + 1] = pixels[components === 3 ? offset + 1 : offset];
+      imageData.data[pixel * 4 + 2] = pixels[components === 3 ? offset + 2 : offset];
+      imageData.data[pixel * 4 + 3] = 255;
+    }
+    sourceContext.putImageData(imageData, 0, 0);
+    targetContext.drawImage(source, 0, 0, targetWidth, targetHeight);
+  } else {
+    return null;
+  }
+
+  if (components === 1) {
+    // canvas only writes colour JPEGs, so grey ones are encoded with sharp
+    // from one channel of the scaled pixels
+    const { data: rgba } = targetContext.getImageData(0, 0, targetWidth, targetHeight);
+    const grey = Buffer.alloc(targetWidth * targetHeight);
+    for (let pixel = 0; pixel < grey.length; pixel++) {
+      grey[pixel] = rgba[pixel * 4];
+    }
+    const data = await sharp(grey, { raw: { width: targetWidth, height: targetHeight, channels: 1 } })
+      .toColourspace("b-w")
+      .jpeg({ quality: Math.round(jpegQuality * 100) })
+      .toBuffer();
+    return { data, width: targetWidth, height: targetHeight, components };
+  }
+
+  return {
+    data: target.toBuffer("image/jpeg", { quality: jpegQuality }),
+    width: targetWidth,
+    height: targetHeight,
+    components,
+  };
+}
+
+// Metadata that viewers do not need: the document info dictionary, XMP
+// streams, application private data and embedded page thumbnails
+function stripMetadata(pdfDoc: PDFDocument) {
+  pdfDoc.context.trailerInfo.Info = undefined;
+  pdfDoc.catalog.delete(name("Metadata"));
+  pdfDoc.catalog.delete(name("PieceInfo"));
+  for (const page of pdfDoc.getPages()) {
+    page.node.delete(name("Metadata"));
+    page.node.delete(name("PieceInfo"));
+    page.node.delete(name("Thumb"));
+  }
+}
+
+// Deletes every indirect object that cannot be reached from the trailer,
+// e.g. leftovers of earlier incremental saves or the images replaced above
+function removeUnreachableObjects(pdfDoc: PDFDocument): number {
+  const { context } = pdfDoc;
+  const reachable = new Set<string>();
+  const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info, context.trailerInfo.Encrypt]
+    .filter((entry): entry is PDFObject => entry !== undefined);
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+    if (object instanceof PDFRef) {
+      if (!reachable.has(object.tag)) {
+        reachable.add(object.tag);
+        const target = context.lookup(object);
+        if (target) pending.push(target);
+      }
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref.tag)) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+export async function compressPdf(pdfBuffer: Buffer, options: PdfCompressOptions): Promise<CompressionResult> {
+  const preset = COMPRESSION_PRESETS[options.preset] ?? COMPRESSION_PRESETS.ebook;
+  const imageDpi = checkRange(
+    "image resolution",
+    options.imageDpi ?? preset.imageDpi,
+    COMPRESSION_IMAGE_DPI.min,
+    COMPRESSION_IMAGE_DPI.max
+  );
+  const jpegQuality = checkRange(
+    "JPEG quality",
+    options.jpegQuality ?? preset.jpegQuality,
+    COMPRESSION_JPEG_QUALITY.min,
+    COMPRESSION_JPEG_QUALITY.max
+  );
+
+  const pdfDoc = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true, updateMetadata: false });
+  if (pdfDoc.isEncrypted) {
+    throw new Error("The PDF is password protected, remove the password before compressing it");
+  }
+  // The image size limit below comes from the pages
+  if (pdfDoc.getPageCount() === 0) {
+    throw new Error("The PDF has no pages");
+  }
+  const { context } = pdfDoc;
+
+  // Where an image is drawn is not tracked, so no image is allowed more
+  // pixels than it would take to cover the largest page at the target DPI
+  const largestPageSide = Math.max(...pdfDoc.getPages().map((page) => Math.max(page.getWidth(), page.getHeight())));
+  const maxImageSide = Math.ceil((largestPageSide / 72) * imageDpi);
+
+  const masks = getMaskImageRefs(pdfDoc);
+  let imagesRecompressed = 0;
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) {
+      continue;
+    }
+
+    if (isImage(object)) {
+      if (masks.has(ref.tag)) {
+        continue;
+      }
+      let image: Awaited<ReturnType<typeof reencodeImage>> = null;
+      try {
+        image = await reencodeImage(object, maxImageSide, jpegQuality);
+      } catch (error) {
+        console.warn(`Keeping image ${ref.tag} as it is:`, error instanceof Error ? error.message : error);
+      }
+      if (image && image.data.length < object.contents.length) {
+        const dict = object.dict.clone(context);
+        for (const key of ["DecodeParms", "Metadata", "Length"]) {
+          dict.delete(name(key));
+        }
+        dict.set(name("Filter"), name("DCTDecode"));
+        dict.set(name("ColorSpace"), name(image.components === 1 ? "DeviceGray" : "DeviceRGB"));
+        dict.set(name("BitsPerComponent"), PDFNumber.of(8));
+        dict.set(name("Width"), PDFNumber.of(image.width));
+        dict.set(name("Height"), PDFNumber.of(image.height));
+        context.assign(ref, PDFRawStream.of(dict, image.data));
+        imagesRecompressed++;
+      }
+    } else if (!object.dict.has(name("Filter"))) {
+      const deflated = deflateSync(object.contents);
+      if (deflated.length < object.contents.length) {
+        const dict = object.dict.clone(context);
+        dict.set(name("Filter"), name("FlateDecode"));
+        context.assign(ref, PDFRawStream.of(dict, deflated));
+      }
+    }
+  }
+
+  stripMetadata(pdfDoc);
+  const objectsRemoved = removeUnreachableObjects(pdfDoc);
+  console.log(`Re-encoded ${imagesRecompressed} images at ${imageDpi} DPI, removed ${objectsRemoved} unused objects`);
+
+  const data = Buffer.from(await pdfDoc.save({
+    useObjectStreams: true,
+    addDefaultPage: false,
+    updateFieldAppearances: false,
+  }));
+  return { data, imagesRecompressed, objectsRemoved };
+}
@@ -0,0 +1,54 @@
+"use node";
+
+// Page-level edits with pdf-lib: the page organizer's operation list and the
+// per-source page selection of the merger. Pages are copied rather than
+// re-rendered, and rotation is added to whatever /Rotate the page already
+// had, so a page that was stored sideways stays consistent.
+
+import { PDFDocument, PDFPage, degrees } from 'pdf-lib';
+import { PageOperation, PageRotation, applyPageOperations } from './pageOperations';
+import { selectPages } from './pageRanges';
+
+function rotatePage(page: PDFPage, rotation: PageRotation) {
+  if (rotation !== 0) {
+    page.setRotation(degrees((page.getRotation().angle + rotation) % 360));
+  }
+}
+
+export async function organizePdf(pdfBuffer: Buffer, operations: PageOperation[]): Promise<Buffer> {
+  const source = await PDFDocument.load(pdfBuffer);
+  const layout = applyPageOperations(source.getPageCount(), operations);
+  console.log(`Organizing ${source.getPageCount()} pages into ${layout.length} with ${operations.length} operations`);
+
+  const result = await PDFDocument.create();
+  const pages = await result.copyPages(source, layout.map(({ page }) => page - 1));
+
+  pages.forEach((page, index) => {
+    rotatePage(page, layout[index].rotation);
+    result.addPage(page);
+  });
+
+  return Buffer.from(await result.save());
+}
+
+// A copy of the PDF with only the given pages ("2-4", "1,3-"), each turned by
+// `rotation`; all pages are kept when no range is given
+export async function selectPdfPages(
+  pdfBuffer: Buffer,
+  pageSpec: string | undefined,
+  rotation: PageRotation = 0
+): Promise<Buffer> {
+  const source = await PDFDocument.load(pdfBuffer);
+  const indices = pageSpec?.trim()
+    ? selectPages(pageSpec, source.getPageCount())
+    : source.getPageIndices();
+
+  const result = await PDFDocument.create();
+  const pages = await result.copyPages(source, indices);
+  pages.forEach((page) => {
+    rotatePage(page, rotation);
+    result.addPage(page);
+  });
+
+  return Buffer.from(await result.save());
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { MergedSource, OutlineNode, addMergeNavigation, readPdfOutline, remapOutline } from "./pdfOutline";
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    doc.addPage([300, 400]);
+  }
+  return Buffer.from(await doc.save());
+}
+
+function node(title: string, pageIndex: number | null, children: OutlineNode[] = []): OutlineNode {
+  return { title, pageIndex, children };
+}
+
+describe("remapOutline", () => {
+  it("moves entries to their new pages and lifts the children of dropped ones", () => {
+    const outline = [
+      node("Intro", 0),
+      node("Part 1", 1, [node("Section 1.1", 2)]),
+      node("Appendix", null, [node("Tables", 3)]),
+    ];
+    const pageMap = new Map([[0, 2], [2, 0], [3, 1]]);
+    expect(remapOutline(outline, pageMap)).toEqual([
+      node("Intro", 2),
+      node("Section 1.1", 0),
+      node("Tables", 1),
+    ]);
+  });
+});
+
+describe("addMergeNavigation", () => {
+  const sources: MergedSource[] = [
+    { title: "Report", pageCount: 2, outline: [node("Summary", 1)] },
+    { title: "Empty", pageCount: 0, outline: [] },
+    { title: "Slides", pageCount: 1, outline: [] },
+  ];
+
+  it("adds a bookmark per source with its own bookmarks nested beneath", async () => {
+    const merged = await addMergeNavigation(await createPdf(3), sources, { outline: true });
+    expect(readPdfOutline(await PDFDocument.load(merged))).toEqual([
+      node("Report", 0, [node("Summary", 1)]),
+      node("Slides", 2),
+    ]);
+  });
+
+  it("points the bookmarks past a table of contents", async () => {
+    const merged = await addMergeNavigation(await createPdf(3), sources, { outline: true, tableOfContents: true });
+    const doc = await PDFDocument.load(merged);
+    expect(doc.getPageCount()).toBe(4);
+    expect(readPdfOutline(doc)).toEqual([
+      node("Report", 1, [node("Summary", 2)]),
+      node("Slides", 3),
+    ]);
+  });
+
+  it("throws when the page counts do not add up", async () => {
+    await expect(addMergeNavigation(await createPdf(2), sources, { outline: true }))
+      .rejects.toThrow("The merged PDF has 2 pages, but its sources add up to 3");
+  });
+});
@@ -0,0 +1,335 @@
+"use node";
+
+// Navigation for merged PDFs: reads the outline (bookmarks) of a source PDF,
+// writes a new outline into the merged document and can put a generated
+// table of contents in front of it. Works on the pdf-lib object model
+// directly because pdf-lib has no outline API.
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  rgb,
+} from 'pdf-lib';
+import { toWinAnsi } from './imageLayout';
+import { selectPages } from './pageRanges';
+
+export type OutlineNode = {
+  title: string;
+  // Zero-based page the entry jumps to, or null when it points nowhere usable
+  pageIndex: number | null;
+  children: OutlineNode[];
+};
+
+// One source of a merge as it ended up in the merged document
+export type MergedSource = {
+  title: string;
+  pageCount: number;
+  // The source's own outline, with page indices relative to its first page
+  outline: OutlineNode[];
+};
+
+const A4: [number, number] = [595.28, 841.89];
+const TOC_MARGIN = 56;
+const TOC_LINE_HEIGHT = 22;
+
+// Deeply nested or cyclic outlines are cut off rather than followed forever
+const MAX_OUTLINE_DEPTH = 8;
+
+function decodeText(value: PDFObject | undefined): string {
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : '';
+}
+
+// Looks a named destination up in the catalog's /Dests dictionary or the
+// /Names /Dests name tree
+function lookupNamedDestination(doc: PDFDocument, name: PDFObject): PDFObject | undefined {
+  if (name instanceof PDFName) {
+    return doc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)?.lookup(name);
+  }
+
+  const key = decodeText(name);
+  const names = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const visit = (node: PDFDict | undefined, depth: number): PDFObject | undefined => {
+    if (!node || depth > MAX_OUTLINE_DEPTH) return undefined;
+    const leaves = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    if (leaves) {
+      for (let i = 0; i + 1 < leaves.size(); i += 2) {
+        if (decodeText(leaves.lookup(i)) === key) return leaves.lookup(i + 1);
+      }
+    }
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    for (let i = 0; kids && i < kids.size(); i++) {
+      const found = visit(kids.lookupMaybe(i, PDFDict), depth + 1);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return visit(names?.lookupMaybe(PDFName.of('Dests'), PDFDict), 0);
+}
+
+function resolveDestinationPage(doc: PDFDocument, item: PDFDict, pageRefs: Map<string, number>): number | null {
+  let destination = item.lookup(PDFName.of('Dest'));
+  if (!destination) {
+    const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+    if (action?.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+      destination = action.lookup(PDFName.of('D'));
+    }
+  }
+  if (destination && !(destination instanceof PDFArray)) {
+    destination = lookupNamedDestination(doc, destination);
+  }
+  if (destination instanceof PDFDict) {
+    destination = destination.lookup(PDFName.of('D'));
+  }
+  if (!(destination instanceof PDFArray) || destination.size() === 0) {
+    return null;
+  }
+
+  const page = destination.get(0);
+  return page instanceof PDFRef ? pageRefs.get(page.toString()) ?? null : null;
+}
+
+export function readPdfOutline(doc: PDFDocument): OutlineNode[] {
+  const pageRefs = new Map(doc.getPages().map((page, index) => [page.ref.toString(), index]));
+  const seen = new Set<PDFDict>();
+
+  const readLevel = (first: PDFDict | undefined, depth: number): OutlineNode[] => {
+    const nodes: OutlineNode[] = [];
+    for (let item = first; item && !seen.has(item) && depth < MAX_OUTLINE_DEPTH;
+         item = item.lookupMaybe(PDFName.of('Next'), PDFDict)) {
+      seen.add(item);
+      nodes.push({
+        title: decodeText(item.lookup(PDFName.of('Title'))) || 'Untitled',
+        pageIndex: resolveDestinationPage(doc, item, pageRefs),
+        children: readLevel(item.lookupMaybe(PDFName.of('First'), PDFDict), depth + 1),
+      });
+    }
+    return nodes;
+  };
+
+  const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  return readLevel(outlines?.lookupMaybe(PDFName.of('First'), PDFDict), 0);
+}
+
+// Re-targets outline entries after pages were selected or reordered;
+// `pageMap` maps old page indices to new ones. Entries whose page is gone
+// are dropped, but their children are kept in their place.
+export function remapOutline(nodes: OutlineNode[], pageMap: Map<number, number>): OutlineNode[] {
+  return nodes.flatMap((node) => {
+    const children = remapOutline(node.children, pageMap);
+    const pageIndex = node.pageIndex === null ? null : pageMap.get(node.pageIndex) ?? null;
+    if (pageIndex === null) {
+      return children;
+    }
+    return [{ ...node, pageIndex, children }];
+  });
+}
+
+function shiftOutline(nodes: OutlineNode[], offset: number): OutlineNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    pageIndex: node.pageIndex === null ? null : node.pageIndex + offset,
+    children: shiftOutline(node.children, offset),
+  }));
+}
+
+function writePdfOutline(doc: PDFDocument, nodes: OutlineNode[]) {
+  const pages = doc.getPages();
+  const outlinesRef = doc.context.nextRef();
+
+  // Returns the refs of the written items; every item starts collapsed
+  const writeLevel = (levelNodes: OutlineNode[], parentRef: PDFRef): PDFRef[] => {
+    const refs = levelNodes.map(() => doc.context.nextRef());
+    levelNodes.forEach((node, index) => {
+      const childRefs = writeLevel(node.children, refs[index]);
+      const page = node.pageIndex !== null ? pages[node.pageIndex] : undefined;
+
+      const item = doc.context.obj({});
+      item.set(PDFName.of('Title'), PDFHexString.fromText(node.title));
+      item.set(PDFName.of('Parent'), parentRef);
+      if (page) {
+        item.set(PDFName.of('Dest'), doc.context.obj([page.ref, PDFName.of('Fit')]));
+      }
+      if (index > 0) item.set(PDFName.of('Prev'), refs[index - 1]);
+      if (index < refs.length - 1) item.set(PDFName.of('Next'), refs[index + 1]);
+      if (childRefs.length > 0) {
+        item.set(PDFName.of('First'), childRefs[0]);
+        item.set(PDFName.of('Last'), childRefs[childRefs.length - 1]);
+        // A negative count marks the entry as collapsed
+        item.set(PDFName.of('Count'), PDFNumber.of(-childRefs.length));
+      }
+      doc.context.assign(refs[index], item);
+    });
+    return refs;
+  };
+
+  const topRefs = writeLevel(nodes, outlinesRef);
+  const outlines = doc.context.obj({ Type: 'Outlines' });
+  if (topRefs.length > 0) {
+    outlines.set(PDFName.of('First'), topRefs[0]);
+    outlines.set(PDFName.of('Last'), topRefs[topRefs.length - 1]);
+    outlines.set(PDFName.of('Count'), PDFNumber.of(topRefs.length));
+  }
+  doc.context.assign(outlinesRef, outlines);
+
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+function truncateToWidth(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let truncated = text;
+  while (truncated.length > 1 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}...`;
+}
+
+// Inserts table-of-contents pages at the front, one clickable line per entry;
+// returns how many pages were inserted. Entry page indices refer to the
+// document before insertion.
+async function insertTableOfContents(
+  doc: PDFDocument,
+  entries: { title: string; pageIndex: number }[]
+): Promise<number> {
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await doc.embedFont(StandardFonts.HelveticaBold);
+  const [width, height] = A4;
+  const fontSize = 12;
+
+  const firstPageLines = Math.floor((height - 2 * TOC_MARGIN - 48) / TOC_LINE_HEIGHT);
+  const otherPageLines = Math.floor((height - 2 * TOC_MARGIN) / TOC_LINE_HEIGHT);
+  const tocPageCount = entries.length <= firstPageLines
+    ? 1
+    : 1 + Math.ceil((entries.length - firstPageLines) / otherPageLines);
+
+  // Content pages keep their refs when pages are inserted in front of them
+  const targets = doc.getPages();
+  const tocPages = Array.from({ length: tocPageCount }, (_, i) => doc.insertPage(i, A4));
+
+  tocPages[0].drawText('Contents', {
+    x: TOC_MARGIN,
+    y: height - TOC_MARGIN - 20,
+    size: 20,
+    font: boldFont,
+    color: rgb(0, 0, 0),
+  });
+
+  entries.forEach((entry, index) => {
+    const pageIndex = index < firstPageLines ? 0 : 1 + Math.floor((index - firstPageLines) / otherPageLines);
+    const line = index < firstPageLines ? index : (index - firstPageLines) % otherPageLines;
+    const page = tocPages[pageIndex];
+    const top = pageIndex === 0 ? height - TOC_MARGIN - 48 : height - TOC_MARGIN;
+    const y = top - (line + 1) * TOC_LINE_HEIGHT;
+
+    const pageLabel = String(entry.pageIndex + tocPageCount + 1);
+    const labelWidth = font.widthOfTextAtSize(pageLabel, fontSize);
+    const title = truncateToWidth(toWinAnsi(entry.title), font, fontSize, width - 2 * TOC_MARGIN - labelWidth - 40);
+    const titleWidth = font.widthOfTextAtSize(title, fontSize);
+
+    page.drawText(title, { x: TOC_MARGIN, y, size: fontSize, font, color: rgb(0.1, 0.1, 0.1) });
+    page.drawText(pageLabel, { x: width - TOC_MARGIN - labelWidth, y, size: fontSize, font, color: rgb(0.1, 0.1, 0.1) });
+
+    // Dotted leader between the title and the page number
+    const dotWidth = font.widthOfTextAtSize('.', fontSize);
+    const leaderStart = TOC_MARGIN + titleWidth + 8;
+    const leaderEnd = width - TOC_MARGIN - labelWidth - 8;
+    if (leaderEnd > leaderStart) {
+      page.drawText('.'.repeat(Math.floor((leaderEnd - leaderStart) / dotWidth)), {
+        x: leaderStart,
+        y,
+        size: fontSize,
+        font,
+        color: rgb(0.6, 0.6, 0.6),
+      });
+    }
+
+    // Make the whole line a link to the entry's first page
+    const link = doc.context.register(doc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [TOC_MARGIN, y - 4, width - TOC_MARGIN, y + fontSize],
+      Border: [0, 0, 0],
+      Dest: [targets[entry.pageIndex].ref, 'Fit'],
+    }));
+    page.node.addAnnot(link);
+  });
+
+  return tocPageCount;
+}
+
+// Page count and (optionally) outline of a source as it will appear in the
+// merge, after its page selection is applied
+export async function describeMergeSource(
+  pdfBuffer: Buffer,
+  title: string,
+  pageSpec: string | undefined,
+  includeOutline: boolean
+): Promise<MergedSource> {
+  const doc = await PDFDocument.load(pdfBuffer);
+  const pageIndices = pageSpec?.trim()
+    ? selectPages(pageSpec, doc.getPageCount())
+    : doc.getPageIndices();
+
+  // A page picked twice keeps the bookmark at its first position
+  const pageMap = new Map<number, number>();
+  pageIndices.forEach((original, position) => {
+    if (!pageMap.has(original)) pageMap.set(original, position);
+  });
+
+  return {
+    title,
+    pageCount: pageIndices.length,
+    outline: includeOutline ? remapOutline(readPdfOutline(doc), pageMap) : [],
+  };
+}
+
+// Adds one top-level bookmark per source (with the source's own bookmarks
+// nested beneath it when given) and/or a table of contents. The
+// merged document must hold the sources' pages back to back; if the page
+// counts do not add up, this throws rather than point bookmarks at the
+// wrong pages.
+export async function addMergeNavigation(
+  mergedPdf: Buffer,
+  sources: MergedSource[],
+  options: { outline?: boolean; tableOfContents?: boolean }
+): Promise<Buffer> {
+  const doc = await PDFDocument.load(mergedPdf);
+  const expectedPages = sources.reduce((total, source) => total + source.pageCount, 0);
+  if (doc.getPageCount() !== expectedPages) {
+    throw new Error(`The merged PDF has ${doc.getPageCount()} pages, but its sources add up to ${expectedPages}`);
+  }
+
+  const starts: number[] = [];
+  sources.reduce((start, source) => {
+    starts.push(start);
+    return start + source.pageCount;
+  }, 0);
+
+  // Sources that ended up with no pages get no entry
+  const entries = sources
+    .map((source, index) => ({ source, pageIndex: starts[index] }))
+    .filter(({ source }) => source.pageCount > 0);
+
+  const offset = options.tableOfContents
+    ? await insertTableOfContents(doc, entries.map(({ source, pageIndex }) => ({ title: source.title, pageIndex })))
+    : 0;
+
+  if (options.outline !== false) {
+    writePdfOutline(doc, entries.map(({ source, pageIndex }) => ({
+      title: source.title,
+      pageIndex: pageIndex + offset,
+      children: shiftOutline(source.outline, pageIndex + offset),
+    })));
+  }
+
+  return Buffer.from(await doc.save());
+}
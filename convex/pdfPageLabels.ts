@@ -0,0 +1,50 @@
+"use node";
+
+// Draws the image_to_pdf header/footer, and the captions of grid layouts,
+// onto a finished PDF with pdf-lib, so the text is the same whichever
+// provider laid out the images.
+
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { ImageLayout, PageLabels, getGridCaptionTexts, getPageLabelTexts } from './imageLayout';
+
+export async function addPageLabels(
+  pdf: Buffer | ArrayBuffer,
+  layout: ImageLayout,
+  labels: PageLabels,
+  fileNames: string[] = []
+): Promise<Buffer> {
+  if (!labels.pageNumberFormat.trim() && !labels.caption && !layout.grid?.captions) {
+    return Buffer.from(pdf);
+  }
+
+  const doc = await PDFDocument.load(pdf);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const pages = doc.getPages();
+
+  pages.forEach((page, index) => {
+    const { width, height } = page.getSize();
+    // Pages of a grid hold several images, which are captioned one by one
+    const texts = layout.grid
+      ? [
+        ...getPageLabelTexts(width, height, layout.margin, labels, index + 1, pages.length),
+        ...getGridCaptionTexts(layout, index, fileNames),
+      ]
+      : getPageLabelTexts(width, height, layout.margin, labels, index + 1, pages.length, fileNames[index]);
+    for (const label of texts) {
+      const textWidth = font.widthOfTextAtSize(label.text, label.fontSize);
+      const x = label.align === "center" ? label.x - textWidth / 2
+        : label.align === "right" ? label.x - textWidth
+        : label.x;
+      // pdf-lib measures y from the bottom of the page
+      page.drawText(label.text, {
+        x,
+        y: height - label.baseline,
+        size: label.fontSize,
+        font,
+        color: rgb(0.6, 0.6, 0.6),
+      });
+    }
+  });
+
+  return Buffer.from(await doc.save());
+}
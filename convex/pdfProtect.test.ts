@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { protectPdf } from "./pdfProtect";
+
+// pdf.js has its own implementation of the AES-256 security handler, so
+// opening the output with it checks the key derivation end to end
+async function open(data: Buffer, password?: string) {
+  return await pdfjs.getDocument({ data: new Uint8Array(data), password, isEvalSupported: false }).promise;
+}
+
+async function createPdf(): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  doc.setTitle("Quarterly figures");
+  const page = doc.addPage([300, 200]);
+  page.drawText("Strictly confidential", { x: 20, y: 100, size: 12, font: await doc.embedFont(StandardFonts.Helvetica) });
+  return Buffer.from(await doc.save());
+}
+
+async function readText(data: Buffer, password?: string): Promise<string> {
+  const pdf = await open(data, password);
+  const content = await (await pdf.getPage(1)).getTextContent();
+  await pdf.destroy();
+  return content.items.map((item) => ("str" in item ? item.str : "")).join("");
+}
+
+describe("protectPdf", () => {
+  it("encrypts the document for the user and owner passwords", async () => {
+    const protectedPdf = await protectPdf(await createPdf(), { userPassword: "open sesame", ownerPassword: "owner" });
+
+    expect(protectedPdf.toString("latin1")).not.toContain("Strictly confidential");
+    expect(await readText(protectedPdf, "open sesame")).toBe("Strictly confidential");
+    expect(await readText(protectedPdf, "owner")).toBe("Strictly confidential");
+
+    const pdf = await open(protectedPdf, "open sesame");
+    const { info } = await pdf.getMetadata();
+    expect((info as { Title?: string }).Title).toBe("Quarterly figures");
+    await pdf.destroy();
+  });
+
+  it("refuses to open without the right password", async () => {
+    const protectedPdf = await protectPdf(await createPdf(), { userPassword: "open sesame" });
+    await expect(open(protectedPdf)).rejects.toMatchObject({ name: "PasswordException" });
+    await expect(open(protectedPdf, "open says me")).rejects.toMatchObject({ name: "PasswordException" });
+  });
+
+  it("stores passwords in NFKC form", async () => {
+    // A decomposed "ä" opens with the precomposed one other systems type
+    const protectedPdf = await protectPdf(await createPdf(), { userPassword: "Pa\u0308ss" });
+    expect(await readText(protectedPdf, "P\u00e4ss")).toBe("Strictly confidential");
+  });
+
+  it("grants only the listed permissions", async () => {
+    const protectedPdf = await protectPdf(await createPdf(), { ownerPassword: "owner", permissions: ["print", "copy"] });
+    // Without a user password anyone can open it, within the permissions
+    const pdf = await open(protectedPdf);
+    const { PermissionFlag } = pdfjs;
+    expect((await pdf.getPermissions())?.sort((a, b) => a - b)).toEqual([
+      PermissionFlag.PRINT,
+      PermissionFlag.COPY,
+      PermissionFlag.COPY_FOR_ACCESSIBILITY,
+      PermissionFlag.PRINT_HIGH_QUALITY,
+    ]);
+    await pdf.destroy();
+  });
+
+  it("rejects invalid options and encrypted input", async () => {
+    const pdf = await createPdf();
+    await expect(protectPdf(pdf, {})).rejects.toThrow("Enter a password");
+    await expect(protectPdf(pdf, { userPassword: "same", ownerPassword: "same" })).rejects.toThrow("must be different");
+
+    const protectedPdf = await protectPdf(pdf, { userPassword: "open sesame" });
+    await expect(protectPdf(protectedPdf, { userPassword: "again" })).rejects.toThrow("already password protected");
+  });
+});
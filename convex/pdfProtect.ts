@@ -0,0 +1,196 @@
+"use node";
+
+// Encrypts a PDF with the standard security handler, revision 6 (AES-256,
+// ISO 32000-2), which Acrobat X and later, pdf.js and qpdf can all open.
+// pdf-lib cannot write encrypted files, so every string and stream is
+// encrypted here with Node's crypto and the /Encrypt dictionary added before
+// pdf-lib saves the document.
+
+import { createCipheriv, createHash, randomBytes } from 'crypto';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import { PDF_PERMISSIONS, PdfPermission, PdfProtectOptions, getProtectOptionsError } from './converters';
+
+// Permission bits of /P, numbered from 1 as in the specification. Bits 7, 8
+// and 13-32 are reserved and must be set; bit 10 (extraction for
+// accessibility) is always granted, as PDF 2.0 requires.
+const RESERVED_PERMISSION_BITS = 0xFFFFF0C0;
+const ACCESSIBILITY_BIT = 1 << 9;
+const PERMISSION_BITS: Record<PdfPermission, number> = {
+  // Print, and print at full quality
+  print: (1 << 2) | (1 << 11),
+  // Modify, and insert, rotate or delete pages
+  modify: (1 << 3) | (1 << 10),
+  copy: 1 << 4,
+  // Annotate, and fill in forms
+  annotate: (1 << 5) | (1 << 8),
+};
+
+function aes(algorithm: string, key: Buffer, iv: Buffer | null, data: Buffer, padding: boolean): Buffer {
+  const cipher = createCipheriv(algorithm, key, iv);
+  cipher.setAutoPadding(padding);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+// Algorithm 2.B: the hash that stretches a password into a key or check value
+function hashPassword(password: Buffer, salt: Buffer, userKey: Buffer): Buffer {
+  let key = createHash('sha256').update(Buffer.concat([password, salt, userKey])).digest();
+  let encrypted = Buffer.alloc(0);
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round++) {
+    const block = Buffer.concat([password, key, userKey]);
+    encrypted = aes('aes-128-cbc', key.subarray(0, 16), key.subarray(16, 32), Buffer.concat(Array(64).fill(block)), false);
+    // The first 16 bytes as a big-endian number modulo 3, which is the sum of the bytes modulo 3
+    const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    key = createHash(['sha256', 'sha384', 'sha512'][remainder]).update(encrypted).digest();
+  }
+  return key.subarray(0, 32);
+}
+
+// UTF-8 bytes of a password. SASLprep is approximated by NFKC, which covers
+// the differences that matter for passwords typed on different systems.
+function passwordBytes(password: string): Buffer {
+  return Buffer.from(password.normalize('NFKC'), 'utf8').subarray(0, 127);
+}
+
+// The /U and /UE or /O and /OE entries for one password. The owner entries
+// are tied to the user entry through `userKey`.
+function createPasswordEntries(password: Buffer, fileKey: Buffer, userKey = Buffer.alloc(0)) {
+  const validationSalt = randomBytes(8);
+  const keySalt = randomBytes(8);
+  const check = Buffer.concat([hashPassword(password, validationSalt, userKey), validationSalt, keySalt]);
+  const intermediateKey = hashPassword(password, keySalt, userKey);
+  const encryptedKey = aes('aes-256-cbc', intermediateKey, Buffer.alloc(16), fileKey, false);
+  return { check, encryptedKey };
+}
+
+function getPermissionFlags(permissions: PdfPermission[]): number {
+  const flags = permissions.reduce((bits, permission) => bits | PERMISSION_BITS[permission], RESERVED_PERMISSION_BITS | ACCESSIBILITY_BIT);
+  // /P is a signed 32-bit integer
+  return flags | 0;
+}
+
+// Strings and streams are encrypted with AES-256 in CBC mode, with a random
+// IV written in front of the data
+function encryptData(fileKey: Buffer, data: Uint8Array): Buffer {
+  const iv = randomBytes(16);
+  return Buffer.concat([iv, aes('aes-256-cbc', fileKey, iv, Buffer.from(data), true)]);
+}
+
+function encryptValue(value: PDFObject, fileKey: Buffer, visited: Set<PDFObject>): PDFObject {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    return PDFHexString.of(encryptData(fileKey, value.asBytes()).toString('hex'));
+  }
+  if (value instanceof PDFDict || value instanceof PDFArray) {
+    encryptStrings(value, fileKey, visited);
+  }
+  return value;
+}
+
+// Replaces the strings inside a dictionary or array, however deeply nested.
+// Containers shared by several objects are only encrypted once.
+function encryptStrings(container: PDFDict | PDFArray, fileKey: Buffer, visited: Set<PDFObject>) {
+  if (visited.has(container)) {
+    return;
+  }
+  visited.add(container);
+  if (container instanceof PDFArray) {
+    for (let index = 0; index < container.size(); index++) {
+      container.set(index, encryptValue(container.get(index), fileKey, visited));
+    }
+  } else {
+    for (const [key, value] of container.entries()) {
+      container.set(key, encryptValue(value, fileKey, visited));
+    }
+  }
+}
+
+export async function protectPdf(pdf: Buffer | ArrayBuffer | Uint8Array, options: PdfProtectOptions): Promise<Buffer> {
+  const error = getProtectOptionsError(options);
+  if (error) {
+    throw new Error(error);
+  }
+  const permissions = [...new Set(options.permissions ?? [])].filter((permission) => permission in PDF_PERMISSIONS);
+
+  const doc = await PDFDocument.load(pdf, { ignoreEncryption: true });
+  if (doc.isEncrypted) {
+    throw new Error("The PDF is already password protected, remove the password before protecting it again");
+  }
+  const { context } = doc;
+
+  const fileKey = randomBytes(32);
+  const userPassword = passwordBytes(options.userPassword ?? "");
+  // Without an owner password nobody can lift the restrictions
+  const ownerPassword = options.ownerPassword ? passwordBytes(options.ownerPassword) : randomBytes(32);
+  const user = createPasswordEntries(userPassword, fileKey);
+  const owner = createPasswordEntries(ownerPassword, fileKey, user.check);
+  const flags = getPermissionFlags(permissions);
+
+  // /Perms repeats the flags, encrypted with the file key, so they cannot be
+  // changed without it. "T" says the metadata is encrypted too.
+  const perms = Buffer.alloc(16);
+  perms.writeInt32LE(flags, 0);
+  perms.fill(0xff, 4, 8);
+  perms.write('Tadb', 8, 'latin1');
+  randomBytes(4).copy(perms, 12);
+
+  const visited = new Set<PDFObject>();
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      // Streams pdf-lib created itself are encoded on demand; take the bytes
+      // it would write and store them encrypted instead
+      encryptStrings(object.dict, fileKey, visited);
+      context.assign(ref, PDFRawStream.of(object.dict, encryptData(fileKey, object.getContents())));
+    } else if (object instanceof PDFDict || object instanceof PDFArray) {
+      encryptStrings(object, fileKey, visited);
+    } else {
+      context.assign(ref, encryptValue(object, fileKey, visited));
+    }
+  }
+
+  const hex = (bytes: Buffer) => PDFHexString.of(bytes.toString('hex'));
+  const encrypt = context.obj({
+    Filter: 'Standard',
+    V: 5,
+    R: 6,
+    Length: 256,
+    CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    P: flags,
+    EncryptMetadata: true,
+  });
+  encrypt.set(PDFName.of('O'), hex(owner.check));
+  encrypt.set(PDFName.of('OE'), hex(owner.encryptedKey));
+  encrypt.set(PDFName.of('U'), hex(user.check));
+  encrypt.set(PDFName.of('UE'), hex(user.encryptedKey));
+  encrypt.set(PDFName.of('Perms'), hex(aes('aes-256-ecb', fileKey, null, perms, false)));
+  context.trailerInfo.Encrypt = context.register(encrypt);
+
+  // The file identifier is required with encryption and stays unencrypted
+  if (!(context.trailerInfo.ID instanceof PDFArray)) {
+    const id = hex(randomBytes(16));
+    context.trailerInfo.ID = context.obj([id, id]);
+  }
+
+  // AES-256 needs PDF 1.7 with Adobe's extension level 8, or PDF 2.0
+  context.header = PDFHeader.forVersion(1, 7);
+  doc.catalog.set(PDFName.of('Extensions'), context.obj({
+    ADBE: { BaseVersion: PDFName.of('1.7'), ExtensionLevel: PDFNumber.of(8) },
+  }));
+
+  // Object streams and regenerated form appearances would be written
+  // unencrypted, so neither is used
+  const bytes = await doc.save({ useObjectStreams: false, updateFieldAppearances: false, addDefaultPage: false });
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,33 @@
+"use node";
+
+// Checks whether an uploaded PDF can be used as an input before a converter
+// commits to it, so unreadable files are reported instead of disappearing.
+
+import { PDFDocument } from 'pdf-lib';
+import { SourceResult } from './schema';
+
+export type SourceCheck = Pick<SourceResult, "status" | "error">;
+
+export async function inspectPdfSource(pdfBuffer: Buffer): Promise<SourceCheck> {
+  if (pdfBuffer.length === 0) {
+    return { status: "empty", error: "The file is empty" };
+  }
+
+  try {
+    // pdf-lib's EncryptedPDFError does not survive instanceof, so load
+    // regardless and ask the document instead
+    const doc = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+    if (doc.isEncrypted) {
+      return { status: "encrypted", error: "The PDF is password protected" };
+    }
+    if (doc.getPageCount() === 0) {
+      return { status: "empty", error: "The PDF has no pages" };
+    }
+    return { status: "ok" };
+  } catch (error) {
+    return {
+      status: "corrupt",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
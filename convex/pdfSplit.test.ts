@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { getSplitGroups } from "./pdfSplit";
+
+describe("getSplitGroups", () => {
+  it("makes one group per range", () => {
+    expect(getSplitGroups({ mode: "ranges", ranges: "1-2,4-" }, 5)).toEqual([[0, 1], [3, 4]]);
+  });
+
+  it("cuts fixed-size chunks with a shorter last one", () => {
+    expect(getSplitGroups({ mode: "every", pagesPerFile: 2 }, 5)).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it("rounds a fractional chunk size down", () => {
+    expect(getSplitGroups({ mode: "every", pagesPerFile: 3.7 }, 4)).toEqual([[0, 1, 2], [3]]);
+  });
+
+  it("rejects chunks of less than one page", () => {
+    expect(() => getSplitGroups({ mode: "every", pagesPerFile: 0 }, 3)).toThrow("Pages per file must be at least 1");
+  });
+
+  it("puts every page in a group of its own", () => {
+    expect(getSplitGroups({ mode: "single" }, 3)).toEqual([[0], [1], [2]]);
+  });
+
+  it("checks ranges against the page count", () => {
+    expect(() => getSplitGroups({ mode: "ranges", ranges: "3-5" }, 4)).toThrow("Page 5 is out of range");
+  });
+});
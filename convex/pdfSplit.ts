@@ -0,0 +1,83 @@
+"use node";
+
+// Splits one PDF into several with pdf-lib. Each part keeps the original
+// pages untouched (copied, not re-rendered), so text, fonts and annotations
+// survive the split.
+
+import { PDFDocument } from 'pdf-lib';
+import JSZip from 'jszip';
+import { PdfSplitOptions } from './converters';
+import { formatPageSpan, parsePageRanges, resolvePageRanges } from './pageRanges';
+
+export type PdfPart = {
+  data: Buffer;
+  fileName: string;
+  pages: string;
+};
+
+// Groups of zero-based page indices, one group per output file
+export function getSplitGroups(options: PdfSplitOptions, pageCount: number): number[][] {
+  switch (options.mode) {
+    case 'ranges':
+      return resolvePageRanges(parsePageRanges(options.ranges), pageCount);
+    case 'every': {
+      const size = Math.floor(options.pagesPerFile);
+      if (!Number.isFinite(size) || size < 1) {
+        throw new Error('Pages per file must be at least 1');
+      }
+      const groups: number[][] = [];
+      for (let start = 0; start < pageCount; start += size) {
+        groups.push(
+          Array.from({ length: Math.min(size, pageCount - start) }, (_, i) => start + i)
+        );
+      }
+      return groups;
+    }
+    case 'single':
+      return Array.from({ length: pageCount }, (_, i) => [i]);
+    default:
+      throw new Error(`Unknown split mode: ${(options as { mode: string }).mode}`);
+  }
+}
+
+export async function splitPdf(
+  pdfBuffer: Buffer,
+  options: PdfSplitOptions,
+  baseName: string
+): Promise<PdfPart[]> {
+  const source = await PDFDocument.load(pdfBuffer);
+  const groups = getSplitGroups(options, source.getPageCount());
+  console.log(`Splitting ${source.getPageCount()} pages into ${groups.length} files`);
+
+  const parts: PdfPart[] = [];
+  const usedNames = new Set<string>();
+  for (const pageIndices of groups) {
+    const part = await PDFDocument.create();
+    const pages = await part.copyPages(source, pageIndices);
+    pages.forEach((page) => part.addPage(page));
+
+    const span = formatPageSpan(pageIndices);
+    // The same range may be asked for twice; keep names unique inside the ZIP
+    let fileName = `${baseName}_pages_${span}.pdf`;
+    for (let copy = 2; usedNames.has(fileName); copy++) {
+      fileName = `${baseName}_pages_${span}_${copy}.pdf`;
+    }
+    usedNames.add(fileName);
+
+    parts.push({
+      data: Buffer.from(await part.save()),
+      fileName,
+      pages: span,
+    });
+  }
+
+  return parts;
+}
+
+export async function zipFiles(files: { data: Buffer; fileName: string }[]): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const file of files) {
+    zip.file(file.fileName, file.data);
+  }
+  return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, degrees } from "pdf-lib";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { stampPdfNumbers } from "./pdfStampNumbers";
+
+async function createPdf(rotations: number[]): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (const rotation of rotations) {
+    doc.addPage([600, 800]).setRotation(degrees(rotation));
+  }
+  return Buffer.from(await doc.save());
+}
+
+// Each page's text items with where they start on the page as displayed
+async function readStamps(data: Buffer) {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  const pages = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const viewport = page.getViewport({ scale: 1 });
+    const { items } = await page.getTextContent();
+    pages.push({
+      width: viewport.width,
+      height: viewport.height,
+      texts: items.flatMap((item) => {
+        if (!("str" in item) || !item.str) return [];
+        const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+        return [{ text: item.str, x, y }];
+      }),
+    });
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+describe("stampPdfNumbers", () => {
+  const date = new Date("2024-03-01T12:00:00Z");
+
+  it("fills in the tokens and counts Bates numbers over the stamped pages", async () => {
+    const stamped = await stampPdfNumbers(await createPdf([0, 0, 0]), {
+      header: { left: "{filename} {date}" },
+      footer: { right: "{bates} page {page} of {total}" },
+      batesPrefix: "ACME-",
+      batesDigits: 4,
+      batesStart: 7,
+      pages: "3,1-1,3",
+    }, "contract.final.pdf", date);
+
+    const pages = await readStamps(stamped);
+    expect(pages.map((page) => page.texts.map((item) => item.text))).toEqual([
+      ["contract.final 2024-03-01", "ACME-0007 page 1 of 3"],
+      [],
+      ["contract.final 2024-03-01", "ACME-0008 page 3 of 3"],
+    ]);
+  });
+
+  it.each([0, 90, 180, 270])("puts the header at the top left of a page turned by %i degrees", async (rotation) => {
+    const stamped = await stampPdfNumbers(await createPdf([rotation]), {
+      header: { left: "top" },
+      footer: { right: "bottom" },
+      margin: 20,
+    }, "scan.pdf", date);
+
+    const [page] = await readStamps(stamped);
+    expect(page.width).toBe(rotation % 180 === 0 ? 600 : 800);
+    const top = page.texts.find((item) => item.text === "top")!;
+    const bottom = page.texts.find((item) => item.text === "bottom")!;
+    // Baselines, so the header sits a cap height below the margin
+    expect(top.x).toBeCloseTo(20);
+    expect(top.y).toBeGreaterThan(20);
+    expect(top.y).toBeLessThan(40);
+    expect(bottom.x).toBeGreaterThan(page.width / 2);
+    expect(bottom.y).toBeGreaterThan(page.height - 30);
+    expect(bottom.y).toBeLessThan(page.height - 20);
+  });
+
+  it("rejects text the standard fonts cannot show and empty stamps", async () => {
+    const pdf = await createPdf([0]);
+    await expect(stampPdfNumbers(pdf, { footer: { center: "页 {page}" } }, "a.pdf")).rejects.toThrow("cannot show");
+    await expect(stampPdfNumbers(pdf, { footer: { center: "  " } }, "a.pdf")).rejects.toThrow("Enter the text to stamp");
+  });
+});
@@ -0,0 +1,119 @@
+"use node";
+
+// Stamps page numbers, Bates numbers and header/footer text onto an existing
+// PDF with pdf-lib, for pdf_stamp_numbers and for merged PDFs. The text runs
+// along the edges of the page as displayed, so it reads the right way up on
+// pages with a /Rotate.
+
+import { PDFDocument, PDFFont, StandardFonts, degrees, rgb } from 'pdf-lib';
+import {
+  BATES_MAX_DIGITS,
+  PdfStampNumbersOptions,
+  STAMP_NUMBERS_DEFAULTS,
+  StampLine,
+  formatBatesNumber,
+} from './converters';
+import { toWinAnsi } from './imageLayout';
+import { checkRange, selectPages } from './pageRanges';
+import { getDisplayedPage, isolatePageContent } from './pageSpace';
+
+const SLOTS = ["left", "center", "right"] as const;
+
+// Replaces the {tokens} of one line; unknown ones are left as typed
+function formatStampText(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (token, name: string) => values[name] ?? token);
+}
+
+// Trimmed, non-empty texts of a header or footer, checked against the font
+function getLineTexts(line: StampLine | undefined, font: PDFFont) {
+  const texts: { slot: (typeof SLOTS)[number]; template: string }[] = [];
+  for (const slot of SLOTS) {
+    const template = line?.[slot]?.replace(/\s+/g, ' ').trim();
+    if (!template) continue;
+    try {
+      font.encodeText(template);
+    } catch {
+      throw new Error(`"${template}" contains characters the standard PDF fonts cannot show`);
+    }
+    texts.push({ slot, template });
+  }
+  return texts;
+}
+
+export async function stampPdfNumbers(
+  pdfBuffer: Buffer,
+  options: PdfStampNumbersOptions,
+  fileName: string,
+  date = new Date()
+): Promise<Buffer> {
+  const doc = await PDFDocument.load(pdfBuffer);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const fontSize = checkRange("font size", options.fontSize ?? STAMP_NUMBERS_DEFAULTS.fontSize, 4, 72);
+  const margin = checkRange("margin", options.margin ?? STAMP_NUMBERS_DEFAULTS.margin, 0, 144);
+  const batesDigits = checkRange("number of Bates digits", options.batesDigits ?? STAMP_NUMBERS_DEFAULTS.batesDigits, 1, BATES_MAX_DIGITS, true);
+  const batesStart = checkRange("first Bates number", options.batesStart ?? STAMP_NUMBERS_DEFAULTS.batesStart, 0, Number.MAX_SAFE_INTEGER, true);
+  const batesPrefix = options.batesPrefix ?? STAMP_NUMBERS_DEFAULTS.batesPrefix;
+  try {
+    font.encodeText(batesPrefix);
+  } catch {
+    throw new Error("The Bates prefix contains characters the standard PDF fonts cannot show");
+  }
+
+  const header = getLineTexts(options.header, font);
+  const footer = getLineTexts(options.footer, font);
+  if (header.length === 0 && footer.length === 0) {
+    throw new Error("Enter the text to stamp in the header or footer");
+  }
+
+  // Bates numbers count up through the document whatever order the ranges
+  // were given in, and a page listed twice is stamped once
+  const total = doc.getPageCount();
+  const pageIndices = options.pages?.trim()
+    ? [...new Set(selectPages(options.pages, total))].sort((a, b) => a - b)
+    : doc.getPageIndices();
+
+  const capHeight = font.heightAtSize(fontSize, { descender: false });
+  const descent = font.heightAtSize(fontSize) - capHeight;
+  const values = {
+    total: String(total),
+    filename: toWinAnsi(fileName.replace(/\.[^.]+$/, "")),
+    date: date.toISOString().slice(0, 10),
+  };
+
+  pageIndices.forEach((index, position) => {
+    const page = doc.getPage(index);
+    const displayed = getDisplayedPage(page);
+    const pageValues = {
+      ...values,
+      page: String(index + 1),
+      bates: formatBatesNumber(batesPrefix, batesDigits, batesStart + position),
+    };
+    const lines = [
+      { texts: header, baseline: margin + capHeight },
+      { texts: footer, baseline: displayed.height - margin - descent },
+    ];
+
+    isolatePageContent(doc, page);
+    for (const { texts, baseline } of lines) {
+      for (const { slot, template } of texts) {
+        const text = formatStampText(template, pageValues);
+        const width = font.widthOfTextAtSize(text, fontSize);
+        const left = slot === "left" ? margin
+          : slot === "right" ? displayed.width - margin - width
+          : (displayed.width - width) / 2;
+        const [x, y] = displayed.toPageSpace(left, baseline);
+        page.drawText(text, {
+          x,
+          y,
+          size: fontSize,
+          font,
+          color: rgb(0, 0, 0),
+          rotate: degrees(displayed.rotation),
+        });
+      }
+    }
+  });
+
+  console.log(`Stamped ${pageIndices.length} of ${total} pages`);
+  return Buffer.from(await doc.save());
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, StandardFonts, degrees } from "pdf-lib";
+import { extractPdfText, formatPdfText } from "./pdfText";
+
+// Lines of text at [x, y from the top, font size], one array per page
+type PageText = [string, number, number, number][];
+
+async function createPdf(pages: PageText[], rotations: number[] = []): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  pages.forEach((lines, index) => {
+    const page = doc.addPage([600, 800]);
+    for (const [text, x, y, size] of lines) {
+      page.drawText(text, { x, y: 800 - y, size, font });
+    }
+    page.setRotation(degrees(rotations[index] ?? 0));
+  });
+  return Buffer.from(await doc.save());
+}
+
+const REPORT: PageText = [
+  ["Annual report", 72, 80, 24],
+  ["Results", 72, 130, 15],
+  ["Revenue grew in every region over the year, helped by new inter-", 72, 160, 11],
+  ["national customers and steady demand at home.", 72, 174, 11],
+  ["Highlights", 72, 210, 13],
+  ["• Two new offices", 72, 236, 11],
+  ["– Lisbon and Oslo", 90, 250, 11],
+  ["2. Costs stayed flat", 72, 264, 11],
+  ["# of staff rose slightly, which the next report covers in more detail.", 72, 296, 11],
+];
+
+describe("extractPdfText", () => {
+  it("finds headings by font size and writes them as Markdown", async () => {
+    const result = await extractPdfText(await createPdf([REPORT]));
+
+    expect(result.bodyFontSize).toBe(11);
+    expect(formatPdfText(result, "markdown", "report.pdf")).toBe([
+      "<!-- Page 1 -->",
+      "",
+      "# Annual report",
+      "",
+      "## Results",
+      "",
+      "Revenue grew in every region over the year, helped by new international customers and steady demand at home.",
+      "",
+      "### Highlights",
+      "",
+      "- Two new offices",
+      "  - Lisbon and Oslo",
+      "2. Costs stayed flat",
+      "",
+      "\\# of staff rose slightly, which the next report covers in more detail.",
+      "",
+    ].join("\n"));
+  });
+
+  it("keeps the lines as printed in plain text", async () => {
+    const result = await extractPdfText(await createPdf([REPORT.slice(1, 4), [["Second page", 72, 80, 11]]]));
+
+    expect(formatPdfText(result, "text", "report.pdf")).toBe([
+      "Results",
+      "",
+      "Revenue grew in every region over the year, helped by new inter-",
+      "national customers and steady demand at home.",
+      "\fSecond page",
+      "",
+    ].join("\n"));
+  });
+
+  it("reads only the selected pages, placing text on the page as displayed", async () => {
+    const result = await extractPdfText(
+      await createPdf([[["First", 72, 80, 11]], [["Second", 72, 80, 11]], [["Third", 72, 80, 11]]], [0, 0, 90]),
+      "3,1"
+    );
+
+    expect(result.pageCount).toBe(3);
+    expect(result.pages.map((page) => ({ page: page.page, width: page.width, text: page.blocks[0].text }))).toEqual([
+      { page: 1, width: 600, text: "First" },
+      { page: 3, width: 800, text: "Third" },
+    ]);
+    // Turned a quarter clockwise, the text's baseline 80 pt from the page's
+    // top edge ends up 80 pt from the right edge, reading downwards
+    const [line] = result.pages[1].blocks[0].lines;
+    expect(line.x).toBeCloseTo(800 - 80);
+  });
+
+  it("rejects a selection outside the document", async () => {
+    await expect(extractPdfText(await createPdf([[["Only", 72, 80, 11]]]), "2")).rejects.toThrow("Page 2 is out of range, the document has 1 page");
+  });
+});
@@ -0,0 +1,367 @@
+"use node";
+
+// Reads the text layer of a PDF with pdf-parse and rebuilds its structure:
+// text runs are joined into lines by baseline, lines into blocks by vertical
+// spacing and font size, and blocks set noticeably larger than the body text
+// become headings. Shared by the built-in PDF to Word engine, the
+// pdf_to_text export and ocr, which writes its results in the same shape.
+//
+// Coordinates are PDF points with the origin at the top left of the page as
+// displayed, so rotated pages read the same way as upright ones. A line's box
+// runs from one font size above its baseline down to the baseline; glyph
+// descenders are not measured. Columns are not detected, so multi-column
+// pages come out one row of text at a time.
+
+// Import the library entry directly: the package index runs a debug harness
+// that reads a bundled test file when it is not required by another module
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import { TextExportFormat } from './converters';
+import { selectPages } from './pageRanges';
+
+// The fields of pdf.js text items read here
+type TextItem = {
+  str: string;
+  transform: number[];
+  width?: number;
+  height?: number;
+};
+
+// Enough of pdf.js's PageViewport to place text on the displayed page
+type PageViewport = {
+  width: number;
+  height: number;
+  convertToViewportPoint(x: number, y: number): [number, number];
+};
+
+export type TextBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type TextLine = TextBox & {
+  text: string;
+  fontSize: number;
+};
+
+export type TextBlockType = "heading" | "paragraph" | "listItem";
+
+export type TextBlock = TextBox & {
+  type: TextBlockType;
+  // 1-3 for headings, by how much larger they are than the body text
+  level?: number;
+  // Bullet or number of a list item, as printed
+  marker?: string;
+  // Lines joined with spaces, hyphenated words re-joined
+  text: string;
+  fontSize: number;
+  lines: TextLine[];
+};
+
+export type TextPage = {
+  // 1-based page number
+  page: number;
+  width: number;
+  height: number;
+  blocks: TextBlock[];
+};
+
+export type PdfTextResult = {
+  pageCount: number;
+  pages: TextPage[];
+  // Most common font size, weighted by text length
+  bodyFontSize: number;
+  // Pages pdf.js failed to read, left out of `pages`
+  unreadablePages: number[];
+};
+
+// Items whose baselines differ by less than this fraction of the font size share a line
+const SAME_LINE_TOLERANCE = 0.5;
+// A vertical gap larger than this many line heights starts a new paragraph
+const PARAGRAPH_GAP = 1.5;
+// A horizontal gap wider than this fraction of the font size separates words
+const WORD_GAP = 0.15;
+
+// Bullets and "1." / "a)" style numbers at the start of a line
+const LIST_MARKER = /^([•◦▪▫●○■□‣⁃–\-*]|\(?\d{1,3}[.)]|\(?[a-z][.)])\s+/;
+
+// Line under construction: runs are kept so they can be ordered by x
+type LineRuns = {
+  baseline: number;
+  fontSize: number;
+  runs: { text: string; x: number; right: number }[];
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function getFontSize(item: TextItem): number {
+  const [a, b] = item.transform;
+  return Math.round(Math.hypot(a, b) * 10) / 10 || item.height || 0;
+}
+
+function groupIntoLines(items: TextItem[], viewport: PageViewport): TextLine[] {
+  const lines: LineRuns[] = [];
+
+  for (const item of items) {
+    if (!item.str || !item.str.trim()) continue;
+
+    const fontSize = getFontSize(item);
+    const [x, baseline] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+    const run = { text: item.str, x, right: x + (item.width ?? 0) };
+    const line = lines.find(
+      (candidate) => Math.abs(candidate.baseline - baseline) <= Math.max(candidate.fontSize, fontSize) * SAME_LINE_TOLERANCE
+    );
+
+    if (line) {
+      line.runs.push(run);
+      line.fontSize = Math.max(line.fontSize, fontSize);
+    } else {
+      lines.push({ baseline, fontSize, runs: [run] });
+    }
+  }
+
+  return lines
+    .map((line) => {
+      const runs = [...line.runs].sort((a, b) => a.x - b.x);
+      let text = '';
+      let right = -Infinity;
+      for (const run of runs) {
+        // Insert a space when the run does not already continue the previous word
+        const separate = text && run.x - right > line.fontSize * WORD_GAP && !text.endsWith(' ') && !run.text.startsWith(' ');
+        text += (separate ? ' ' : '') + run.text;
+        right = Math.max(right, run.right);
+      }
+      const x = runs[0].x;
+      return {
+        text: text.replace(/\s+/g, ' ').trim(),
+        x: round(x),
+        y: round(line.baseline - line.fontSize),
+        width: round(Math.max(0, right - x)),
+        height: line.fontSize,
+        fontSize: line.fontSize,
+      };
+    })
+    .filter((line) => line.text)
+    .sort((a, b) => a.y + a.height - (b.y + b.height) || a.x - b.x);
+}
+
+function getBounds(lines: TextLine[]): TextBox {
+  const x = Math.min(...lines.map((line) => line.x));
+  const y = Math.min(...lines.map((line) => line.y));
+  const right = Math.max(...lines.map((line) => line.x + line.width));
+  const bottom = Math.max(...lines.map((line) => line.y + line.height));
+  return { x: round(x), y: round(y), width: round(right - x), height: round(bottom - y) };
+}
+
+// Text of a block's lines joined with spaces, re-joining words hyphenated
+// across a line break
+export function joinLines(lines: TextLine[]): string {
+  let text = '';
+  for (const line of lines) {
+    text = !text ? line.text : text.endsWith('-') ? text.slice(0, -1) + line.text : `${text} ${line.text}`;
+  }
+  return text;
+}
+
+function groupIntoBlocks(lines: TextLine[]): TextBlock[] {
+  const groups: { marker?: string; lines: TextLine[] }[] = [];
+  let previous: TextLine | null = null;
+
+  for (const line of lines) {
+    const marker = LIST_MARKER.exec(line.text)?.[1];
+    const startsNewBlock =
+      !previous ||
+      marker !== undefined ||
+      line.y - previous.y > Math.max(previous.fontSize, line.fontSize) * PARAGRAPH_GAP ||
+      Math.abs(previous.fontSize - line.fontSize) > 1;
+
+    if (startsNewBlock) {
+      groups.push({ marker, lines: [line] });
+    } else {
+      groups[groups.length - 1].lines.push(line);
+    }
+    previous = line;
+  }
+
+  return groups.map(({ marker, lines: blockLines }) => {
+    let text = joinLines(blockLines);
+    if (marker !== undefined) {
+      text = text.replace(LIST_MARKER, '');
+    }
+    return {
+      type: marker !== undefined ? "listItem" : "paragraph",
+      ...(marker !== undefined ? { marker } : {}),
+      ...getBounds(blockLines),
+      text,
+      fontSize: Math.max(...blockLines.map((line) => line.fontSize)),
+      lines: blockLines,
+    };
+  });
+}
+
+function getBodyFontSize(pages: TextPage[]): number {
+  const weights = new Map<number, number>();
+  for (const block of pages.flatMap((page) => page.blocks)) {
+    weights.set(block.fontSize, (weights.get(block.fontSize) || 0) + block.text.length);
+  }
+
+  let bodySize = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      bodySize = size;
+      bestWeight = weight;
+    }
+  }
+  return bodySize;
+}
+
+function getHeadingLevel(block: TextBlock, bodyFontSize: number): number | undefined {
+  // Long runs of large text are more likely pull quotes than headings
+  if (!bodyFontSize || block.type !== "paragraph" || block.text.length > 200) return undefined;
+
+  const ratio = block.fontSize / bodyFontSize;
+  if (ratio >= 1.6) return 1;
+  if (ratio >= 1.3) return 2;
+  if (ratio >= 1.15) return 3;
+  return undefined;
+}
+
+// Extracts the text of the given pages ("1-3,5" syntax), or of all of them
+export async function extractPdfText(pdfBuffer: Buffer, pages?: string): Promise<PdfTextResult> {
+  const textPages: TextPage[] = [];
+  const unreadablePages: number[] = [];
+  let pageCount = 0;
+  let selected: Set<number> | null = null;
+  let selectionError: unknown = null;
+
+  // pdf.js reads the whole underlying ArrayBuffer, so hand it an unpooled copy;
+  // pdf-parse renders pages one after another, so pages arrive in order. It
+  // also swallows errors thrown here, so they are recorded and handled after.
+  await pdfParse(new Uint8Array(pdfBuffer), {
+    pagerender: async (pageData) => {
+      const pageIndex = pageData.pageIndex;
+      if (pageIndex === 0) {
+        pageCount = pageData.transport.numPages;
+        try {
+          selected = pages?.trim() ? new Set(selectPages(pages, pageCount)) : null;
+        } catch (error) {
+          selectionError = error;
+        }
+      }
+      if (selectionError || (selected && !selected.has(pageIndex))) {
+        return '';
+      }
+
+      try {
+        const viewport: PageViewport = pageData.getViewport(1);
+        const textContent = await pageData.getTextContent({
+          normalizeWhitespace: true,
+          disableCombineTextItems: false,
+        });
+        textPages.push({
+          page: pageIndex + 1,
+          width: round(viewport.width),
+          height: round(viewport.height),
+          blocks: groupIntoBlocks(groupIntoLines(textContent.items, viewport)),
+        });
+      } catch (error) {
+        console.warn(`Could not read the text of page ${pageIndex + 1}:`, error);
+        unreadablePages.push(pageIndex + 1);
+      }
+      return '';
+    },
+  });
+  if (selectionError) {
+    throw selectionError;
+  }
+
+  const bodyFontSize = getBodyFontSize(textPages);
+  for (const block of textPages.flatMap((page) => page.blocks)) {
+    const level = getHeadingLevel(block, bodyFontSize);
+    if (level) {
+      block.type = "heading";
+      block.level = level;
+    }
+  }
+
+  return { pageCount, pages: textPages, bodyFontSize, unreadablePages };
+}
+
+// Characters that would start Markdown syntax at the beginning of a paragraph
+function escapeMarkdownLine(text: string): string {
+  return text.replace(/^([#>*+\-=|`]|\d+[.)]\s)/, '\\$1');
+}
+
+function getMarkdownListMarker(marker: string): string {
+  const number = /\d+/.exec(marker)?.[0];
+  return number ? `${number}.` : '-';
+}
+
+// Lines as they are broken on the page, list markers included
+// Consecutive list items are kept together without blank lines between them
+function continuesList(blocks: TextBlock[], index: number): boolean {
+  return blocks[index].type === "listItem" && blocks[index - 1]?.type === "listItem";
+}
+
+function formatPlainText(result: PdfTextResult): string {
+  // Form feeds between pages, as pdftotext writes them
+  return result.pages
+    .map((page) => page.blocks
+      .map((block, index) => (index > 0 && !continuesList(page.blocks, index) ? '\n' : '') + block.lines.map((line) => line.text).join('\n'))
+      .join('\n'))
+    .join('\n\f')
+    .concat('\n');
+}
+
+function formatMarkdown(result: PdfTextResult): string {
+  const pages = result.pages.map((page) => {
+    const lines = [`<!-- Page ${page.page} -->`];
+    // Left edges of the list levels open at the current item
+    let listIndents: number[] = [];
+    page.blocks.forEach((block, index) => {
+      if (!continuesList(page.blocks, index)) {
+        lines.push('');
+        listIndents = [];
+      }
+      if (block.type === "heading") {
+        lines.push(`${'#'.repeat(block.level ?? 1)} ${block.text}`);
+      } else if (block.type === "listItem") {
+        // Items set further right than the one before are nested in it
+        while (listIndents.length > 1 && block.x < listIndents[listIndents.length - 1] - 2) listIndents.pop();
+        if (listIndents.length === 0 || block.x > listIndents[listIndents.length - 1] + 2) listIndents.push(block.x);
+        const indent = '  '.repeat(listIndents.length - 1);
+        lines.push(`${indent}${getMarkdownListMarker(block.marker ?? '')} ${block.text}`);
+      } else {
+        lines.push(escapeMarkdownLine(block.text));
+      }
+    });
+    return lines.join('\n');
+  });
+  return pages.join('\n\n') + '\n';
+}
+
+function formatJson(result: PdfTextResult, fileName: string): string {
+  return JSON.stringify({
+    fileName,
+    pageCount: result.pageCount,
+    bodyFontSize: result.bodyFontSize,
+    units: "pt",
+    origin: "top-left",
+    pages: result.pages,
+  }, null, 2);
+}
+
+export function formatPdfText(result: PdfTextResult, format: TextExportFormat, fileName: string): string {
+  switch (format) {
+    case "text":
+      return formatPlainText(result);
+    case "markdown":
+      return formatMarkdown(result);
+    case "json":
+      return formatJson(result, fileName);
+  }
+}
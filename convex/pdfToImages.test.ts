@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { PDFDocument } from "pdf-lib";
+import { renderPdfPages } from "./pdfToImages";
+
+async function createPdf(sizes: [number, number][]): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (const size of sizes) {
+    doc.addPage(size);
+  }
+  return Buffer.from(await doc.save());
+}
+
+describe("renderPdfPages", () => {
+  it("renders the selected pages at the asked resolution with numbered file names", async () => {
+    const pdf = await createPdf(Array.from({ length: 12 }, (): [number, number] => [72, 144]));
+    const { images, warnings } = await renderPdfPages(pdf, { format: "png", dpi: 144, pages: "12,3" }, "report");
+
+    expect(warnings).toEqual([]);
+    expect(images.map(({ page, fileName, width, height }) => ({ page, fileName, width, height }))).toEqual([
+      { page: 12, fileName: "report-page-12.png", width: 144, height: 288 },
+      { page: 3, fileName: "report-page-03.png", width: 144, height: 288 },
+    ]);
+    expect(await sharp(images[0].data).metadata()).toMatchObject({ format: "png", width: 144, height: 288 });
+  });
+
+  it("writes JPEGs with a .jpg extension", async () => {
+    const { images } = await renderPdfPages(await createPdf([[100, 50]]), { format: "jpeg", dpi: 72 }, "scan");
+
+    expect(images[0].fileName).toBe("scan-page-1.jpg");
+    expect(await sharp(images[0].data).metadata()).toMatchObject({ format: "jpeg", width: 100, height: 50 });
+  });
+
+  it("renders pages that would be too large smaller and says so", async () => {
+    const { images, warnings } = await renderPdfPages(await createPdf([[5000, 10]]), { format: "png", dpi: 300 }, "poster");
+
+    expect(images[0].width).toBe(10000);
+    expect(warnings).toEqual(["Page 1 would be larger than 10000 pixels at 300 DPI and was rendered smaller"]);
+  });
+
+  it.each([20, 400, NaN])("rejects a resolution of %s DPI", async (dpi) => {
+    await expect(renderPdfPages(await createPdf([[72, 72]]), { format: "png", dpi }, "a"))
+      .rejects.toThrow("The resolution must be between 36 and 300 DPI");
+  });
+
+  it("rejects more pages than one job may export", async () => {
+    const pdf = await createPdf(Array.from({ length: 101 }, (): [number, number] => [72, 72]));
+    await expect(renderPdfPages(pdf, { format: "png", dpi: 72 }, "a"))
+      .rejects.toThrow("101 pages were selected, but at most 100 can be exported at once");
+    await expect(renderPdfPages(pdf, { format: "png", dpi: 72, pages: "1-100" }, "a")).resolves.toBeDefined();
+  });
+});
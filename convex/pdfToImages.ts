@@ -0,0 +1,148 @@
+"use node";
+
+// Renders PDF pages to PNG or JPEG with pdf.js drawing onto node-canvas.
+// pdf.js is given a canvas factory built on the same canvas package, as its
+// Node example does, so the page and the scratch canvases it creates for
+// patterns and masks can be drawn onto each other.
+
+import { createRequire } from 'module';
+import path from 'path';
+import { Canvas, CanvasRenderingContext2D, createCanvas } from 'canvas';
+import pdfjs from 'pdfjs-dist/legacy/build/pdf.js';
+import {
+  PAGE_IMAGE_DPI,
+  PAGE_IMAGE_FORMATS,
+  PDF_TO_IMAGES_MAX_PAGES,
+  PdfToImagesOptions,
+} from './converters';
+import { selectPages } from './pageRanges';
+
+export type PageImage = {
+  // 1-based page number
+  page: number;
+  fileName: string;
+  data: Buffer;
+  width: number;
+  height: number;
+};
+
+export type PdfToImagesResult = {
+  images: PageImage[];
+  warnings: string[];
+};
+
+type CanvasAndContext = { canvas: Canvas; context: CanvasRenderingContext2D };
+
+// Large-format pages (posters, drawings) are rendered smaller than asked so a
+// page stays within a few hundred megabytes of pixels
+const MAX_IMAGE_SIDE = 10000;
+
+const DEFAULT_JPEG_QUALITY = 0.85;
+
+class NodeCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(Math.max(1, width), Math.max(1, height));
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    canvasAndContext.canvas.width = Math.max(1, width);
+    canvasAndContext.canvas.height = Math.max(1, height);
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    // Zero-sized canvases let node-canvas free the pixel buffer right away
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+  }
+}
+
+// Fonts that PDFs use without embedding, and the character maps for CJK
+// text, ship with pdfjs-dist
+function getPdfjsDataPaths(): { standardFontDataUrl: string; cMapUrl: string } {
+  const packageRoot = path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'));
+  return {
+    standardFontDataUrl: path.join(packageRoot, 'standard_fonts') + path.sep,
+    cMapUrl: path.join(packageRoot, 'cmaps') + path.sep,
+  };
+}
+
+export async function renderPdfPages(
+  pdfBuffer: Buffer,
+  options: PdfToImagesOptions,
+  baseName: string
+): Promise<PdfToImagesResult> {
+  const format = PAGE_IMAGE_FORMATS[options.format];
+  if (!format) {
+    throw new Error(`Unsupported image format: ${options.format}`);
+  }
+  if (!Number.isFinite(options.dpi) || options.dpi < PAGE_IMAGE_DPI.min || options.dpi > PAGE_IMAGE_DPI.max) {
+    throw new Error(`The resolution must be between ${PAGE_IMAGE_DPI.min} and ${PAGE_IMAGE_DPI.max} DPI`);
+  }
+  const quality = Math.min(1, Math.max(0.1, options.jpegQuality ?? DEFAULT_JPEG_QUALITY));
+
+  const canvasFactory = new NodeCanvasFactory();
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    ...getPdfjsDataPaths(),
+    cMapPacked: true,
+    canvasFactory,
+    isEvalSupported: false,
+  }).promise;
+
+  const images: PageImage[] = [];
+  const warnings: string[] = [];
+  try {
+    const pageIndices = options.pages?.trim()
+      ? selectPages(options.pages, pdf.numPages)
+      : Array.from({ length: pdf.numPages }, (_, i) => i);
+    if (pageIndices.length > PDF_TO_IMAGES_MAX_PAGES) {
+      throw new Error(`${pageIndices.length} pages were selected, but at most ${PDF_TO_IMAGES_MAX_PAGES} can be exported at once`);
+    }
+
+    const digits = String(pdf.numPages).length;
+    const reduced: number[] = [];
+    for (const pageIndex of pageIndices) {
+      const page = await pdf.getPage(pageIndex + 1);
+      let scale = options.dpi / 72;
+      const unscaled = page.getViewport({ scale: 1 });
+      const longestSide = Math.max(unscaled.width, unscaled.height) * scale;
+      if (longestSide > MAX_IMAGE_SIDE) {
+        scale *= MAX_IMAGE_SIDE / longestSide;
+        reduced.push(pageIndex + 1);
+      }
+      const viewport = page.getViewport({ scale });
+
+      const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      try {
+        // node-canvas implements the parts of the DOM context pdf.js draws
+        // with. pdf.js fills the page white first, so JPEGs do not come out
+        // black where the PDF is transparent.
+        const canvasContext = canvasAndContext.context as unknown as globalThis.CanvasRenderingContext2D;
+        await page.render({ canvasContext, viewport }).promise;
+        const data = options.format === "jpeg"
+          ? canvasAndContext.canvas.toBuffer("image/jpeg", { quality })
+          : canvasAndContext.canvas.toBuffer("image/png");
+        images.push({
+          page: pageIndex + 1,
+          fileName: `${baseName}-page-${String(pageIndex + 1).padStart(digits, "0")}.${format.extension}`,
+          data,
+          width: canvasAndContext.canvas.width,
+          height: canvasAndContext.canvas.height,
+        });
+      } finally {
+        canvasFactory.destroy(canvasAndContext);
+        page.cleanup();
+      }
+    }
+
+    if (reduced.length > 0) {
+      warnings.push(`Page${reduced.length > 1 ? "s" : ""} ${reduced.join(", ")} would be larger than ${MAX_IMAGE_SIDE} pixels at ${options.dpi} DPI and ${reduced.length > 1 ? "were" : "was"} rendered smaller`);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  console.log(`Rendered ${images.length} pages to ${format.label} at ${options.dpi} DPI`);
+  return { images, warnings };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, StandardFonts, degrees } from "pdf-lib";
+import pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { PdfWatermarkOptions } from "./converters";
+import { watermarkPdf } from "./pdfWatermark";
+
+async function createPdf(rotation = 0, text?: string): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([600, 800]);
+  page.setRotation(degrees(rotation));
+  if (text) {
+    page.drawText(text, { x: 100, y: 100, size: 12 });
+  }
+  return Buffer.from(await doc.save());
+}
+
+// Width and cap height of Helvetica text, as the watermark measures it
+async function measure(text: string, size: number) {
+  const font = await (await PDFDocument.create()).embedFont(StandardFonts.Helvetica);
+  return { width: font.widthOfTextAtSize(text, size), height: font.heightAtSize(size, { descender: false }) };
+}
+
+// Each page's text items with where their baseline starts on the page as
+// displayed and the angle they run at, counterclockwise from the x axis
+async function readStamps(data: Buffer) {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+  const pages = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const viewport = page.getViewport({ scale: 1 });
+    const { items } = await page.getTextContent();
+    pages.push({
+      width: viewport.width,
+      height: viewport.height,
+      texts: items.flatMap((item) => {
+        if (!("str" in item) || !item.str.trim()) return [];
+        const [a, b, , , e, f] = item.transform;
+        const [x, y] = viewport.convertToViewportPoint(e, f);
+        const [toX, toY] = viewport.convertToViewportPoint(e + a, f + b);
+        const angle = (Math.round((Math.atan2(y - toY, toX - x) * 180) / Math.PI) + 360) % 360;
+        return [{ text: item.str, x, y, angle }];
+      }),
+    });
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+const TEXT: PdfWatermarkOptions = { type: "text", text: "DRAFT", font: "helvetica", fontSize: 40, rotation: 0, margin: 20 };
+
+describe("watermarkPdf", () => {
+  it.each([0, 90, 180, 270])("puts anchored watermarks in the corners of a page turned by %i degrees", async (rotation) => {
+    const { width, height } = await measure("DRAFT", 40);
+    const [topLeft] = await readStamps(await watermarkPdf(await createPdf(rotation), { ...TEXT, anchor: "topLeft" }));
+    const [bottomRight] = await readStamps(await watermarkPdf(await createPdf(rotation), { ...TEXT, anchor: "bottomRight" }));
+
+    expect(topLeft.width).toBe(rotation % 180 === 0 ? 600 : 800);
+    expect(topLeft.texts).toHaveLength(1);
+    expect(topLeft.texts[0].x).toBeCloseTo(20);
+    expect(topLeft.texts[0].y).toBeCloseTo(20 + height);
+    expect(topLeft.texts[0].angle).toBe(0);
+    expect(bottomRight.texts[0].x).toBeCloseTo(bottomRight.width - 20 - width);
+    expect(bottomRight.texts[0].y).toBeCloseTo(bottomRight.height - 20);
+    expect(bottomRight.texts[0].angle).toBe(0);
+  });
+
+  it.each([0, 90])("turns a centred watermark about its middle on a page turned by %i degrees", async (rotation) => {
+    const { width, height } = await measure("DRAFT", 40);
+    const [page] = await readStamps(await watermarkPdf(await createPdf(rotation), { ...TEXT, anchor: "center", rotation: 30 }));
+
+    // The baseline starts half the text's width and height back from the
+    // centre, both turned by 30 degrees
+    const cos = Math.cos(Math.PI / 6);
+    const sin = Math.sin(Math.PI / 6);
+    const [text] = page.texts;
+    expect(text.angle).toBe(30);
+    expect(text.x).toBeCloseTo(page.width / 2 - ((width / 2) * cos - (height / 2) * sin));
+    expect(text.y).toBeCloseTo(page.height / 2 + ((width / 2) * sin + (height / 2) * cos));
+  });
+
+  it("tiles the watermark from the centre of a turned page, cut off at its edges", async () => {
+    const { width, height } = await measure("DRAFT", 40);
+    const [page] = await readStamps(await watermarkPdf(await createPdf(90), { ...TEXT, tile: true, margin: 50 }));
+
+    // pdf.js leaves out glyphs off the page, so the cut tiles read shorter
+    const [first] = page.texts;
+    const row = page.texts.filter((text) => Math.abs(text.y - first.y) < 0.5);
+    const rows = page.texts.filter((text) => Math.abs(text.x - first.x) < 0.5).map((text) => text.y);
+    expect(page.texts).toHaveLength(row.length * rows.length);
+    expect(row.map((text) => text.text)).toEqual(["AFT", ...Array(row.length - 2).fill("DRAFT"), "DRAF"]);
+    row.slice(2, -1).forEach((text, index) => expect(text.x - row[index + 1].x).toBeCloseTo(width + 50));
+    rows.slice(1).forEach((y, index) => expect(y - rows[index]).toBeCloseTo(height + 50));
+    const centred = (text: { x: number; y: number }) =>
+      Math.abs(text.x - (page.width - width) / 2) < 0.01 && Math.abs(text.y - (page.height + height) / 2) < 0.01;
+    expect(page.texts.filter(centred)).toHaveLength(1);
+    expect(rows[0] - height).toBeLessThan(0);
+    expect(rows[rows.length - 1] + 50).toBeGreaterThan(page.height);
+  });
+
+  it("refuses to tile more than 400 watermarks on a page", async () => {
+    const pdf = await createPdf();
+    // 11 by 29 tiles, then 13 by 45
+    await expect(watermarkPdf(pdf, { ...TEXT, fontSize: 12, tile: true, margin: 20 })).resolves.toBeInstanceOf(Buffer);
+    await expect(watermarkPdf(pdf, { ...TEXT, fontSize: 12, tile: true, margin: 10 }))
+      .rejects.toThrow("The watermark is too small to tile");
+  });
+
+  it("moves the watermark behind the page content when asked", async () => {
+    const pdf = await createPdf(0, "Page text");
+    const [over] = await readStamps(await watermarkPdf(pdf, TEXT));
+    const [behind] = await readStamps(await watermarkPdf(pdf, { ...TEXT, behindContent: true }));
+
+    expect(over.texts.map((text) => text.text)).toEqual(["Page text", "DRAFT"]);
+    expect(behind.texts.map((text) => text.text)).toEqual(["DRAFT", "Page text"]);
+  });
+
+  it("only watermarks the selected pages, each once", async () => {
+    const doc = await PDFDocument.load(await createPdf());
+    doc.addPage([600, 800]);
+    doc.addPage([600, 800]);
+    const pages = await readStamps(await watermarkPdf(Buffer.from(await doc.save()), { ...TEXT, pages: "3,1,3" }));
+
+    expect(pages.map((page) => page.texts.length)).toEqual([1, 0, 1]);
+  });
+});
@@ -0,0 +1,211 @@
+"use node";
+
+// Stamps a text or image watermark onto the pages of a PDF with pdf-lib.
+// The watermark is placed on the page as displayed, so it comes out the same
+// way up on pages with a /Rotate, and is either drawn over the content or
+// moved underneath it.
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import {
+  PdfWatermarkOptions,
+  WATERMARK_ANCHORS,
+  WATERMARK_DEFAULTS,
+  WATERMARK_FONTS,
+  WatermarkAnchor,
+  WatermarkFont,
+} from './converters';
+import { NormalizedImage } from './imageNormalize';
+import { checkRange, selectPages } from './pageRanges';
+import { getDisplayedPage, isolatePageContent, moveDrawingBehindContent } from './pageSpace';
+
+const STANDARD_FONTS: Record<WatermarkFont, StandardFonts> = {
+  helvetica: StandardFonts.Helvetica,
+  helveticaBold: StandardFonts.HelveticaBold,
+  times: StandardFonts.TimesRoman,
+  timesBold: StandardFonts.TimesRomanBold,
+  courier: StandardFonts.Courier,
+};
+
+// More tiles than this on one page means the watermark is tiny next to it
+const MAX_TILES_PER_PAGE = 400;
+
+// The watermark, drawn from its bottom left corner before rotation
+type Stamp = {
+  width: number;
+  height: number;
+  draw(page: PDFPage, x: number, y: number, rotate: number): void;
+};
+
+function parseColor(color: string) {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) {
+    throw new Error(`Invalid watermark colour: ${color}`);
+  }
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+function createTextStamp(text: string, font: PDFFont, size: number, options: PdfWatermarkOptions, opacity: number): Stamp {
+  const color = parseColor(options.color ?? WATERMARK_DEFAULTS.color);
+  // Capital height without descenders, so the text looks centred
+  const height = font.heightAtSize(size, { descender: false });
+  return {
+    width: font.widthOfTextAtSize(text, size),
+    height,
+    draw(page, x, y, rotate) {
+      page.drawText(text, { x, y, size, font, color, opacity, rotate: degrees(rotate) });
+    },
+  };
+}
+
+function createImageStamp(image: PDFImage, width: number, opacity: number): Stamp {
+  const height = (width * image.height) / image.width;
+  return {
+    width,
+    height,
+    draw(page, x, y, rotate) {
+      page.drawImage(image, { x, y, width, height, opacity, rotate: degrees(rotate) });
+    },
+  };
+}
+
+// Centres of the watermarks on a displayed page of the given size. `extent`
+// is the size of the rotated watermark's bounding box.
+function getStampCentres(
+  pageWidth: number,
+  pageHeight: number,
+  extent: { width: number; height: number },
+  anchor: WatermarkAnchor,
+  margin: number,
+  tile: boolean
+): { x: number; y: number }[] {
+  if (tile) {
+    // A grid centred on the page, with tiles cut off at the edges
+    const stepX = extent.width + margin;
+    const stepY = extent.height + margin;
+    const columns = Math.ceil(pageWidth / stepX / 2);
+    const rows = Math.ceil(pageHeight / stepY / 2);
+    if ((2 * columns + 1) * (2 * rows + 1) > MAX_TILES_PER_PAGE) {
+      throw new Error("The watermark is too small to tile; make it larger or add more spacing");
+    }
+    const centres: { x: number; y: number }[] = [];
+    for (let row = -rows; row <= rows; row++) {
+      for (let column = -columns; column <= columns; column++) {
+        centres.push({ x: pageWidth / 2 + column * stepX, y: pageHeight / 2 + row * stepY });
+      }
+    }
+    return centres;
+  }
+
+  const left = margin + extent.width / 2;
+  const right = pageWidth - margin - extent.width / 2;
+  const top = margin + extent.height / 2;
+  const bottom = pageHeight - margin - extent.height / 2;
+  switch (anchor) {
+    case "topLeft":
+      return [{ x: left, y: top }];
+    case "topRight":
+      return [{ x: right, y: top }];
+    case "bottomLeft":
+      return [{ x: left, y: bottom }];
+    case "bottomRight":
+      return [{ x: right, y: bottom }];
+    default:
+      return [{ x: pageWidth / 2, y: pageHeight / 2 }];
+  }
+}
+
+function stampPage(
+  doc: PDFDocument,
+  page: PDFPage,
+  createStamp: (pageWidth: number) => Stamp,
+  options: PdfWatermarkOptions,
+  rotation: number
+) {
+  const displayed = getDisplayedPage(page);
+  const stamp = createStamp(displayed.width);
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const extent = {
+    width: Math.abs(stamp.width * cos) + Math.abs(stamp.height * sin),
+    height: Math.abs(stamp.width * sin) + Math.abs(stamp.height * cos),
+  };
+  const centres = getStampCentres(
+    displayed.width,
+    displayed.height,
+    extent,
+    options.anchor ?? WATERMARK_DEFAULTS.anchor,
+    options.margin ?? WATERMARK_DEFAULTS.margin,
+    options.tile ?? false
+  );
+
+  isolatePageContent(doc, page);
+  for (const centre of centres) {
+    // The corner the stamp is drawn from, found by rotating the offset from
+    // its centre. Displayed y points down, so the rotation's y is flipped.
+    const dx = stamp.width / 2;
+    const dy = stamp.height / 2;
+    const [x, y] = displayed.toPageSpace(
+      centre.x - (dx * cos - dy * sin),
+      centre.y + (dx * sin + dy * cos)
+    );
+    stamp.draw(page, x, y, displayed.rotation + rotation);
+  }
+  if (options.behindContent) {
+    moveDrawingBehindContent(page);
+  }
+}
+
+export async function watermarkPdf(
+  pdfBuffer: Buffer,
+  options: PdfWatermarkOptions,
+  image?: NormalizedImage
+): Promise<Buffer> {
+  const doc = await PDFDocument.load(pdfBuffer);
+  // A page listed twice is watermarked once, or the stamps would pile up
+  const pageIndices = options.pages?.trim()
+    ? [...new Set(selectPages(options.pages, doc.getPageCount()))].sort((a, b) => a - b)
+    : doc.getPageIndices();
+  const opacity = checkRange("watermark opacity", options.opacity ?? WATERMARK_DEFAULTS.opacity, 0, 1);
+  const rotation = checkRange("watermark rotation", options.rotation ?? WATERMARK_DEFAULTS.rotation, -360, 360);
+  checkRange("watermark spacing", options.margin ?? WATERMARK_DEFAULTS.margin, 0, 500);
+  if (options.anchor && !(options.anchor in WATERMARK_ANCHORS)) {
+    throw new Error(`Unknown watermark position: ${options.anchor}`);
+  }
+
+  let createStamp: (pageWidth: number) => Stamp;
+  if (options.type === "image") {
+    if (!image) {
+      throw new Error("Upload an image to use as the watermark");
+    }
+    const embedded = image.contentType === 'image/jpeg' ? await doc.embedJpg(image.data) : await doc.embedPng(image.data);
+    const scale = checkRange("watermark image size", options.imageScale ?? WATERMARK_DEFAULTS.imageScale, 0.01, 1);
+    createStamp = (pageWidth) => createImageStamp(embedded, pageWidth * scale, opacity);
+  } else {
+    const text = (options.text ?? WATERMARK_DEFAULTS.text).replace(/\s+/g, ' ').trim();
+    if (!text) {
+      throw new Error("Enter the text of the watermark");
+    }
+    const fontName = options.font ?? WATERMARK_DEFAULTS.font;
+    if (!(fontName in WATERMARK_FONTS)) {
+      throw new Error(`Unknown watermark font: ${fontName}`);
+    }
+    const font = await doc.embedFont(STANDARD_FONTS[fontName]);
+    const size = checkRange("watermark font size", options.fontSize ?? WATERMARK_DEFAULTS.fontSize, 4, 400);
+    try {
+      font.encodeText(text);
+    } catch {
+      throw new Error("The watermark text contains characters the standard PDF fonts cannot show");
+    }
+    const stamp = createTextStamp(text, font, size, options, opacity);
+    createStamp = () => stamp;
+  }
+
+  for (const index of pageIndices) {
+    stampPage(doc, doc.getPage(index), createStamp, options, rotation);
+  }
+
+  console.log(`Watermarked ${pageIndices.length} of ${doc.getPageCount()} pages`);
+  return Buffer.from(await doc.save());
+}
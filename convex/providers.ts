@@ -0,0 +1,249 @@
+"use node";
+
+// Conversion backends. Every provider implements the same operations so the
+// converters in conversion.ts do not need to know which one is configured:
+//
+//   CONVERSION_PROVIDER=cloudmersive  remote API (needs CLOUDMERSIVE_API_KEY)
+//   CONVERSION_PROVIDER=local         pdf-lib / docx, no network
+//   CONVERSION_PROVIDER=mock          canned output for development and tests
+//
+// Without CONVERSION_PROVIDER, Cloudmersive is used when an API key is set and
+// the local provider otherwise. CLOUDMERSIVE_BASE_URL points the Cloudmersive
+// provider at another host, such as scripts/mock-cloudmersive.mjs.
+//
+// imageToPdf only turns each image into a page of the provider's choosing;
+// imageToPdf.ts lays the pages out itself and calls it for its Cloudmersive
+// strategy.
+
+import { PDFDocument as PDFLib, StandardFonts } from 'pdf-lib';
+import { Document, Packer, Paragraph } from 'docx';
+import { ConversionEngine } from "./schema";
+import { convertPdfToDocxLocally } from "./localPdfToDocx";
+import { POINTS_PER_PIXEL } from "./imageLayout";
+
+export type SourceImage = {
+  data: Buffer;
+  contentType: string;
+};
+
+export interface ConversionProvider {
+  name: ConversionEngine;
+  pdfToDocx(pdf: Buffer): Promise<Buffer>;
+  // One page per image, in the order given
+  imageToPdf(images: SourceImage[]): Promise<Buffer>;
+  mergePdfs(pdfs: Buffer[]): Promise<Buffer>;
+}
+
+const DEFAULT_CLOUDMERSIVE_BASE_URL = 'https://api.cloudmersive.com';
+// Cloudmersive's multi-merge endpoint takes at most this many files per call
+const CLOUDMERSIVE_MERGE_BATCH = 10;
+
+type CloudmersiveSettings = {
+  apiKey: string;
+  baseUrl: string;
+};
+
+// Each call carries its own key and host instead of configuring the SDK's
+// shared ApiClient.instance
+async function postToCloudmersive(
+  settings: CloudmersiveSettings,
+  path: string,
+  files: Record<string, { data: Buffer; contentType: string }>
+): Promise<Buffer> {
+  const form = new FormData();
+  for (const [field, file] of Object.entries(files)) {
+    form.append(field, new Blob([file.data], { type: file.contentType }), field);
+  }
+
+  const response = await fetch(`${settings.baseUrl.replace(/\/$/, '')}${path}`, {
+    method: 'POST',
+    headers: { 'Apikey': settings.apiKey },
+    body: form,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Cloudmersive API error: ${response.status} ${response.statusText}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export function createCloudmersiveProvider(apiKey: string, baseUrl = DEFAULT_CLOUDMERSIVE_BASE_URL): ConversionProvider {
+  const post = (path: string, files: Record<string, { data: Buffer; contentType: string }>) =>
+    postToCloudmersive({ apiKey, baseUrl }, path, files);
+
+  async function mergePdfs(pdfs: Buffer[]): Promise<Buffer> {
+    if (pdfs.length === 1) {
+      return pdfs[0];
+    }
+
+    // Merge in batches, carrying the running result into the next call
+    let merged = pdfs[0];
+    for (let i = 1; i < pdfs.length; i += CLOUDMERSIVE_MERGE_BATCH - 1) {
+      const batch = [merged, ...pdfs.slice(i, i + CLOUDMERSIVE_MERGE_BATCH - 1)];
+      console.log(`Merging ${batch.length} PDFs with Cloudmersive`);
+
+      const files: Record<string, { data: Buffer; contentType: string }> = {};
+      batch.forEach((data, index) => {
+        files[`inputFile${index + 1}`] = { data, contentType: 'application/pdf' };
+      });
+      merged = await post('/convert/merge/pdf/multi', files);
+    }
+    return merged;
+  }
+
+  return {
+    name: "cloudmersive",
+
+    async pdfToDocx(pdf) {
+      return await post('/convert/pdf/to/docx', {
+        inputFile: { data: pdf, contentType: 'application/pdf' },
+      });
+    },
+
+    async imageToPdf(images) {
+      const pages: Buffer[] = [];
+      for (let i = 0; i < images.length; i++) {
+        console.log(`Converting image ${i + 1}/${images.length} to PDF with Cloudmersive`);
+        pages.push(await post('/convert/autodetect/to/pdf', { inputFile: images[i] }));
+      }
+      return await mergePdfs(pages);
+    },
+
+    mergePdfs,
+  };
+}
+
+export const localProvider: ConversionProvider = {
+  name: "local",
+
+  async pdfToDocx(pdf) {
+    return await convertPdfToDocxLocally(pdf);
+  },
+
+  // Pages the size of the images at 96 DPI; only JPEG and PNG can be embedded
+  async imageToPdf(images) {
+    const pdfDoc = await PDFLib.create();
+    for (let i = 0; i < images.length; i++) {
+      const { data, contentType } = images[i];
+      if (contentType !== 'image/jpeg' && contentType !== 'image/png') {
+        throw new Error(`Image ${i + 1} is not a JPEG or PNG (${contentType})`);
+      }
+      const image = contentType === 'image/jpeg' ? await pdfDoc.embedJpg(data) : await pdfDoc.embedPng(data);
+      const width = image.width * POINTS_PER_PIXEL;
+      const height = image.height * POINTS_PER_PIXEL;
+      pdfDoc.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+    }
+    return Buffer.from(await pdfDoc.save());
+  },
+
+  async mergePdfs(pdfs) {
+    const mergedPdf = await PDFLib.create();
+
+    // Inputs are checked before merging, so a file that still fails to load
+    // is an error rather than something to leave out quietly
+    for (let i = 0; i < pdfs.length; i++) {
+      console.log(`Processing PDF ${i + 1}/${pdfs.length}`);
+      const pdf = await PDFLib.load(pdfs[i]);
+      const pages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
+      for (const page of pages) {
+        mergedPdf.addPage(page);
+      }
+      console.log(`Added ${pages.length} pages from PDF ${i + 1}`);
+    }
+
+    return Buffer.from(await mergedPdf.save());
+  },
+};
+
+// Produces placeholder documents without reading the inputs' content, so
+// the job flow and UI can be exercised without any conversion backend
+export const mockProvider: ConversionProvider = {
+  name: "mock",
+
+  async pdfToDocx(pdf) {
+    const document = new Document({
+      sections: [{
+        children: [
+          new Paragraph({ text: 'Mock conversion' }),
+          new Paragraph({ text: `Source PDF: ${pdf.length} bytes` }),
+        ],
+      }],
+    });
+    return await Packer.toBuffer(document);
+  },
+
+  async imageToPdf(images) {
+    return await createLabelledPdf(
+      images.map((image, index) => `Mock image ${index + 1} (${image.contentType}, ${image.data.length} bytes)`)
+    );
+  },
+
+  async mergePdfs(pdfs) {
+    return await createLabelledPdf(
+      pdfs.map((pdf, index) => `Mock merged PDF ${index + 1} (${pdf.length} bytes)`)
+    );
+  },
+};
+
+async function createLabelledPdf(labels: string[]): Promise<Buffer> {
+  const pdfDoc = await PDFLib.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (const label of labels) {
+    const page = pdfDoc.addPage([595, 842]);
+    page.drawText(label, { x: 50, y: 780, size: 14, font });
+  }
+  return Buffer.from(await pdfDoc.save());
+}
+
+// Key and host of the Cloudmersive provider when it is the configured one
+function getCloudmersiveSettings(): CloudmersiveSettings | null {
+  const configured = process.env.CONVERSION_PROVIDER;
+  const apiKey = process.env.CLOUDMERSIVE_API_KEY;
+  if (!apiKey || (configured && configured !== 'cloudmersive')) {
+    return null;
+  }
+  return { apiKey, baseUrl: process.env.CLOUDMERSIVE_BASE_URL || DEFAULT_CLOUDMERSIVE_BASE_URL };
+}
+
+export function getConversionProvider(): ConversionProvider {
+  const configured = process.env.CONVERSION_PROVIDER;
+
+  switch (configured) {
+    case 'mock':
+      return mockProvider;
+    case 'local':
+      return localProvider;
+    case 'cloudmersive':
+    case undefined:
+    case '': {
+      const settings = getCloudmersiveSettings();
+      if (settings) {
+        return createCloudmersiveProvider(settings.apiKey, settings.baseUrl);
+      }
+      if (configured) {
+        console.warn("CONVERSION_PROVIDER is cloudmersive but CLOUDMERSIVE_API_KEY is not set, using local provider");
+      }
+      return localProvider;
+    }
+    default:
+      throw new Error(`Unknown CONVERSION_PROVIDER: ${configured}`);
+  }
+}
+
+// Runs an operation on the configured provider, retrying it on the local
+// provider when a remote provider fails
+export async function withConversionProvider<T>(
+  operation: (provider: ConversionProvider) => Promise<T>
+): Promise<{ result: T; engine: ConversionEngine }> {
+  const provider = getConversionProvider();
+  try {
+    return { result: await operation(provider), engine: provider.name };
+  } catch (error) {
+    if (provider.name !== "cloudmersive") {
+      throw error;
+    }
+    console.error("Cloudmersive conversion failed, using local provider:", error);
+    return { result: await operation(localProvider), engine: localProvider.name };
+  }
+}
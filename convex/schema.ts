@@ -1,24 +1,87 @@
 import { defineSchema, defineTable } from "convex/server";
-import { v } from "convex/values";
+import { v, Infer } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { ConversionType, JobPasswords } from "./converters";
 
-// Define our conversion types explicitly for consistency 
-export const ConversionType = v.union(
-  v.literal("pdf_to_word"),
-  v.literal("image_to_pdf"),
-  v.literal("pdf_merger")
+export const ConversionStatus = v.union(
+  v.literal("pending"),
+  v.literal("processing"),
+  v.literal("completed"),
+  // An output was produced, but with problems (see warnings), e.g. skipped
+  // inputs (see sourceResults)
+  v.literal("completed_with_warnings"),
+  v.literal("failed")
 );
 
+export type ConversionStatus = Infer<typeof ConversionStatus>;
+
+// Backend that produced a conversion's output
+export const ConversionEngine = v.union(
+  v.literal("cloudmersive"),
+  v.literal("local"),
+  v.literal("mock")
+);
+
+export type ConversionEngine = Infer<typeof ConversionEngine>;
+
+// One of several files produced by a converter, e.g. a part of a split PDF
+export const ConversionOutput = v.object({
+  fileId: v.id("_storage"),
+  fileName: v.string(),
+  // Pages of the source the file was built from, e.g. "1-3"
+  pages: v.optional(v.string()),
+});
+
+export type ConversionOutput = Infer<typeof ConversionOutput>;
+
+// What a converter found when reading one of its inputs
+export const SourceResult = v.object({
+  fileId: v.id("_storage"),
+  fileName: v.optional(v.string()),
+  status: v.union(
+    v.literal("ok"),
+    v.literal("encrypted"),
+    v.literal("corrupt"),
+    v.literal("empty")
+  ),
+  error: v.optional(v.string()),
+});
+
+export type SourceResult = Infer<typeof SourceResult>;
+
+// How sure the OCR engine was of one page it read
+export const PageConfidence = v.object({
+  // 1-based page (or TIFF frame) number
+  page: v.number(),
+  // Mean confidence of the page's words, 0-100
+  confidence: v.number(),
+  words: v.number(),
+});
+
+export type PageConfidence = Infer<typeof PageConfidence>;
+
+// Why a job failed when the error message alone does not say enough
+export const FailureReason = v.object({
+  code: v.union(
+    // Some inputs could not be decoded at all (see sourceResults)
+    v.literal("unreadable_input"),
+    // The inputs were fine, but no backend produced an output
+    v.literal("all_engines_failed")
+  ),
+  // Each backend that was tried, in order, and what went wrong
+  attempts: v.array(v.object({
+    engine: v.string(),
+    error: v.string(),
+  })),
+});
+
+export type FailureReason = Infer<typeof FailureReason>;
+
 export default defineSchema({
   ...authTables,
   conversions: defineTable({
     userId: v.string(),
-    status: v.union(
-      v.literal("pending"),
-      v.literal("processing"),
-      v.literal("completed"),
-      v.literal("failed")
-    ),
+    status: ConversionStatus,
     type: ConversionType,
     pdfFileId: v.optional(v.id("_storage")),
     docxFileId: v.optional(v.id("_storage")),
@@ -28,10 +91,39 @@ export default defineSchema({
     updatedAt: v.number(),
     expiresAt: v.number(),
     sourceFileIds: v.optional(v.array(v.id("_storage"))),
+    // Converter-specific settings passed to startJob
+    options: v.optional(v.any()),
+    // Result of the converter, whatever its output type
+    outputFileId: v.optional(v.id("_storage")),
+    // Individual files for converters with several outputs; outputFileId
+    // then holds an archive of all of them
+    outputs: v.optional(v.array(ConversionOutput)),
+    engine: v.optional(ConversionEngine),
+    // Which of the converter's ordered strategies produced the output, for
+    // converters that try several (image_to_pdf: pdfkit, pdf-lib, ...)
+    strategy: v.optional(v.string()),
+    // Per-input outcome for converters that can skip unreadable inputs
+    sourceResults: v.optional(v.array(SourceResult)),
+    failureReason: v.optional(FailureReason),
+    // Problems that did not stop the conversion, for completed_with_warnings
+    warnings: v.optional(v.array(v.string())),
+    // Per-page OCR confidence, for the pages ocr recognized
+    pageConfidence: v.optional(v.array(PageConfidence)),
+    // Byte sizes before and after, for converters that shrink their input
+    inputSize: v.optional(v.number()),
+    outputSize: v.optional(v.number()),
     completedAt: v.optional(v.number())
   })
   .index("by_user", ["userId"])
   .index("by_user_and_type", ["userId", "type"]),
+
+  // Passwords of a protecting job until its action has read them, see
+  // splitPasswords
+  jobPasswords: defineTable({
+    conversionId: v.id("conversions"),
+    passwords: JobPasswords,
+  })
+  .index("by_conversion", ["conversionId"]),
   
   imageUploads: defineTable({
     userId: v.string(),
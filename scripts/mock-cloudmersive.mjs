@@ -0,0 +1,123 @@
+// Local stand-in for the Cloudmersive endpoints used by convex/providers.ts.
+// It answers with real (if simplified) documents so the remote provider can be
+// exercised end-to-end without network access:
+//
+//   npm run mock:cloudmersive
+//   npx convex env set CLOUDMERSIVE_BASE_URL http://localhost:8787
+//   npx convex env set CLOUDMERSIVE_API_KEY any-value
+//
+// Any non-empty Apikey header is accepted. Set MOCK_CLOUDMERSIVE_FAIL=1 to
+// answer every request with a 500 and exercise the local fallback instead.
+
+import http from 'node:http';
+import { Readable } from 'node:stream';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { Document, Packer, Paragraph, HeadingLevel } from 'docx';
+
+const PORT = Number(process.env.MOCK_CLOUDMERSIVE_PORT || 8787);
+
+async function readForm(req) {
+  const request = new Request(`http://localhost${req.url}`, {
+    method: req.method,
+    headers: req.headers,
+    body: Readable.toWeb(req),
+    duplex: 'half',
+  });
+  return await request.formData();
+}
+
+async function fileBytes(form, field) {
+  const file = form.get(field);
+  if (!file || typeof file === 'string') {
+    return null;
+  }
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+async function pdfToDocx(form) {
+  const input = await fileBytes(form, 'inputFile');
+  if (!input) throw Object.assign(new Error('inputFile is required'), { status: 400 });
+
+  const pdf = await PDFDocument.load(input);
+  const document = new Document({
+    sections: [{
+      children: [
+        new Paragraph({ text: 'Converted by mock Cloudmersive', heading: HeadingLevel.HEADING_1 }),
+        new Paragraph({ text: `Source PDF: ${pdf.getPageCount()} pages, ${input.length} bytes` }),
+      ],
+    }],
+  });
+  return { body: await Packer.toBuffer(document), contentType: 'application/octet-stream' };
+}
+
+async function autodetectToPdf(form) {
+  const file = form.get('inputFile');
+  const input = await fileBytes(form, 'inputFile');
+  if (!input) throw Object.assign(new Error('inputFile is required'), { status: 400 });
+
+  if (file.type === 'application/pdf') {
+    return { body: Buffer.from(input), contentType: 'application/octet-stream' };
+  }
+
+  const pdf = await PDFDocument.create();
+  const image = file.type === 'image/png' ? await pdf.embedPng(input) : await pdf.embedJpg(input);
+  const page = pdf.addPage([image.width, image.height]);
+  page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+  return { body: Buffer.from(await pdf.save()), contentType: 'application/octet-stream' };
+}
+
+async function mergePdfs(form) {
+  const merged = await PDFDocument.create();
+  for (let i = 1; i <= 10; i++) {
+    const input = await fileBytes(form, `inputFile${i}`);
+    if (!input) continue;
+    const pdf = await PDFDocument.load(input);
+    const pages = await merged.copyPages(pdf, pdf.getPageIndices());
+    pages.forEach((page) => merged.addPage(page));
+  }
+  if (merged.getPageCount() === 0) {
+    throw Object.assign(new Error('At least one input file is required'), { status: 400 });
+  }
+  return { body: Buffer.from(await merged.save()), contentType: 'application/octet-stream' };
+}
+
+const routes = {
+  '/convert/pdf/to/docx': pdfToDocx,
+  '/convert/autodetect/to/pdf': autodetectToPdf,
+  '/convert/merge/pdf': mergePdfs,
+  '/convert/merge/pdf/multi': mergePdfs,
+};
+
+const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  const path = (req.url || '').split('?')[0];
+  const route = routes[path];
+
+  const send = (status, body, contentType = 'text/plain') => {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+    console.log(`${req.method} ${path} -> ${status} (${Date.now() - started}ms)`);
+  };
+
+  if (req.method !== 'POST' || !route) {
+    return send(404, 'Not found');
+  }
+  if (!req.headers['apikey']) {
+    return send(401, 'Missing Apikey header');
+  }
+  if (process.env.MOCK_CLOUDMERSIVE_FAIL) {
+    return send(500, 'Simulated failure');
+  }
+
+  try {
+    const { body, contentType } = await route(await readForm(req));
+    send(200, body, contentType);
+  } catch (error) {
+    console.error(error);
+    send(error.status || 500, error.message || 'Conversion failed');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Cloudmersive listening on http://localhost:${PORT}`);
+});
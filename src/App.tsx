@@ -7,8 +7,21 @@ import { FileUploader } from "./FileUploader";
 import { ConversionsList } from "./ConversionsList";
 import { ImageToPdfUploader } from "./components/ImageToPdfUploader";
 import { PdfMerger } from "./components/PdfMerger";
+import { PdfSplitter } from "./components/PdfSplitter";
+import { PdfOrganizer } from "./components/PdfOrganizer";
+import { PdfCompressor } from "./components/PdfCompressor";
+import { WordToPdfUploader } from "./components/WordToPdfUploader";
+import { MarkdownToPdfUploader } from "./components/MarkdownToPdfUploader";
+import { HtmlToPdfUploader } from "./components/HtmlToPdfUploader";
+import { PdfToImagesConverter } from "./components/PdfToImagesConverter";
+import { PdfToTextConverter } from "./components/PdfToTextConverter";
+import { OcrConverter } from "./components/OcrConverter";
+import { PdfWatermarker } from "./components/PdfWatermarker";
+import { PdfNumberStamper } from "./components/PdfNumberStamper";
+import { PdfProtector } from "./components/PdfProtector";
 import { useState, useEffect, lazy, Suspense, useCallback, useRef } from "react";
 import WordPressPage from "./components/WordPressPage";
+import { ConverterId, converters } from "../convex/converters";
 
 // Smooth scroll function
 const scrollToElement = (elementId: string, duration: number = 800) => {
@@ -652,6 +665,104 @@ function FeaturesSection() {
   );
 }
 
+// Tool card icons, keyed by converter id
+const toolIcons: Record<ConverterId, React.ReactNode> = {
+  pdf_to_word: (
+    <svg className="w-8 h-8 text-primary-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+  ),
+  word_to_pdf: (
+    <svg className="w-8 h-8 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25M9 12.75l1.5 4.5 1.5-4.5 1.5 4.5 1.5-4.5M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+    </svg>
+  ),
+  markdown_to_pdf: (
+    <svg className="w-8 h-8 text-teal-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75L7.5 15l.75-1.5M12 15.75h3M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+    </svg>
+  ),
+  html_to_pdf: (
+    <svg className="w-8 h-8 text-orange-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17.25 6.75L22.5 12l-5.25 5.25m-10.5 0L1.5 12l5.25-5.25m7.5-3l-4.5 16.5" />
+    </svg>
+  ),
+  image_to_pdf: (
+    <svg className="w-8 h-8 text-secondary-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+    </svg>
+  ),
+  pdf_merger: (
+    <svg className="w-8 h-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+    </svg>
+  ),
+  pdf_split: (
+    <svg className="w-8 h-8 text-amber-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.121 14.121L19 19m-7-7l7-7m-7 7l-2.879 2.879M12 12L9.121 9.121m0 5.758a3 3 0 10-4.243 4.243 3 3 0 004.243-4.243zm0-5.758a3 3 0 10-4.243-4.243 3 3 0 004.243 4.243z" />
+    </svg>
+  ),
+  pdf_organize: (
+    <svg className="w-8 h-8 text-sky-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+    </svg>
+  ),
+  pdf_compress: (
+    <svg className="w-8 h-8 text-rose-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 9V4.5M9 9H4.5M9 9L3.75 3.75M9 15v4.5M9 15H4.5M9 15l-5.25 5.25M15 9h4.5M15 9V4.5M15 9l5.25-5.25M15 15h4.5M15 15v4.5m0-4.5l5.25 5.25" />
+    </svg>
+  ),
+  pdf_to_images: (
+    <svg className="w-8 h-8 text-fuchsia-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+    </svg>
+  ),
+  pdf_to_text: (
+    <svg className="w-8 h-8 text-cyan-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25H12" />
+    </svg>
+  ),
+  ocr: (
+    <svg className="w-8 h-8 text-violet-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m5.231 13.481L15 17.25m-4.5-15H5.625c-.621 0-1.125.504-1.125 1.125v16.5c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9zm3.75 11.625a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
+    </svg>
+  ),
+  pdf_watermark: (
+    <svg className="w-8 h-8 text-pink-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.53 16.122a3 3 0 00-5.78 1.128 2.25 2.25 0 01-2.4 2.245 4.5 4.5 0 008.4-2.245c0-.399-.078-.78-.22-1.128zm0 0a15.998 15.998 0 003.388-1.62m-5.043-.025a15.994 15.994 0 011.622-3.395m3.42 3.42a15.995 15.995 0 004.764-4.648l3.876-5.814a1.151 1.151 0 00-1.597-1.597L14.146 6.32a15.996 15.996 0 00-4.649 4.763m3.42 3.42a6.776 6.776 0 00-3.42-3.42" />
+    </svg>
+  ),
+  pdf_stamp_numbers: (
+    <svg className="w-8 h-8 text-lime-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5.25 8.25h15m-16.5 7.5h15m-1.8-13.5l-3.9 19.5m-2.1-19.5l-3.9 19.5" />
+    </svg>
+  ),
+  pdf_protect: (
+    <svg className="w-8 h-8 text-slate-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+    </svg>
+  ),
+};
+
+// Tool page body, keyed by converter id
+const toolViews: Record<ConverterId, () => React.ReactNode> = {
+  pdf_to_word: () => <FileUploader type="pdf_to_word" />,
+  word_to_pdf: () => <WordToPdfUploader />,
+  markdown_to_pdf: () => <MarkdownToPdfUploader />,
+  html_to_pdf: () => <HtmlToPdfUploader />,
+  image_to_pdf: () => <ImageToPdfUploader />,
+  pdf_merger: () => <PdfMerger />,
+  pdf_split: () => <PdfSplitter />,
+  pdf_organize: () => <PdfOrganizer />,
+  pdf_compress: () => <PdfCompressor />,
+  pdf_to_images: () => <PdfToImagesConverter />,
+  pdf_to_text: () => <PdfToTextConverter />,
+  ocr: () => <OcrConverter />,
+  pdf_watermark: () => <PdfWatermarker />,
+  pdf_stamp_numbers: () => <PdfNumberStamper />,
+  pdf_protect: () => <PdfProtector />,
+};
+
 function Content({ 
   selectedTool, 
   setSelectedTool,
@@ -671,39 +782,12 @@ function Content({
     );
   }
 
-  const tools = [
-    {
-      id: 'pdf-to-word',
-      title: 'PDF to Word Converter',
-      description: 'Convert PDF files to editable Word documents easily',
-      icon: (
-        <svg className="w-8 h-8 text-primary-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-        </svg>
-      )
-    },
-    {
-      id: 'image-to-pdf',
-      title: 'Image to PDF Converter',
-      description: 'Convert your images to PDF format with ease',
-      icon: (
-        <svg className="w-8 h-8 text-secondary-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-        </svg>
-      )
-    },
-    {
-      id: 'pdf-merger',
-      title: 'PDF Merger',
-      description: 'Combine multiple PDF files into a single document',
-      icon: (
-        <svg className="w-8 h-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
-        </svg>
-      )
-    }
-    // More tools will be added here in the future
-  ];
+  const tools = converters.map((converter) => ({
+    id: converter.id,
+    title: converter.title,
+    description: converter.description,
+    icon: toolIcons[converter.id],
+  }));
 
   // If not selected tool and authenticated, show landing page
   if (!selectedTool && loggedInUser) {
@@ -849,63 +933,26 @@ function Content({
   }
 
   // Show selected tool
-  if (selectedTool === 'pdf-to-word') {
+  const selectedConverter = converters.find((converter) => converter.id === selectedTool);
+  if (selectedConverter) {
     return (
       <div className="flex flex-col gap-4 p-4 md:p-8">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-2xl font-semibold gradient-text">PDF to Word Converter</h3>
+          <h3 className="text-2xl font-semibold gradient-text">{selectedConverter.title}</h3>
           <BackToToolsButton onClick={handleBackToTools} />
-            </div>
-          <FileUploader type="pdf_to_word" />
-          {/* Mobile Back Button */}
-          <div className="fixed bottom-4 right-4 left-4 md:hidden z-20">
-          <button onClick={handleBackToTools} className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2 font-medium">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
-              </svg>
-              Return to Tools
-            </button>
-          </div>
         </div>
-    );
-  } else if (selectedTool === 'image-to-pdf') {
-    return (
-      <div className="flex flex-col gap-4 p-4 md:p-8">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-2xl font-semibold gradient-text">Image to PDF Converter</h3>
-              <BackToToolsButton onClick={handleBackToTools} />
-            </div>
-            <ImageToPdfUploader />
-            {/* Mobile Back Button */}
-            <div className="fixed bottom-4 right-4 left-4 md:hidden z-20">
+        {toolViews[selectedConverter.id]()}
+        {/* Mobile Back Button */}
+        <div className="fixed bottom-4 right-4 left-4 md:hidden z-20">
           <button onClick={handleBackToTools} className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2 font-medium">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
-                </svg>
-                Return to Tools
-              </button>
-            </div>
-          </div>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Return to Tools
+          </button>
+        </div>
+      </div>
     );
-  } else if (selectedTool === 'pdf-merger') {
-    return (
-      <div className="flex flex-col gap-4 p-4 md:p-8">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-2xl font-semibold gradient-text">PDF Merger</h3>
-              <BackToToolsButton onClick={handleBackToTools} />
-            </div>
-            <PdfMerger />
-            {/* Mobile Back Button */}
-            <div className="fixed bottom-4 right-4 left-4 md:hidden z-20">
-          <button onClick={handleBackToTools} className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2 font-medium">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
-                </svg>
-                Return to Tools
-              </button>
-            </div>
-    </div>
-  );
   }
 
   // Default case (should never happen but TypeScript needs it)
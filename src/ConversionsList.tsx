@@ -1,12 +1,32 @@
 import { useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
 import { api } from "../convex/_generated/api";
 import { toast } from "sonner";
 import { useEffect, useState } from "react";
+import { ConverterId } from "../convex/converters";
+import {
+  OutputFile,
+  describeFailedAttempts,
+  describePageConfidence,
+  describeSizeChange,
+  describeSkippedSources,
+  describeSources,
+  formatStatus,
+  getOutputFileName,
+  getOutputUrl,
+  isImageOutput,
+} from "./lib/converters";
 
-type ConversionType = "pdf_to_word" | "image_to_pdf" | "pdf_merger";
+const ENGINE_LABELS: Record<string, string> = {
+  cloudmersive: "Cloudmersive",
+  local: "built-in engine",
+  mock: "mock provider",
+};
+
+type Conversion = FunctionReturnType<typeof api.files.listConversions>[number];
 
 interface ConversionsListProps {
-  type: ConversionType;
+  type: ConverterId;
   title?: string;
 }
 
@@ -52,19 +72,24 @@ export function ConversionsList({ type, title = "Recent Conversions" }: Conversi
   );
 }
 
-function ConversionItem({ conversion }: { 
-  conversion: any & { docxUrl: string | null, pdfUrl?: string | null } 
-}) {
+function ConversionItem({ conversion }: { conversion: Conversion }) {
   // Determine status color
   let statusColor = "bg-yellow-100 text-yellow-800";
-  let displayStatus = conversion.status;
+  let displayStatus = formatStatus(conversion.status);
   
   // Treat conversions as completed if they have a URL, even if status says failed
-  const hasDownloadableResult = 
-    (conversion.type === "pdf_to_word" && conversion.docxUrl) || 
-    ((conversion.type === "image_to_pdf" || conversion.type === "pdf_merger") && conversion.pdfUrl);
+  const downloadUrl = getOutputUrl(conversion);
+  const hasDownloadableResult = Boolean(downloadUrl);
+  // Converters with several outputs also list each file on its own
+  const outputFiles: OutputFile[] = conversion.outputFiles ?? [];
+  const skippedSources = describeSkippedSources(conversion.sourceResults);
+  const failedAttempts = describeFailedAttempts(conversion.failureReason);
+  const sizeChange = describeSizeChange(conversion);
+  const pageConfidence = describePageConfidence(conversion);
   
-  if (hasDownloadableResult) {
+  if (conversion.status === "completed_with_warnings") {
+    statusColor = "bg-amber-100 text-amber-800";
+  } else if (hasDownloadableResult) {
     statusColor = "bg-green-100 text-green-800";
     // If status is failed but we have a URL, show "completed" instead
     if (conversion.status === "failed") {
@@ -75,14 +100,12 @@ function ConversionItem({ conversion }: {
   }
 
   async function handleDownload() {
-    if (!conversion.docxUrl && !conversion.pdfUrl) {
+    if (!downloadUrl) {
       toast.error("Download URL not available");
       return;
     }
 
     try {
-      const downloadUrl = conversion.type === "pdf_to_word" ? conversion.docxUrl! : conversion.pdfUrl!;
-      
       // Show download toast
       const toastId = toast.loading("Preparing download...");
       
@@ -102,17 +125,8 @@ function ConversionItem({ conversion }: {
       const link = document.createElement('a');
       link.href = blobUrl;
       
-      // Set the filename
-      let fileName = conversion.fileName;
-      
-      // Make sure the file has the correct extension
-      if (conversion.type === "pdf_to_word" && !fileName.toLowerCase().endsWith('.docx')) {
-        fileName = fileName.replace(/\.[^.]+$/, '') + '.docx';
-      } else if ((conversion.type === "image_to_pdf" || conversion.type === "pdf_merger") && !fileName.toLowerCase().endsWith('.pdf')) {
-        fileName = fileName.replace(/\.[^.]+$/, '') + '.pdf';
-      }
-      
-      link.download = fileName;
+      // Set the filename, with the extension of the converter's output
+      link.download = getOutputFileName(conversion);
       
       // Trigger the download
       document.body.appendChild(link);
@@ -137,24 +151,107 @@ function ConversionItem({ conversion }: {
           <span className={`inline-block px-2 py-1 rounded-full text-xs ${statusColor}`}>
             {displayStatus}
           </span>
+          {conversion.engine && (
+            <span className="ml-2 text-xs text-gray-500">
+              via {ENGINE_LABELS[conversion.engine] ?? conversion.engine}
+              {conversion.strategy && conversion.strategy !== conversion.engine && ` (${conversion.strategy})`}
+            </span>
+          )}
           {conversion.sourceFileIds && conversion.sourceFileIds.length > 0 && (
             <span className="ml-2 text-xs text-gray-500">
-              {conversion.type === "pdf_merger" ? 
-                `${conversion.sourceFileIds.length} PDF${conversion.sourceFileIds.length !== 1 ? 's' : ''}` :
-                `${conversion.sourceFileIds.length} image${conversion.sourceFileIds.length !== 1 ? 's' : ''}`
-              }
+              {describeSources(conversion.type, conversion.sourceFileIds.length)}
             </span>
           )}
+          {sizeChange && (
+            <p className="text-xs text-gray-500 mt-1">{sizeChange}</p>
+          )}
+          {pageConfidence && (
+            <p className="text-xs text-gray-500 mt-1">{pageConfidence}</p>
+          )}
         </div>
         {hasDownloadableResult && (
           <button
             onClick={handleDownload}
             className="bg-indigo-500 text-white px-4 py-2 rounded hover:bg-indigo-600"
           >
-            Download
+            {outputFiles.length > 0 ? "Download all" : "Download"}
           </button>
         )}
       </div>
+      {skippedSources.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-md p-3">
+          <h4 className="text-sm font-medium text-amber-800 mb-1">
+            {conversion.status === "failed" ? "Files that could not be read" : "Skipped files"}
+          </h4>
+          <ul className="text-xs text-amber-700 space-y-0.5">
+            {skippedSources.map((description) => (
+              <li key={description}>{description}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {conversion.warnings && conversion.warnings.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-md p-3">
+          <h4 className="text-sm font-medium text-amber-800 mb-1">Warnings</h4>
+          <ul className="text-xs text-amber-700 space-y-0.5">
+            {conversion.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {conversion.status === "failed" && !hasDownloadableResult && failedAttempts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <h4 className="text-sm font-medium text-red-800 mb-1">Every conversion method failed</h4>
+          <ul className="text-xs text-red-700 space-y-0.5">
+            {failedAttempts.map((description) => (
+              <li key={description}>{description}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {outputFiles.length > 0 && outputFiles.every(isImageOutput) ? (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">{outputFiles.length} images</h4>
+          <div className="flex flex-wrap gap-3">
+            {outputFiles.map((output) => output.url && (
+              <a
+                key={output.fileName}
+                href={output.url}
+                download={output.fileName}
+                title={output.fileName}
+                className="group text-center"
+              >
+                <img
+                  src={output.url}
+                  alt={output.fileName}
+                  loading="lazy"
+                  className="h-24 w-auto max-w-[8rem] object-contain bg-white border border-gray-200 rounded shadow-sm group-hover:border-indigo-400"
+                />
+                <span className="block mt-1 text-xs text-gray-600">
+                  {output.pages ? `Page ${output.pages}` : output.fileName}
+                </span>
+              </a>
+            ))}
+          </div>
+        </div>
+      ) : outputFiles.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">{outputFiles.length} files</h4>
+          <div className="flex flex-wrap gap-2">
+            {outputFiles.map((output) => output.url && (
+              <a
+                key={output.fileName}
+                href={output.url}
+                download={output.fileName}
+                className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full text-xs hover:bg-gray-200"
+              >
+                {output.pages ? `Pages ${output.pages}` : output.fileName}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
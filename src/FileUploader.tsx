@@ -3,15 +3,18 @@ import { useMutation, useConvex, useQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
 import { toast } from "sonner";
 import { ConversionsList } from "./ConversionsList";
+import { ConverterId, acceptsMimeType, getConverter } from "../convex/converters";
+import { getAcceptAttribute } from "./lib/converters";
 
 interface FileUploaderProps {
-  type: "pdf_to_word" | "image_to_pdf";
+  type: ConverterId;
 }
 
 export function FileUploader({ type }: FileUploaderProps) {
   const convex = useConvex();
   const generateUploadUrl = useMutation(api.files.generateUploadUrl);
-  const startConversion = useMutation(api.files.startConversion);
+  const startJob = useMutation(api.files.startJob);
+  const converter = getConverter(type);
   const fileInput = useRef<HTMLInputElement>(null);
   const activeToastId = useRef<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -44,10 +47,10 @@ export function FileUploader({ type }: FileUploaderProps) {
           conversionId: lastConvertedFile.conversionId 
         });
         
-        if (conversion && conversion.status === "completed" && conversion.docxUrl) {
+        if (conversion && conversion.status === "completed" && conversion.outputUrl) {
           setLastConvertedFile(prev => ({
             ...prev,
-            url: conversion.docxUrl
+            url: conversion.outputUrl
           }));
           
           // Update toast if one is active
@@ -106,12 +109,12 @@ export function FileUploader({ type }: FileUploaderProps) {
   }, [lastConvertedFile]);
 
   async function handleFileUpload(file: File) {
-    if (!file.name.toLowerCase().endsWith('.pdf')) {
+    if (!acceptsMimeType(converter, file.type)) {
       toast.error('Please upload a PDF file');
       return;
     }
-    if (file.size > 50 * 1024 * 1024) {
-      toast.error('File size must be less than 50MB');
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
       return;
     }
 
@@ -144,8 +147,9 @@ export function FileUploader({ type }: FileUploaderProps) {
       toast.loading('Starting conversion...', { id: progressToastId });
       
       // Start the conversion
-      const conversionId = await startConversion({ 
-        pdfFileId: storageId,
+      const conversionId = await startJob({ 
+        type,
+        sourceFileIds: [storageId],
         fileName: file.name
       });
       
@@ -170,11 +174,11 @@ export function FileUploader({ type }: FileUploaderProps) {
         conversionId: conversionId 
       });
       
-      if (conversion && conversion.status === "completed" && conversion.docxUrl) {
+      if (conversion && conversion.status === "completed" && conversion.outputUrl) {
         // Conversion completed quickly
         setLastConvertedFile(prev => ({
           ...prev,
-          url: conversion.docxUrl
+          url: conversion.outputUrl
         }));
         toast.success('PDF converted to Word successfully!', { id: progressToastId });
       } else {
@@ -288,7 +292,7 @@ export function FileUploader({ type }: FileUploaderProps) {
           <input
             ref={fileInput}
             type="file"
-            accept=".pdf"
+            accept={getAcceptAttribute(type)}
             onChange={handleChange}
             className="hidden"
           />
@@ -332,7 +336,7 @@ export function FileUploader({ type }: FileUploaderProps) {
                   d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
                 />
               </svg>
-              <span>Max size: 50MB</span>
+              <span>Max size: {converter.maxFileSizeMb}MB</span>
             </div>
           </div>
         </div>
@@ -1,17 +1,35 @@
 import { useState, useEffect } from "react";
-
-type ConversionType = "pdf_to_word" | "image_to_pdf" | "pdf_merger";
+import { ConverterId } from "../../convex/converters";
+import {
+  FailureReasonSummary,
+  OutputFile,
+  SourceResultSummary,
+  describeFailedAttempts,
+  describeSizeChange,
+  describeSkippedSources,
+  describeSources,
+  getOutputUrl,
+  getSourceNoun,
+  getTypeLabel,
+  isCompletedStatus,
+} from "../lib/converters";
 
 type Conversion = {
   _id: string;
   _creationTime: number;
-  status: "pending" | "processing" | "completed" | "failed";
-  type: ConversionType;
+  status: "pending" | "processing" | "completed" | "completed_with_warnings" | "failed";
+  type: ConverterId;
   fileName: string;
   pdfUrl?: string | null;
   docxUrl?: string | null;
+  outputUrl?: string | null;
+  outputFiles?: OutputFile[];
   sourceUrls?: string[];
   sourceFileIds?: string[];
+  sourceResults?: SourceResultSummary[];
+  failureReason?: FailureReasonSummary;
+  inputSize?: number;
+  outputSize?: number;
   error?: string;
 };
 
@@ -43,6 +61,8 @@ export function ConversionsList({
     switch (status) {
       case "completed":
         return <span className="px-2 py-1 text-xs bg-green-100 text-green-800 rounded-full">Completed</span>;
+      case "completed_with_warnings":
+        return <span className="px-2 py-1 text-xs bg-amber-100 text-amber-800 rounded-full">Completed with warnings</span>;
       case "processing":
         return <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full">Processing</span>;
       case "pending":
@@ -54,28 +74,6 @@ export function ConversionsList({
     }
   }
 
-  function getTypeLabel(type: ConversionType) {
-    switch (type) {
-      case "pdf_to_word":
-        return "PDF to Word";
-      case "image_to_pdf":
-        return "Image to PDF";
-      case "pdf_merger":
-        return "PDF Merger";
-      default:
-        return type;
-    }
-  }
-
-  function getDownloadUrl(conversion: Conversion): string | null {
-    if (conversion.type === "pdf_to_word" && conversion.docxUrl) {
-      return conversion.docxUrl;
-    } else if ((conversion.type === "image_to_pdf" || conversion.type === "pdf_merger") && conversion.pdfUrl) {
-      return conversion.pdfUrl;
-    }
-    return null;
-  }
-
   if (!Array.isArray(conversions) || sortedConversions.length === 0) {
     return (
       <div className="bg-gray-50 rounded-lg p-6 text-center text-gray-500">
@@ -98,22 +96,22 @@ export function ConversionsList({
                 </span>
                 {conversion.sourceFileIds && (
                   <span className="text-xs text-gray-500">
-                    {conversion.type === "pdf_merger" 
-                      ? `${conversion.sourceFileIds.length} PDF${conversion.sourceFileIds.length !== 1 ? 's' : ''}`
-                      : `${conversion.sourceFileIds.length} file${conversion.sourceFileIds.length !== 1 ? 's' : ''}`
-                    }
+                    {describeSources(conversion.type, conversion.sourceFileIds.length)}
                   </span>
                 )}
               </div>
+              {describeSizeChange(conversion) && (
+                <p className="text-xs text-gray-500 mt-1">{describeSizeChange(conversion)}</p>
+              )}
             </div>
             
             <div className="flex gap-2">
-              {conversion.status === "completed" && (
+              {isCompletedStatus(conversion.status) && (
                 <>
-                  {getDownloadUrl(conversion) && (
+                  {getOutputUrl(conversion) && (
                     <>
                       <a 
-                        href={getDownloadUrl(conversion)!} 
+                        href={getOutputUrl(conversion)!} 
                         target="_blank" 
                         rel="noopener noreferrer"
                         className="text-indigo-500 border border-indigo-500 px-3 py-1 rounded text-sm hover:bg-indigo-50"
@@ -121,7 +119,7 @@ export function ConversionsList({
                         View
                       </a>
                       <a 
-                        href={getDownloadUrl(conversion)!} 
+                        href={getOutputUrl(conversion)!} 
                         download={conversion.fileName}
                         className="bg-indigo-500 text-white px-3 py-1 rounded text-sm hover:bg-indigo-600"
                       >
@@ -137,10 +135,46 @@ export function ConversionsList({
                   Error: {conversion.error}
                 </div>
               )}
+              {conversion.status === "failed" && describeFailedAttempts(conversion.failureReason).length > 0 && (
+                <ul className="text-red-500 text-xs space-y-0.5">
+                  {describeFailedAttempts(conversion.failureReason).map((description) => (
+                    <li key={description}>Tried {description}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
           
-          {conversion.type === "image_to_pdf" && conversion.sourceUrls && conversion.sourceUrls.length > 0 && (
+          {describeSkippedSources(conversion.sourceResults).length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-md p-3">
+              <h4 className="text-sm font-medium text-amber-800 mb-1">Skipped Files</h4>
+              <ul className="text-xs text-amber-700 space-y-0.5">
+                {describeSkippedSources(conversion.sourceResults).map((description) => (
+                  <li key={description}>{description}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
+          {isCompletedStatus(conversion.status) && conversion.outputFiles && conversion.outputFiles.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Output Files</h4>
+              <div className="flex flex-wrap gap-2">
+                {conversion.outputFiles.map((output) => output.url && (
+                  <a 
+                    key={output.fileName} 
+                    href={output.url} 
+                    download={output.fileName}
+                    className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs hover:bg-indigo-100"
+                  >
+                    {output.pages ? `Pages ${output.pages}` : output.fileName}
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          {getSourceNoun(conversion.type) === "image" && conversion.sourceUrls && conversion.sourceUrls.length > 0 && (
             <div>
               <h4 className="text-sm font-medium text-gray-700 mb-2">Source Images</h4>
               <div className="grid grid-cols-4 gap-2">
@@ -168,9 +202,9 @@ export function ConversionsList({
             </div>
           )}
           
-          {conversion.type === "pdf_merger" && conversion.sourceUrls && conversion.sourceUrls.length > 0 && (
+          {getSourceNoun(conversion.type) !== "image" && conversion.sourceUrls && conversion.sourceUrls.length > 0 && (
             <div>
-              <h4 className="text-sm font-medium text-gray-700 mb-2">Source PDFs</h4>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Source {getSourceNoun(conversion.type)}s</h4>
               <div className="flex flex-wrap gap-2">
                 {conversion.sourceUrls.slice(0, 4).map((url, index) => (
                   <a 
@@ -180,7 +214,7 @@ export function ConversionsList({
                     rel="noopener noreferrer"
                     className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full text-xs hover:bg-gray-200"
                   >
-                    Source PDF {index + 1}
+                    Source {getSourceNoun(conversion.type)} {index + 1}
                   </a>
                 ))}
                 {conversion.sourceUrls.length > 4 && (
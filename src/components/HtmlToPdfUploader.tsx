@@ -0,0 +1,238 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  HtmlToPdfOptions,
+  acceptsFile,
+  getConverter,
+  getFileMimeType,
+} from "../../convex/converters";
+import { PAGE_SIZES } from "../../convex/imageLayout";
+import { formatFileSize, getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("html_to_pdf");
+
+const POINTS_PER_MM = 72 / 25.4;
+
+type PageSize = NonNullable<HtmlToPdfOptions["pageSize"]>;
+type Margins = NonNullable<HtmlToPdfOptions["margins"]>;
+
+const PAGE_SIZE_OPTIONS = Object.entries(PAGE_SIZES) as [PageSize, (typeof PAGE_SIZES)[PageSize]][];
+
+const MARGIN_SIDES: { side: keyof Margins; label: string }[] = [
+  { side: "top", label: "Top" },
+  { side: "right", label: "Right" },
+  { side: "bottom", label: "Bottom" },
+  { side: "left", label: "Left" },
+];
+
+// One inch, as the server uses when no margins are given
+const DEFAULT_MARGINS: Margins = { top: 72, right: 72, bottom: 72, left: 72 };
+
+export function HtmlToPdfUploader() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pageSize, setPageSize] = useState<PageSize>("a4");
+  const [orientation, setOrientation] = useState<"portrait" | "landscape">("portrait");
+  const [margins, setMargins] = useState<Margins>(DEFAULT_MARGINS);
+
+  // Margins that leave no room for the content are rejected before uploading
+  const size = PAGE_SIZES[pageSize];
+  const pageWidth = orientation === "landscape" ? size.height : size.width;
+  const pageHeight = orientation === "landscape" ? size.width : size.height;
+  const marginsError = pageWidth - margins.left - margins.right < 72 || pageHeight - margins.top - margins.bottom < 72
+    ? `These margins leave no room for the content on ${size.label} pages`
+    : null;
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsFile(converter, file)) {
+      toast.error('Please upload an HTML file or a ZIP with the page and its images');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  async function handleConvert() {
+    if (!selectedFile) {
+      toast.error('Please select an HTML file to convert');
+      return;
+    }
+    if (marginsError) {
+      toast.error(marginsError);
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading HTML...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": getFileMimeType(selectedFile) },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+      const options: HtmlToPdfOptions = { pageSize, orientation, margins };
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options,
+      });
+
+      toast.success('HTML uploaded and conversion started', { id: progressToastId });
+      setSelectedFile(null);
+    } catch (error) {
+      console.error("Error during upload/conversion:", error);
+      toast.error('Upload or conversion failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-orange-500 bg-orange-50' : 'border-gray-300 hover:border-orange-400 hover:bg-orange-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-orange-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-orange-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M17.25 6.75L22.5 12l-5.25 5.25m-10.5 0L1.5 12l5.25-5.25m7.5-3l-4.5 16.5" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop an HTML page here to convert it"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${formatFileSize(selectedFile.size)}, click to choose another file`
+                : "or a ZIP with the page and its images, or click to browse"}
+            </p>
+            <div className="mt-3 bg-orange-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-orange-600 font-medium">Maximum {converter.maxFileSizeMb}MB</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Page Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">Page setup</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Page size
+              <select
+                value={pageSize}
+                onChange={(e) => setPageSize(e.target.value as PageSize)}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              >
+                {PAGE_SIZE_OPTIONS.map(([id, option]) => (
+                  <option key={id} value={id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Orientation
+              <select
+                value={orientation}
+                onChange={(e) => setOrientation(e.target.value as "portrait" | "landscape")}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </label>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {MARGIN_SIDES.map(({ side, label }) => (
+              <label key={side} className="text-sm text-gray-700">
+                {label} margin (mm)
+                <input
+                  type="number"
+                  min={0}
+                  value={Math.round(margins[side] / POINTS_PER_MM)}
+                  onChange={(e) => setMargins((prev) => ({ ...prev, [side]: Math.max(0, Number(e.target.value)) * POINTS_PER_MM }))}
+                  className={`mt-1 w-full border rounded-md px-2 py-1.5 text-sm ${marginsError ? 'border-red-400' : 'border-gray-300'}`}
+                  disabled={isUploading}
+                />
+              </label>
+            ))}
+          </div>
+          {marginsError && <p className="text-sm text-red-600">{marginsError}</p>}
+          <p className="text-xs text-gray-500">
+            Text, lists, tables and images are laid out in Helvetica; stylesheets and scripts are not applied.
+            Images are included when they are embedded in the page or in the ZIP next to it.
+          </p>
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-orange-600 hover:bg-orange-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleConvert}
+              disabled={isUploading || !!marginsError}
+            >
+              {isUploading ? "Converting..." : "Convert to PDF"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Conversions</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
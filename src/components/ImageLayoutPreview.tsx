@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import {
+  ImageLayout,
+  PageLabels,
+  getGridCaptionTexts,
+  getPageLabelTexts,
+  planImagePages,
+} from "../../convex/imageLayout";
+
+// Pages drawn before the rest are summarised as "+N more"
+const MAX_PREVIEW_PAGES = 4;
+const PREVIEW_WIDTH = 150;
+
+type ImageSize = { width: number; height: number };
+
+interface ImageLayoutPreviewProps {
+  files: File[];
+  layout: ImageLayout;
+  labels: PageLabels;
+}
+
+// Sketch of the first pages of the PDF, laid out by the same code as the
+// server so what is shown is what the conversion produces
+export function ImageLayoutPreview({ files, layout, labels }: ImageLayoutPreviewProps) {
+  const [urls, setUrls] = useState<string[]>([]);
+  // null while loading or when the browser cannot show the format (HEIC, TIFF)
+  const [sizes, setSizes] = useState<(ImageSize | null)[]>([]);
+
+  useEffect(() => {
+    const objectUrls = files.map((file) => URL.createObjectURL(file));
+    setUrls(objectUrls);
+    setSizes(files.map(() => null));
+
+    let cancelled = false;
+    objectUrls.forEach((url, index) => {
+      const img = new Image();
+      img.onload = () => {
+        if (cancelled) return;
+        setSizes((prev) => prev.map((size, i) => (i === index ? { width: img.naturalWidth, height: img.naturalHeight } : size)));
+      };
+      img.src = url;
+    });
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [files]);
+
+  if (files.length === 0 || sizes.length !== files.length) {
+    return null;
+  }
+
+  const pages = planImagePages(sizes, layout);
+  const fileNames = files.map((file) => file.name);
+
+  return (
+    <div className="mb-4">
+      <p className="text-sm text-gray-700 mb-2">
+        Preview: {pages.length} {pages.length === 1 ? "page" : "pages"}
+      </p>
+      <div className="flex flex-wrap items-start gap-3">
+        {pages.slice(0, MAX_PREVIEW_PAGES).map((page, pageIndex) => {
+          const scale = PREVIEW_WIDTH / page.pageWidth;
+          const texts = layout.grid
+            ? [
+              ...getPageLabelTexts(page.pageWidth, page.pageHeight, layout.margin, labels, pageIndex + 1, pages.length),
+              ...getGridCaptionTexts(layout, pageIndex, fileNames),
+            ]
+            : getPageLabelTexts(page.pageWidth, page.pageHeight, layout.margin, labels, pageIndex + 1, pages.length, fileNames[pageIndex]);
+
+          return (
+            <div
+              key={pageIndex}
+              className="relative bg-white border border-gray-200 shadow-sm overflow-hidden"
+              style={{ width: PREVIEW_WIDTH, height: page.pageHeight * scale }}
+            >
+              {page.images.map(({ index, placement }) => (
+                placement ? (
+                  // The area clips "cover" images the way the PDF does
+                  <div
+                    key={index}
+                    className="absolute overflow-hidden"
+                    style={{
+                      left: placement.area.x * scale,
+                      top: placement.area.y * scale,
+                      width: placement.area.width * scale,
+                      height: placement.area.height * scale,
+                    }}
+                  >
+                    <img
+                      src={urls[index]}
+                      alt={fileNames[index]}
+                      className="absolute max-w-none"
+                      style={{
+                        left: (placement.x - placement.area.x) * scale,
+                        top: (placement.y - placement.area.y) * scale,
+                        width: placement.width * scale,
+                        height: placement.height * scale,
+                      }}
+                    />
+                  </div>
+                ) : null
+              ))}
+              {texts.map((text, textIndex) => (
+                <span
+                  key={textIndex}
+                  className="absolute whitespace-nowrap text-gray-400 leading-none"
+                  style={{
+                    left: text.x * scale,
+                    top: (text.baseline - text.fontSize * 0.8) * scale,
+                    fontSize: Math.max(5, text.fontSize * scale),
+                    transform: text.align === "center" ? "translateX(-50%)" : text.align === "right" ? "translateX(-100%)" : undefined,
+                  }}
+                >
+                  {text.text}
+                </span>
+              ))}
+            </div>
+          );
+        })}
+        {pages.length > MAX_PREVIEW_PAGES && (
+          <p className="text-xs text-gray-500 self-center">+{pages.length - MAX_PREVIEW_PAGES} more</p>
+        )}
+      </div>
+    </div>
+  );
+}
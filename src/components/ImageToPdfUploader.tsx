@@ -1,9 +1,59 @@
 import { useState, useRef, FormEvent, useEffect } from "react";
 import { useMutation, useConvex, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
 import { toast } from "sonner";
 import { convertImagesToPdf, getImageUrls, generatePdfFromImages, uploadPdf } from "../lib/generatePdf";
 import { ConversionsList } from "../ConversionsList";
+import { ImageLayoutPreview } from "./ImageLayoutPreview";
+import { DEFAULT_PROTECT_OPTIONS, ProtectFields, getProtectJobOptions } from "./PdfProtector";
+import {
+  IMAGE_INPUT_FORMATS,
+  IMAGE_TO_PDF_MAX_PAGES,
+  PdfProtectOptions,
+  acceptsFile,
+  getConverter,
+  getFileMimeType,
+  getProtectOptionsError,
+} from "../../convex/converters";
+import { getAcceptAttribute, isCompletedStatus } from "../lib/converters";
+import {
+  DEFAULT_GRID_GUTTER,
+  DEFAULT_IMAGE_LAYOUT,
+  DEFAULT_PAGE_LABELS,
+  GRID_PRESETS,
+  ImageFit,
+  ImageLayout,
+  MAX_GRID_SIDE,
+  PAGE_SIZES,
+  PageLabelAlign,
+  PageLabelPosition,
+  PageLabels,
+  PageOrientation,
+  PageSizeName,
+  resolveImageLayout,
+  resolvePageLabels,
+} from "../../convex/imageLayout";
+
+const converter = getConverter("image_to_pdf");
+
+const PAGE_SIZE_OPTIONS: { value: PageSizeName; label: string }[] = [
+  ...Object.entries(PAGE_SIZES).map(([value, size]) => ({ value: value as PageSizeName, label: size.label })),
+  { value: "fit", label: "Fit to image" },
+];
+
+const FIT_OPTIONS: { value: ImageFit; label: string }[] = [
+  { value: "contain", label: "Fit whole image" },
+  { value: "cover", label: "Fill page (crop edges)" },
+  { value: "stretch", label: "Stretch to page" },
+];
+
+const POINTS_PER_MM = 72 / 25.4;
+
+type GridChoice = "single" | keyof typeof GRID_PRESETS | "custom";
+
+const SUPPORTED_FORMATS = IMAGE_INPUT_FORMATS.map((format) => format.label).join(", ");
 
 export function ImageToPdfUploader() {
   const convex = useConvex();
@@ -24,14 +74,91 @@ export function ImageToPdfUploader() {
     storageId: null
   });
   
-  // Force refresh of conversions list
-  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [layout, setLayout] = useState<ImageLayout>(DEFAULT_IMAGE_LAYOUT);
+  const [labels, setLabels] = useState<PageLabels>(DEFAULT_PAGE_LABELS);
+  const [expandGifFrames, setExpandGifFrames] = useState(false);
+  // Passwords for the PDF; not encrypted when null
+  const [protect, setProtect] = useState<PdfProtectOptions | null>(null);
+  const protectError = protect ? getProtectOptionsError(protect) : null;
+  const [gridChoice, setGridChoice] = useState<GridChoice>("single");
+  
+  // Server job started by the last submit, until it completes or fails
+  const [pendingJob, setPendingJob] = useState<{
+    conversionId: Id<"conversions">;
+    fileName: string;
+    toastId: string | number;
+  } | null>(null);
+  const pendingConversion = useQuery(
+    api.files.getConversion,
+    pendingJob ? { conversionId: pendingJob.conversionId } : "skip"
+  );
   
   // Automatically get conversions list
   const conversions = useQuery(api.files.listConversions, { type: "image_to_pdf" });
 
-  const MAX_FILES = 50;
-  const MAX_FILE_SIZE_MB = 10;
+  const MAX_FILES = converter.maxInputs;
+  const MAX_FILE_SIZE_MB = converter.maxFileSizeMb;
+
+  // Margins that leave no room for the image are rejected before uploading
+  let layoutError: string | null = null;
+  try {
+    resolveImageLayout(layout);
+    resolvePageLabels(labels);
+  } catch (error) {
+    layoutError = error instanceof Error ? error.message : String(error);
+  }
+
+  function updateLayout(changes: Partial<ImageLayout>) {
+    setLayout(prev => ({ ...prev, ...changes }));
+  }
+
+  function handleGridChoice(choice: GridChoice) {
+    setGridChoice(choice);
+    if (choice === "single") {
+      updateLayout({ grid: null });
+      return;
+    }
+    // Custom starts from whatever grid is in use
+    const { columns, rows } = choice === "custom" ? (layout.grid ?? GRID_PRESETS["2x2"]) : GRID_PRESETS[choice];
+    updateLayout({
+      grid: { gutter: DEFAULT_GRID_GUTTER, captions: false, ...layout.grid, columns, rows },
+      // Grid pages have a fixed size
+      ...(layout.pageSize === "fit" ? { pageSize: DEFAULT_IMAGE_LAYOUT.pageSize } : {}),
+    });
+  }
+
+  function updateGrid(changes: Partial<NonNullable<ImageLayout["grid"]>>) {
+    setLayout(prev => (prev.grid ? { ...prev, grid: { ...prev.grid, ...changes } } : prev));
+  }
+
+  function updateLabels(changes: Partial<PageLabels>) {
+    setLabels(prev => ({ ...prev, ...changes }));
+  }
+
+  // Show the result once the server job reaches its final status, whatever
+  // it is; the browser never overrides a job the server has taken on
+  useEffect(() => {
+    if (!pendingJob || !pendingConversion) return;
+
+    if (isCompletedStatus(pendingConversion.status)) {
+      setLastConvertedPdf({
+        url: pendingConversion.outputUrl,
+        fileName: pendingJob.fileName,
+        storageId: pendingConversion.outputFileId ?? null,
+      });
+      if (pendingConversion.status === "completed_with_warnings") {
+        toast.warning('PDF created with warnings, see the conversion below', { id: pendingJob.toastId });
+      } else {
+        toast.success('PDF successfully created and saved.', { id: pendingJob.toastId });
+      }
+    } else if (pendingConversion.status === "failed") {
+      toast.error('Conversion failed: ' + (pendingConversion.error ?? 'Unknown error'), { id: pendingJob.toastId });
+    } else {
+      return;
+    }
+    setPendingJob(null);
+    setIsUploading(false);
+  }, [pendingJob, pendingConversion]);
 
   // Clear the success message after 10 minutes
   useEffect(() => {
@@ -50,10 +177,11 @@ export function ImageToPdfUploader() {
       return;
     }
 
-    // Filter for image files
-    const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
+    // Filter for image files. Some systems give HEIC and TIFF files no type,
+    // so the extension is checked as well.
+    const imageFiles = Array.from(files).filter(file => acceptsFile(converter, file));
     if (imageFiles.length === 0) {
-      toast.error('Please upload image files (JPEG, PNG, etc.)');
+      toast.error(`Please upload image files (${SUPPORTED_FORMATS})`);
       return;
     }
 
@@ -85,14 +213,25 @@ export function ImageToPdfUploader() {
       toast.error('Please select at least one image');
       return;
     }
+    if (layoutError) {
+      toast.error(layoutError);
+      return;
+    }
+    if (protectError) {
+      toast.error(protectError);
+      return;
+    }
 
     setIsUploading(true);
     setUploadProgress({});
     setLastConvertedPdf({ url: null, fileName: null, storageId: null });
+    let waitingForServer = false;
     
     try {
       // Upload all image files to Convex storage
       const storageIds = [];
+      // Names of the uploaded images, in the same order, for captions
+      const uploadedNames: string[] = [];
       let totalUploaded = 0;
       
       // Create a toast for overall progress
@@ -109,7 +248,7 @@ export function ImageToPdfUploader() {
           const uploadResult = await new Promise<string>((resolve, reject) => {
             const xhr = new XMLHttpRequest();
             xhr.open('POST', postUrl);
-            xhr.setRequestHeader('Content-Type', file.type);
+            xhr.setRequestHeader('Content-Type', getFileMimeType(file));
             
             // Track progress for this file
             xhr.upload.addEventListener('progress', (event) => {
@@ -136,6 +275,7 @@ export function ImageToPdfUploader() {
           });
           
           storageIds.push(uploadResult);
+          uploadedNames.push(file.name);
           totalUploaded++;
           
           // Update the progress toast
@@ -160,43 +300,39 @@ export function ImageToPdfUploader() {
         ? `${selectedFiles[0].name.split('.')[0]}.pdf`
         : `Combined_${selectedFiles.length}_Images_${new Date().toISOString().slice(0, 10)}.pdf`;
       
-      // First try server-side conversion
+      // The server builds the PDF; the browser only steps in when the job
+      // could not be started at all
       try {
-        // This triggers server-side conversion and stores the result
         const conversionId = await startImageToPdfConversion({
           sourceFileIds: storageIds,
-          fileName: fileName
+          fileName: fileName,
+          ...layout,
+          grid: layout.grid ?? undefined,
+          labels,
+          sourceFileNames: uploadedNames,
+          expandGifFrames,
+          ...(protect ? { protect: getProtectJobOptions(protect) } : {}),
         });
         
         toast.loading('Processing on server...', { id: progressToastId });
-        
-        // Wait a moment for the server to process
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Force refresh the conversions list
-        setRefreshTrigger(prev => prev + 1);
-        
-        // Get the conversion result
-        const conversion = await convex.query(api.files.getConversion, { conversionId });
-        
-        if (conversion && conversion.status === "completed" && conversion.pdfUrl) {
-          // Server-side conversion succeeded
-          setLastConvertedPdf({
-            url: conversion.pdfUrl,
-            fileName: fileName,
-            storageId: conversion.pdfFileId || null
-          });
-          
-          toast.success('PDF successfully created and saved.', { id: progressToastId });
-          setSelectedFiles([]);
-          setIsUploading(false);
-          return;
-        }
-        
-        // If server-side failed or is still processing, fall back to client-side
-        toast.loading('Falling back to client-side conversion...', { id: progressToastId });
+        setPendingJob({ conversionId, fileName, toastId: progressToastId });
+        setSelectedFiles([]);
+        waitingForServer = true;
+        return;
       } catch (serverError) {
         console.error("Server-side conversion failed:", serverError);
+        // Files or options the server rejects are the user's to fix; only a
+        // job that could not be started at all falls back to the browser
+        if (serverError instanceof ConvexError) {
+          toast.error('The PDF could not be created: ' + String(serverError.data), { id: progressToastId });
+          return;
+        }
+        // The browser cannot encrypt the PDF, so a protected one is left to the server
+        if (protect) {
+          toast.error('The protected PDF could not be created: ' + (serverError instanceof Error ? serverError.message : 'Unknown error'),
+            { id: progressToastId });
+          return;
+        }
         toast.loading('Falling back to client-side conversion...', { id: progressToastId });
       }
       
@@ -209,7 +345,11 @@ export function ImageToPdfUploader() {
         const imageUrls = await getImageUrls(convex, storageIds);
         
         // Generate PDF from images
-        const pdfBuffer = await generatePdfFromImages(imageUrls);
+        const pdfBuffer = await generatePdfFromImages(imageUrls, {
+          ...layout,
+          labels,
+          sourceFileNames: uploadedNames,
+        });
         
         // Upload the PDF
         const { storageId, url } = await uploadPdf(convex, pdfBuffer, fileName);
@@ -221,22 +361,6 @@ export function ImageToPdfUploader() {
           storageId
         });
         
-        // Update the conversion status in the database to mark it as complete
-        // This is important since we're handling the conversion client-side
-        try {
-          await convex.mutation(api.files.updateConversionJob, {
-            jobId: conversionId,
-            pdfFileId: storageId,
-            status: "completed"
-          });
-          
-          // Force refresh the conversions list
-          setRefreshTrigger(prev => prev + 1);
-        } catch (updateError) {
-          console.error("Failed to update conversion status:", updateError);
-          // Continue anyway since we have the PDF
-        }
-        
         toast.success('PDF successfully created!', { id: progressToastId });
         setSelectedFiles([]);
       } catch (clientError) {
@@ -258,7 +382,10 @@ export function ImageToPdfUploader() {
       console.error("Overall process failed:", error);
       toast.error('The conversion process encountered an error');
     } finally {
-      setIsUploading(false);
+      // Otherwise the effect watching the job re-enables the form
+      if (!waitingForServer) {
+        setIsUploading(false);
+      }
     }
   }
 
@@ -333,7 +460,7 @@ export function ImageToPdfUploader() {
           <input
             ref={fileInput}
             type="file"
-            accept="image/*"
+            accept={getAcceptAttribute(converter.id)}
             onChange={handleChange}
             className="hidden"
             multiple
@@ -393,6 +520,7 @@ export function ImageToPdfUploader() {
                 <span>Max: {MAX_FILE_SIZE_MB}MB each</span>
               </div>
             </div>
+            <p className="mt-3 text-xs text-gray-400">{SUPPORTED_FORMATS}</p>
           </div>
         </div>
       </div>
@@ -430,6 +558,224 @@ export function ImageToPdfUploader() {
             </div>
           </div>
           
+          {/* Page Layout */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+            <label className="text-sm text-gray-700">
+              Page size
+              <select
+                value={layout.pageSize}
+                onChange={(e) => updateLayout({ pageSize: e.target.value as PageSizeName })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              >
+                {PAGE_SIZE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value} disabled={option.value === "fit" && !!layout.grid}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Orientation
+              <select
+                value={layout.orientation}
+                onChange={(e) => updateLayout({ orientation: e.target.value as PageOrientation })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading || layout.pageSize === "fit"}
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+                <option value="auto">{layout.grid ? "Match the grid" : "Match each image"}</option>
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Margin (mm)
+              <input
+                type="number"
+                min={0}
+                value={Math.round(layout.margin / POINTS_PER_MM)}
+                onChange={(e) => updateLayout({ margin: Number(e.target.value) * POINTS_PER_MM })}
+                className={`mt-1 w-full border rounded-md px-2 py-1.5 text-sm ${layoutError ? 'border-red-400' : 'border-gray-300'}`}
+                disabled={isUploading}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Image fit
+              <select
+                value={layout.fit}
+                onChange={(e) => updateLayout({ fit: e.target.value as ImageFit })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              >
+                {FIT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          
+          {/* Images per Page */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+            <label className="text-sm text-gray-700">
+              Images per page
+              <select
+                value={gridChoice}
+                onChange={(e) => handleGridChoice(e.target.value as GridChoice)}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              >
+                <option value="single">One per page</option>
+                {Object.entries(GRID_PRESETS).map(([value, preset]) => (
+                  <option key={value} value={value}>{preset.label} grid</option>
+                ))}
+                <option value="custom">Custom grid</option>
+              </select>
+            </label>
+            {layout.grid && gridChoice === "custom" && (
+              <>
+                <label className="text-sm text-gray-700">
+                  Columns
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_GRID_SIDE}
+                    value={layout.grid.columns}
+                    onChange={(e) => updateGrid({ columns: Number(e.target.value) })}
+                    className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                    disabled={isUploading}
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Rows
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_GRID_SIDE}
+                    value={layout.grid.rows}
+                    onChange={(e) => updateGrid({ rows: Number(e.target.value) })}
+                    className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                    disabled={isUploading}
+                  />
+                </label>
+              </>
+            )}
+            {layout.grid && (
+              <>
+                <label className="text-sm text-gray-700">
+                  Gutter (mm)
+                  <input
+                    type="number"
+                    min={0}
+                    value={Math.round(layout.grid.gutter / POINTS_PER_MM)}
+                    onChange={(e) => updateGrid({ gutter: Number(e.target.value) * POINTS_PER_MM })}
+                    className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                    disabled={isUploading}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 col-span-2">
+                  <input
+                    type="checkbox"
+                    checked={layout.grid.captions}
+                    onChange={(e) => updateGrid({ captions: e.target.checked })}
+                    disabled={isUploading}
+                  />
+                  Caption each image with its file name
+                </label>
+              </>
+            )}
+          </div>
+          
+          {/* Header and Footer */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+            <label className="text-sm text-gray-700 col-span-2">
+              Page numbers
+              <input
+                type="text"
+                value={labels.pageNumberFormat}
+                onChange={(e) => updateLabels({ pageNumberFormat: e.target.value })}
+                placeholder="No page numbers"
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              />
+              <span className="text-xs text-gray-500">{"{page}"} and {"{total}"} are replaced, leave empty for none</span>
+            </label>
+            <label className="text-sm text-gray-700">
+              Position
+              <select
+                value={`${labels.position}-${labels.align}`}
+                onChange={(e) => {
+                  const [position, align] = e.target.value.split("-") as [PageLabelPosition, PageLabelAlign];
+                  updateLabels({ position, align });
+                }}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              >
+                {(["footer", "header"] as const).map(position =>
+                  (["left", "center", "right"] as const).map(align => (
+                    <option key={`${position}-${align}`} value={`${position}-${align}`}>
+                      {position === "footer" ? "Bottom" : "Top"} {align}
+                    </option>
+                  ))
+                )}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Font size (pt)
+              <input
+                type="number"
+                min={4}
+                max={72}
+                value={labels.fontSize}
+                onChange={(e) => updateLabels({ fontSize: Number(e.target.value) })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                disabled={isUploading}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 col-span-2">
+              <input
+                type="checkbox"
+                checked={labels.caption && !layout.grid}
+                onChange={(e) => updateLabels({ caption: e.target.checked })}
+                disabled={isUploading || !!layout.grid}
+              />
+              Caption each page with the image's file name
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 col-span-2">
+              <input
+                type="checkbox"
+                checked={expandGifFrames}
+                onChange={(e) => setExpandGifFrames(e.target.checked)}
+                disabled={isUploading}
+              />
+              Put every frame of animated GIFs on its own page
+            </label>
+            <p className="text-xs text-gray-500 col-span-2">
+              Every frame of a multi-page TIFF counts as an image. Up to {IMAGE_TO_PDF_MAX_PAGES} images in total.
+            </p>
+          </div>
+          {layoutError && <p className="text-xs text-red-500 -mt-2 mb-4">{layoutError}</p>}
+
+          {/* Password Protection */}
+          <div className="border rounded-lg p-4 bg-white space-y-3 mb-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={protect !== null}
+                onChange={(e) => setProtect(e.target.checked ? DEFAULT_PROTECT_OPTIONS : null)}
+                disabled={isUploading}
+              />
+              Protect the PDF with a password
+            </label>
+            {protect && (
+              <>
+                <ProtectFields options={protect} onChange={setProtect} disabled={isUploading} idPrefix="image-protect" />
+                {protectError && <p className="text-xs text-red-500">{protectError}</p>}
+              </>
+            )}
+          </div>
+          
+          {!layoutError && <ImageLayoutPreview files={selectedFiles} layout={layout} labels={labels} />}
+          
           <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
             {selectedFiles.map((file, index) => (
               <div
@@ -439,7 +785,7 @@ export function ImageToPdfUploader() {
                 <div className="flex items-center space-x-3">
                   <div className="flex-shrink-0">
                     <div className="w-10 h-10 bg-white shadow-sm rounded flex items-center justify-center">
-                      {file.type.includes('image/') ? (
+                      {getFileMimeType(file).startsWith('image/') ? (
                         <svg className="w-6 h-6 text-secondary-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                         </svg>
@@ -555,7 +901,7 @@ export function ImageToPdfUploader() {
           </svg>
           <h3 className="text-lg font-semibold text-gray-800">Conversion History</h3>
         </div>
-        <ConversionsList forceRefresh={refreshTrigger} type="image_to_pdf" />
+        <ConversionsList type={converter.id} />
       </div>
     </div>
   );
@@ -0,0 +1,338 @@
+import { useEffect, useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  DOCUMENT_THEMES,
+  DocumentTheme,
+  MIME_TYPES,
+  MarkdownToPdfOptions,
+  acceptsFile,
+  getConverter,
+  getFileMimeType,
+} from "../../convex/converters";
+import { formatFileSize, getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("markdown_to_pdf");
+
+const THEMES = Object.entries(DOCUMENT_THEMES) as [DocumentTheme, (typeof DOCUMENT_THEMES)[DocumentTheme]][];
+
+type CoverPage = NonNullable<MarkdownToPdfOptions["coverPage"]>;
+
+function isMarkdownFile(file: File): boolean {
+  return getFileMimeType(file) === MIME_TYPES.markdown;
+}
+
+// File names of the local images the Markdown references; the server
+// matches uploads by file name the same way
+function getImageReferences(markdown: string): string[] {
+  const names = new Set<string>();
+  for (const match of markdown.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)/g)) {
+    if (/^[a-z]+:/i.test(match[1])) continue;
+    names.add(match[1].split(/[?#]/)[0].split(/[\\/]/).pop() ?? "");
+  }
+  names.delete("");
+  return [...names];
+}
+
+export function MarkdownToPdfUploader() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [markdownFile, setMarkdownFile] = useState<File | null>(null);
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [imageReferences, setImageReferences] = useState<string[]>([]);
+  const [theme, setTheme] = useState<DocumentTheme>("classic");
+  const [coverPage, setCoverPage] = useState<CoverPage | null>(null);
+  const [tableOfContents, setTableOfContents] = useState(false);
+
+  useEffect(() => {
+    if (!markdownFile) {
+      setImageReferences([]);
+      return;
+    }
+    let cancelled = false;
+    markdownFile.text().then((text) => {
+      if (!cancelled) setImageReferences(getImageReferences(text));
+    }).catch((error) => console.error("Error reading Markdown file:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [markdownFile]);
+
+  const uploadedNames = new Set(imageFiles.map((file) => file.name.toLowerCase()));
+  const missingImages = imageReferences.filter((name) => {
+    try {
+      return !uploadedNames.has(decodeURIComponent(name).toLowerCase());
+    } catch {
+      return !uploadedNames.has(name.toLowerCase());
+    }
+  });
+
+  function handleFilesSelected(files: FileList | null) {
+    if (!files || files.length === 0) return;
+
+    const selected = Array.from(files);
+    const rejected = selected.filter((file) => !acceptsFile(converter, file));
+    if (rejected.length > 0) {
+      toast.error(`Unsupported file: ${rejected[0].name}. Please choose a Markdown file and its images.`);
+      return;
+    }
+    const tooLarge = selected.find((file) => file.size > converter.maxFileSizeMb * 1024 * 1024);
+    if (tooLarge) {
+      toast.error(`${tooLarge.name} is larger than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+
+    const markdownFiles = selected.filter(isMarkdownFile);
+    if (markdownFiles.length > 1) {
+      toast.error('Please choose one Markdown file at a time');
+      return;
+    }
+    // Images dropped on their own are added to the current document
+    const images = [...(markdownFiles.length > 0 ? [] : imageFiles), ...selected.filter((file) => !isMarkdownFile(file))];
+    if (images.length + 1 > converter.maxInputs) {
+      toast.error(`You can add up to ${converter.maxInputs - 1} images`);
+      return;
+    }
+    if (markdownFiles.length > 0) {
+      setMarkdownFile(markdownFiles[0]);
+    } else if (!markdownFile) {
+      toast.error('Please include the Markdown (.md) file');
+      return;
+    }
+    setImageFiles(images);
+  }
+
+  async function uploadFile(file: File): Promise<Id<"_storage">> {
+    const postUrl = await generateUploadUrl();
+    const result = await fetch(postUrl, {
+      method: "POST",
+      headers: { "Content-Type": getFileMimeType(file) },
+      body: file,
+    });
+    if (!result.ok) {
+      throw new Error(`Upload of ${file.name} failed: ${result.status} ${result.statusText}`);
+    }
+    const { storageId } = await result.json();
+    return storageId;
+  }
+
+  async function handleConvert() {
+    if (!markdownFile) {
+      toast.error('Please select a Markdown file to convert');
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading Markdown...');
+
+    try {
+      // The Markdown goes first; the server expects the images after it
+      const files = [markdownFile, ...imageFiles];
+      const storageIds: Id<"_storage">[] = [];
+      for (const [index, file] of files.entries()) {
+        if (index > 0) {
+          toast.loading(`Uploading image ${index} of ${imageFiles.length}...`, { id: progressToastId });
+        }
+        storageIds.push(await uploadFile(file));
+      }
+
+      const options: MarkdownToPdfOptions = {
+        theme,
+        coverPage,
+        tableOfContents,
+        sourceFileNames: files.map((file) => file.name),
+      };
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: storageIds,
+        fileName: markdownFile.name,
+        options,
+      });
+
+      toast.success('Markdown uploaded and conversion started', { id: progressToastId });
+      setMarkdownFile(null);
+      setImageFiles([]);
+    } catch (error) {
+      console.error("Error during upload/conversion:", error);
+      toast.error('Upload or conversion failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFilesSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFilesSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  function updateCoverPage(changes: Partial<CoverPage>) {
+    setCoverPage((prev) => ({ ...prev, ...changes }));
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-teal-500 bg-teal-50' : 'border-gray-300 hover:border-teal-400 hover:bg-teal-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          multiple
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-teal-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-teal-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75L7.5 15l.75-1.5M12 15.75h3M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {markdownFile ? markdownFile.name : "Drop a Markdown file and its images here"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {markdownFile
+                ? `${formatFileSize(markdownFile.size)} with ${imageFiles.length} ${imageFiles.length === 1 ? "image" : "images"}, click to add images or choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-teal-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-teal-600 font-medium">Maximum {converter.maxFileSizeMb}MB per file</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Conversion Options */}
+      {markdownFile && (
+        <div className="space-y-4">
+          {imageFiles.length > 0 && (
+            <ul className="text-sm text-gray-600 space-y-1">
+              {imageFiles.map((file) => (
+                <li key={file.name} className="flex items-center justify-between bg-gray-50 rounded px-3 py-1.5">
+                  <span className="truncate">{file.name}</span>
+                  <button
+                    className="text-xs text-red-600 hover:text-red-700 ml-3"
+                    onClick={() => setImageFiles((prev) => prev.filter((image) => image !== file))}
+                    disabled={isUploading}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {missingImages.length > 0 && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-md px-3 py-2">
+              Referenced images not added yet: {missingImages.join(", ")}. They will be left out unless you add them.
+            </p>
+          )}
+
+          <h3 className="font-semibold">Theme</h3>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {THEMES.map(([id, option]) => (
+              <label
+                key={id}
+                className={`border rounded-lg p-3 cursor-pointer transition-colors
+                  ${theme === id ? 'border-teal-500 bg-teal-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <input
+                  type="radio"
+                  name="document-theme"
+                  className="sr-only"
+                  checked={theme === id}
+                  onChange={() => setTheme(id)}
+                  disabled={isUploading}
+                />
+                <p className="font-medium text-gray-800">{option.label}</p>
+                <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={tableOfContents}
+                onChange={(e) => setTableOfContents(e.target.checked)}
+                disabled={isUploading}
+              />
+              Insert a table of contents after the cover
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={coverPage !== null}
+                onChange={(e) => setCoverPage(e.target.checked ? {} : null)}
+                disabled={isUploading}
+              />
+              Add a cover page
+            </label>
+            {coverPage && (
+              <div className="grid gap-3 sm:grid-cols-2 ml-6">
+                {([
+                  ["title", "Title", "First heading of the document"],
+                  ["subtitle", "Subtitle", "None"],
+                  ["author", "Author", "None"],
+                  ["date", "Date", "None"],
+                ] as const).map(([field, label, placeholder]) => (
+                  <label key={field} className="block text-sm text-gray-700">
+                    {label}
+                    <input
+                      type="text"
+                      value={coverPage[field] ?? ""}
+                      onChange={(e) => updateCoverPage({ [field]: e.target.value })}
+                      placeholder={placeholder}
+                      className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                      disabled={isUploading}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-teal-600 hover:bg-teal-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleConvert}
+              disabled={isUploading}
+            >
+              {isUploading ? "Converting..." : "Convert to PDF"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Conversions</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  OCR_LANGUAGES,
+  OCR_MAX_PAGES,
+  OCR_OUTPUT_FORMATS,
+  OcrLanguage,
+  OcrOptions,
+  OcrOutputFormat,
+  acceptsFile,
+  getConverter,
+  getFileMimeType,
+} from "../../convex/converters";
+import { parsePageRanges } from "../../convex/pageRanges";
+import { formatFileSize, getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("ocr");
+
+const OUTPUT_OPTIONS = Object.entries(OCR_OUTPUT_FORMATS) as [OcrOutputFormat, (typeof OCR_OUTPUT_FORMATS)[OcrOutputFormat]][];
+
+const LANGUAGE_OPTIONS = Object.entries(OCR_LANGUAGES) as [OcrLanguage, (typeof OCR_LANGUAGES)[OcrLanguage]][];
+
+export function OcrConverter() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [output, setOutput] = useState<OcrOutputFormat>("pdf");
+  const [languages, setLanguages] = useState<OcrLanguage[]>(["eng"]);
+  const [pages, setPages] = useState("");
+
+  // Syntax errors are shown while typing; page counts are checked on the server
+  let pagesError: string | null = null;
+  if (pages.trim()) {
+    try {
+      parsePageRanges(pages);
+    } catch (error) {
+      pagesError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  const languagesError = languages.length === 0 ? 'Choose at least one language' : null;
+
+  function toggleLanguage(language: OcrLanguage) {
+    setLanguages((current) => current.includes(language)
+      ? current.filter((selected) => selected !== language)
+      : [...current, language]);
+  }
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsFile(converter, file)) {
+      toast.error('Please upload a PDF or an image');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  async function handleRecognize() {
+    if (!selectedFile) {
+      toast.error('Please select a file to recognize');
+      return;
+    }
+    const error = pagesError ?? languagesError;
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading file...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": getFileMimeType(selectedFile) },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+      const options: OcrOptions = { languages, output, ...(pages.trim() ? { pages } : {}) };
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options,
+      });
+
+      toast.success('File uploaded and text recognition started', { id: progressToastId });
+      setSelectedFile(null);
+    } catch (error) {
+      console.error("Error during upload/recognition:", error);
+      toast.error('Upload or recognition failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-violet-500 bg-violet-50' : 'border-gray-300 hover:border-violet-400 hover:bg-violet-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-violet-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-violet-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m5.231 13.481L15 17.25m-4.5-15H5.625c-.621 0-1.125.504-1.125 1.125v16.5c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9zm3.75 11.625a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a scanned PDF or an image here to recognize its text"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${formatFileSize(selectedFile.size)}, click to choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-violet-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-violet-600 font-medium">
+                Maximum {converter.maxFileSizeMb}MB, up to {OCR_MAX_PAGES} scanned pages
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Recognition Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">Output</h3>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {OUTPUT_OPTIONS.map(([id, option]) => (
+              <label
+                key={id}
+                className={`border rounded-lg p-3 cursor-pointer transition-colors
+                  ${output === id ? 'border-violet-500 bg-violet-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <input
+                  type="radio"
+                  name="ocr-output"
+                  className="sr-only"
+                  checked={output === id}
+                  onChange={() => setOutput(id)}
+                  disabled={isUploading}
+                />
+                <p className="font-medium text-gray-800">{option.label} <span className="text-xs text-gray-400">.{option.extension}</span></p>
+                <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Languages</p>
+            <div className="flex flex-wrap gap-2">
+              {LANGUAGE_OPTIONS.map(([id, option]) => (
+                <label
+                  key={id}
+                  className={`text-sm px-3 py-1 rounded-full border cursor-pointer transition-colors
+                    ${languages.includes(id) ? 'border-violet-500 bg-violet-50 text-violet-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  <input
+                    type="checkbox"
+                    className="sr-only"
+                    checked={languages.includes(id)}
+                    onChange={() => toggleLanguage(id)}
+                    disabled={isUploading}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            <p className={`text-xs mt-1 ${languagesError ? 'text-red-500' : 'text-gray-500'}`}>
+              {languagesError ?? 'Choose every language the document uses; each one makes recognition slower'}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="ocr-pages">
+              Pages
+            </label>
+            <input
+              id="ocr-pages"
+              type="text"
+              value={pages}
+              onChange={(e) => setPages(e.target.value)}
+              placeholder="All pages"
+              className={`w-full sm:w-64 border rounded-md px-3 py-2 ${pagesError ? 'border-red-400' : 'border-gray-300'}`}
+              disabled={isUploading}
+            />
+            <p className={`text-xs mt-1 ${pagesError ? 'text-red-500' : 'text-gray-500'}`}>
+              {pagesError ?? 'Leave empty for every page, or enter ranges such as 1-3,5,8-'}
+            </p>
+          </div>
+          <p className="text-xs text-gray-500">
+            PDF pages that already have text keep it and are not recognized again.
+          </p>
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-violet-600 hover:bg-violet-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleRecognize}
+              disabled={isUploading || Boolean(pagesError ?? languagesError)}
+            >
+              {isUploading ? "Recognizing..." : "Recognize text"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Recognitions</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
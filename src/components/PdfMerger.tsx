@@ -3,6 +3,46 @@ import { useMutation, useConvex, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { toast } from "sonner";
 import { ConversionsList } from "../ConversionsList";
+import {
+  MergeSourceOptions,
+  PdfProtectOptions,
+  PdfStampNumbersOptions,
+  acceptsMimeType,
+  getConverter,
+  getProtectOptionsError,
+} from "../../convex/converters";
+import { PageRotation } from "../../convex/pageOperations";
+import { selectPages } from "../../convex/pageRanges";
+import { getAcceptAttribute, isCompletedStatus } from "../lib/converters";
+import { getPdfPageCount } from "../lib/pdfThumbnails";
+import { StampNumbersFields, getPresetStampOptions, getStampJobOptions, getStampOptionsError } from "./PdfNumberStamper";
+import { DEFAULT_PROTECT_OPTIONS, ProtectFields, getProtectJobOptions } from "./PdfProtector";
+
+const converter = getConverter("pdf_merger");
+
+const ROTATIONS: PageRotation[] = [0, 90, 180, 270];
+
+// Page picker state for one selected file
+type FilePageSettings = {
+  pages: string;
+  rotation: PageRotation;
+  // Unknown until pdf.js has read the file; null if it could not
+  pageCount?: number | null;
+};
+
+const DEFAULT_PAGE_SETTINGS: FilePageSettings = { pages: "", rotation: 0 };
+
+// Error for a page range that does not fit the file, or null when it is fine
+function getPagesError(settings: FilePageSettings): string | null {
+  if (!settings.pages.trim()) return null;
+  try {
+    // Before the page count is known only the syntax can be checked
+    selectPages(settings.pages, settings.pageCount ?? Number.MAX_SAFE_INTEGER);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
 
 // Simple version without drag and drop
 export function PdfMerger() {
@@ -13,6 +53,21 @@ export function PdfMerger() {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [pageSettings, setPageSettings] = useState<Map<File, FilePageSettings>>(new Map());
+  // Bookmarks and contents page added to the merged PDF
+  const [navigation, setNavigation] = useState({
+    outline: true,
+    preserveSourceOutlines: true,
+    tableOfContents: false,
+  });
+  // Unreadable files are left out with a warning unless this is set to "fail"
+  const [onInvalidSource, setOnInvalidSource] = useState<"skip" | "fail">("skip");
+  // Page or Bates numbers stamped on the merged PDF; off when null
+  const [stampNumbers, setStampNumbers] = useState<PdfStampNumbersOptions | null>(null);
+  const stampNumbersError = stampNumbers ? getStampOptionsError(stampNumbers) : null;
+  // Passwords for the merged PDF; not encrypted when null
+  const [protect, setProtect] = useState<PdfProtectOptions | null>(null);
+  const protectError = protect ? getProtectOptionsError(protect) : null;
   const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
   const [lastConvertedPdf, setLastConvertedPdf] = useState<{ 
     url: string | null; 
@@ -31,8 +86,8 @@ export function PdfMerger() {
     type: "pdf_merger" 
   });
 
-  const MAX_FILES = 20;
-  const MAX_FILE_SIZE_MB = 50;
+  const MAX_FILES = converter.maxInputs;
+  const MAX_FILE_SIZE_MB = converter.maxFileSizeMb;
 
   // Clear the success message after 10 minutes
   useEffect(() => {
@@ -52,7 +107,7 @@ export function PdfMerger() {
     }
 
     // Filter for PDF files
-    const pdfFiles = Array.from(files).filter(file => file.type === 'application/pdf');
+    const pdfFiles = Array.from(files).filter(file => acceptsMimeType(converter, file.type));
     if (pdfFiles.length === 0) {
       toast.error('Please upload PDF files only');
       return;
@@ -79,6 +134,24 @@ export function PdfMerger() {
     );
 
     setSelectedFiles(prevFiles => [...prevFiles, ...newFiles]);
+
+    // Read page counts in the background so the page pickers can show them
+    for (const file of newFiles) {
+      getPdfPageCount(file)
+        .then((pageCount) => updatePageSettings(file, { pageCount }))
+        .catch((error) => {
+          console.error(`Could not read page count of ${file.name}:`, error);
+          updatePageSettings(file, { pageCount: null });
+        });
+    }
+  }
+
+  function getPageSettings(file: File): FilePageSettings {
+    return pageSettings.get(file) ?? DEFAULT_PAGE_SETTINGS;
+  }
+
+  function updatePageSettings(file: File, update: Partial<FilePageSettings>) {
+    setPageSettings(prev => new Map(prev).set(file, { ...(prev.get(file) ?? DEFAULT_PAGE_SETTINGS), ...update }));
   }
 
   async function handleMerge() {
@@ -87,6 +160,20 @@ export function PdfMerger() {
       return;
     }
 
+    const invalidIndex = selectedFiles.findIndex(file => getPagesError(getPageSettings(file)));
+    if (invalidIndex !== -1) {
+      toast.error(`${selectedFiles[invalidIndex].name}: ${getPagesError(getPageSettings(selectedFiles[invalidIndex]))}`);
+      return;
+    }
+    if (stampNumbersError) {
+      toast.error(`Page numbers: ${stampNumbersError}`);
+      return;
+    }
+    if (protectError) {
+      toast.error(protectError);
+      return;
+    }
+
     setIsUploading(true);
     setUploadProgress({});
     setLastConvertedPdf({ url: null, fileName: null, storageId: null });
@@ -94,6 +181,8 @@ export function PdfMerger() {
     try {
       // Upload all PDF files to Convex storage
       const storageIds = [];
+      // Page selection of each uploaded file, kept in step with storageIds
+      const sources: MergeSourceOptions[] = [];
       let totalUploaded = 0;
       
       // Create a toast for overall progress
@@ -145,6 +234,12 @@ export function PdfMerger() {
           });
           
           storageIds.push(uploadResult);
+          const { pages, rotation } = getPageSettings(file);
+          sources.push({
+            fileName: file.name,
+            ...(pages.trim() ? { pages: pages.trim() } : {}),
+            ...(rotation ? { rotation } : {}),
+          });
           totalUploaded++;
           
           // Update the progress toast
@@ -170,7 +265,12 @@ export function PdfMerger() {
       // Start server-side PDF merging
       const conversionId = await startPdfMergerConversion({
         sourceFileIds: storageIds,
-        fileName: fileName
+        fileName: fileName,
+        sources,
+        ...navigation,
+        onInvalidSource,
+        ...(stampNumbers ? { stampNumbers: getStampJobOptions(stampNumbers) } : {}),
+        ...(protect ? { protect: getProtectJobOptions(protect) } : {}),
       });
       
       toast.success('PDFs uploaded and merge started', { id: progressToastId });
@@ -183,11 +283,11 @@ export function PdfMerger() {
         try {
           const conversion = await convex.query(api.files.getConversion, { conversionId });
           
-          if (conversion && conversion.status === "completed" && conversion.pdfUrl) {
+          if (conversion && isCompletedStatus(conversion.status) && conversion.outputUrl) {
             setLastConvertedPdf({
-              url: conversion.pdfUrl,
+              url: conversion.outputUrl,
               fileName: fileName,
-              storageId: conversion.pdfFileId || null
+              storageId: conversion.outputFileId || null
             });
           }
         } catch (error) {
@@ -196,6 +296,7 @@ export function PdfMerger() {
       }, 3000);
       
       setSelectedFiles([]);
+      setPageSettings(new Map());
     } catch (error) {
       console.error("Overall process failed:", error);
       toast.error('The merging process encountered an error');
@@ -222,11 +323,18 @@ export function PdfMerger() {
   }
 
   function handleRemoveFile(index: number) {
+    const removed = selectedFiles[index];
     setSelectedFiles(prevFiles => prevFiles.filter((_, i) => i !== index));
+    setPageSettings(prev => {
+      const next = new Map(prev);
+      next.delete(removed);
+      return next;
+    });
   }
 
   function handleRemoveAllFiles() {
     setSelectedFiles([]);
+    setPageSettings(new Map());
   }
 
   function handleDrop(e: React.DragEvent) {
@@ -257,7 +365,7 @@ export function PdfMerger() {
           ref={fileInput} 
           className="hidden" 
           onChange={handleChange} 
-          accept="application/pdf" 
+          accept={getAcceptAttribute(converter.id)} 
           multiple 
           disabled={isUploading}
         />
@@ -317,7 +425,38 @@ export function PdfMerger() {
                   </div>
                   <div className="min-w-0 flex-1">
                     <p className="font-medium truncate">{file.name}</p>
-                    <p className="text-xs text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                    <p className="text-xs text-gray-500">
+                      {(file.size / 1024 / 1024).toFixed(2)} MB
+                      {getPageSettings(file).pageCount ? `, ${getPageSettings(file).pageCount} pages` : ''}
+                    </p>
+                    {/* Per-file page picker */}
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      <input
+                        type="text"
+                        value={getPageSettings(file).pages}
+                        onChange={(e) => updatePageSettings(file, { pages: e.target.value })}
+                        placeholder="All pages, or e.g. 2-4"
+                        aria-label={`Pages of ${file.name}`}
+                        className={`w-44 border rounded px-2 py-1 text-sm ${getPagesError(getPageSettings(file)) ? 'border-red-400' : 'border-gray-300'}`}
+                        disabled={isUploading}
+                      />
+                      <select
+                        value={getPageSettings(file).rotation}
+                        onChange={(e) => updatePageSettings(file, { rotation: Number(e.target.value) as PageRotation })}
+                        aria-label={`Rotation of ${file.name}`}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                        disabled={isUploading}
+                      >
+                        {ROTATIONS.map(rotation => (
+                          <option key={rotation} value={rotation}>
+                            {rotation === 0 ? 'No rotation' : `Rotate ${rotation}°`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {getPagesError(getPageSettings(file)) && (
+                      <p className="text-xs text-red-500 mt-1">{getPagesError(getPageSettings(file))}</p>
+                    )}
                   </div>
                   {uploadProgress[file.name] !== undefined && uploadProgress[file.name] < 100 && (
                     <div className="w-24 bg-gray-200 rounded-full h-2.5">
@@ -342,6 +481,88 @@ export function PdfMerger() {
             ))}
           </div>
           
+          {/* Navigation Options */}
+          <div className="border rounded-lg p-4 bg-white space-y-2">
+            <h4 className="text-sm font-semibold text-gray-700">Navigation</h4>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={navigation.outline}
+                onChange={(e) => setNavigation(prev => ({ ...prev, outline: e.target.checked }))}
+                disabled={isUploading}
+              />
+              Add a bookmark for each file
+            </label>
+            <label className={`flex items-center gap-2 text-sm ml-6 ${navigation.outline ? 'text-gray-700' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                checked={navigation.preserveSourceOutlines}
+                onChange={(e) => setNavigation(prev => ({ ...prev, preserveSourceOutlines: e.target.checked }))}
+                disabled={isUploading || !navigation.outline}
+              />
+              Keep each file's own bookmarks under it
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={navigation.tableOfContents}
+                onChange={(e) => setNavigation(prev => ({ ...prev, tableOfContents: e.target.checked }))}
+                disabled={isUploading}
+              />
+              Insert a table of contents page at the front
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pt-2">
+              If a file can't be read:
+              <select
+                value={onInvalidSource}
+                onChange={(e) => setOnInvalidSource(e.target.value as "skip" | "fail")}
+                className="border border-gray-300 rounded px-2 py-1 text-sm"
+                disabled={isUploading}
+              >
+                <option value="skip">Leave it out and warn me</option>
+                <option value="fail">Stop the merge</option>
+              </select>
+            </label>
+          </div>
+
+          {/* Page Numbers */}
+          <div className="border rounded-lg p-4 bg-white space-y-3">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={stampNumbers !== null}
+                onChange={(e) => setStampNumbers(e.target.checked ? getPresetStampOptions("pageNumbers") : null)}
+                disabled={isUploading}
+              />
+              Number the merged pages
+            </label>
+            {stampNumbers && (
+              <>
+                <StampNumbersFields options={stampNumbers} onChange={setStampNumbers} disabled={isUploading} idPrefix="merge-stamp" />
+                {stampNumbersError && <p className="text-xs text-red-500">{stampNumbersError}</p>}
+              </>
+            )}
+          </div>
+
+          {/* Password Protection */}
+          <div className="border rounded-lg p-4 bg-white space-y-3">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={protect !== null}
+                onChange={(e) => setProtect(e.target.checked ? DEFAULT_PROTECT_OPTIONS : null)}
+                disabled={isUploading}
+              />
+              Protect the merged PDF with a password
+            </label>
+            {protect && (
+              <>
+                <ProtectFields options={protect} onChange={setProtect} disabled={isUploading} idPrefix="merge-protect" />
+                {protectError && <p className="text-xs text-red-500">{protectError}</p>}
+              </>
+            )}
+          </div>
+
           {/* Prominent Merge Button */}
           <div className="mt-6 flex justify-center">
             <button 
@@ -397,7 +618,7 @@ export function PdfMerger() {
       {/* Previous Conversions */}
       <div>
         <h3 className="font-semibold mb-4">Your Previous Merges</h3>
-        <ConversionsList forceRefresh={refreshTrigger} type="pdf_merger" />
+        <ConversionsList forceRefresh={refreshTrigger} type={converter.id} />
       </div>
     </div>
   );
@@ -0,0 +1,418 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  BATES_MAX_DIGITS,
+  PdfStampNumbersOptions,
+  STAMP_NUMBERS_DEFAULTS,
+  STAMP_TOKENS,
+  StampLine,
+  acceptsFile,
+  formatBatesNumber,
+  getConverter,
+  getFileMimeType,
+} from "../../convex/converters";
+import { parsePageRanges } from "../../convex/pageRanges";
+import { formatFileSize, getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("pdf_stamp_numbers");
+
+// Starting points for the header and footer fields, which stay editable
+const STAMP_PRESETS = {
+  pageNumbers: {
+    label: "Page numbers",
+    description: "Page 1 of 10, centred in the footer",
+    header: {},
+    footer: { center: "Page {page} of {total}" },
+  },
+  bates: {
+    label: "Bates numbers",
+    description: "000001 and up with an optional prefix, bottom right",
+    header: {},
+    footer: { right: "{bates}" },
+  },
+  headerFooter: {
+    label: "Header and footer",
+    description: "File name and date on top, page number below",
+    header: { left: "{filename}", right: "{date}" },
+    footer: { center: "{page}" },
+  },
+} as const satisfies Record<string, { label: string; description: string; header: StampLine; footer: StampLine }>;
+
+export type StampPreset = keyof typeof STAMP_PRESETS;
+
+const PRESET_OPTIONS = Object.entries(STAMP_PRESETS) as [StampPreset, (typeof STAMP_PRESETS)[StampPreset]][];
+
+const SLOTS = [
+  { slot: "left", label: "Left" },
+  { slot: "center", label: "Centre" },
+  { slot: "right", label: "Right" },
+] as const;
+
+export function getPresetStampOptions(preset: StampPreset): PdfStampNumbersOptions {
+  const { header, footer } = STAMP_PRESETS[preset];
+  return { header: { ...header }, footer: { ...footer } };
+}
+
+// Problems the browser can spot before uploading; the server checks the rest
+export function getStampOptionsError(options: PdfStampNumbersOptions): string | null {
+  const texts = [options.header, options.footer].flatMap((line) => Object.values(line ?? {}));
+  if (!texts.some((text) => text?.trim())) {
+    return 'Enter the text to stamp in the header or footer';
+  }
+  const digits = options.batesDigits ?? STAMP_NUMBERS_DEFAULTS.batesDigits;
+  if (!Number.isInteger(digits) || digits < 1 || digits > BATES_MAX_DIGITS) {
+    return `Bates numbers can have 1 to ${BATES_MAX_DIGITS} digits`;
+  }
+  const start = options.batesStart ?? STAMP_NUMBERS_DEFAULTS.batesStart;
+  if (!Number.isSafeInteger(start) || start < 0) {
+    return 'The first Bates number must be a whole number of zero or more';
+  }
+  if (options.pages?.trim()) {
+    try {
+      parsePageRanges(options.pages);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  return null;
+}
+
+// Options as sent to the server, without an empty page range
+export function getStampJobOptions(options: PdfStampNumbersOptions): PdfStampNumbersOptions {
+  const { pages, ...rest } = options;
+  return { ...rest, ...(pages?.trim() ? { pages } : {}) };
+}
+
+// Header, footer and Bates fields, shared with the merge tool
+export function StampNumbersFields({
+  options,
+  onChange,
+  disabled,
+  idPrefix,
+}: {
+  options: PdfStampNumbersOptions;
+  onChange: (options: PdfStampNumbersOptions) => void;
+  disabled?: boolean;
+  idPrefix: string;
+}) {
+  const usesBates = [options.header, options.footer]
+    .flatMap((line) => Object.values(line ?? {}))
+    .some((text) => text?.includes("{bates}"));
+  const batesPrefix = options.batesPrefix ?? STAMP_NUMBERS_DEFAULTS.batesPrefix;
+  const batesDigits = options.batesDigits ?? STAMP_NUMBERS_DEFAULTS.batesDigits;
+  const batesStart = options.batesStart ?? STAMP_NUMBERS_DEFAULTS.batesStart;
+
+  let pagesError: string | null = null;
+  if (options.pages?.trim()) {
+    try {
+      parsePageRanges(options.pages);
+    } catch (error) {
+      pagesError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  function setLine(line: "header" | "footer", slot: keyof StampLine, text: string) {
+    onChange({ ...options, [line]: { ...options[line], [slot]: text } });
+  }
+
+  return (
+    <div className="space-y-4">
+      {(["header", "footer"] as const).map((line) => (
+        <div key={line}>
+          <p className="block text-sm font-medium text-gray-700 mb-1">{line === "header" ? "Header" : "Footer"}</p>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {SLOTS.map(({ slot, label }) => (
+              <input
+                key={slot}
+                type="text"
+                aria-label={`${line === "header" ? "Header" : "Footer"} ${label.toLowerCase()}`}
+                value={options[line]?.[slot] ?? ""}
+                onChange={(e) => setLine(line, slot, e.target.value)}
+                placeholder={label}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+                disabled={disabled}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">
+        {Object.entries(STAMP_TOKENS).map(([token, { label }], index) => (
+          <span key={token}>
+            {index > 0 && ", "}
+            <code className="text-gray-700">{token}</code> {label.toLowerCase()}
+          </span>
+        ))}
+      </p>
+
+      {usesBates && (
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`${idPrefix}-bates-prefix`}>
+              Bates prefix
+            </label>
+            <input
+              id={`${idPrefix}-bates-prefix`}
+              type="text"
+              value={batesPrefix}
+              onChange={(e) => onChange({ ...options, batesPrefix: e.target.value })}
+              placeholder="ABC"
+              className="w-full border border-gray-300 rounded-md px-3 py-2"
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`${idPrefix}-bates-digits`}>
+              Digits
+            </label>
+            <input
+              id={`${idPrefix}-bates-digits`}
+              type="number"
+              min={1}
+              max={BATES_MAX_DIGITS}
+              value={batesDigits}
+              onChange={(e) => onChange({ ...options, batesDigits: Number(e.target.value) })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2"
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`${idPrefix}-bates-start`}>
+              Start at
+            </label>
+            <input
+              id={`${idPrefix}-bates-start`}
+              type="number"
+              min={0}
+              value={batesStart}
+              onChange={(e) => onChange({ ...options, batesStart: Number(e.target.value) })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2"
+              disabled={disabled}
+            />
+          </div>
+          <p className="text-xs text-gray-500 sm:col-span-3">
+            The first stamped page gets {formatBatesNumber(batesPrefix, Math.max(1, Math.min(BATES_MAX_DIGITS, batesDigits || 1)), batesStart || 0)}
+          </p>
+        </div>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`${idPrefix}-font-size`}>
+            Font size
+          </label>
+          <input
+            id={`${idPrefix}-font-size`}
+            type="number"
+            min={4}
+            max={72}
+            value={options.fontSize ?? STAMP_NUMBERS_DEFAULTS.fontSize}
+            onChange={(e) => onChange({ ...options, fontSize: Number(e.target.value) })}
+            className="w-full border border-gray-300 rounded-md px-3 py-2"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`${idPrefix}-pages`}>
+            Pages
+          </label>
+          <input
+            id={`${idPrefix}-pages`}
+            type="text"
+            value={options.pages ?? ""}
+            onChange={(e) => onChange({ ...options, pages: e.target.value })}
+            placeholder="All pages"
+            className={`w-full border rounded-md px-3 py-2 ${pagesError ? 'border-red-400' : 'border-gray-300'}`}
+            disabled={disabled}
+          />
+          <p className={`text-xs mt-1 ${pagesError ? 'text-red-500' : 'text-gray-500'}`}>
+            {pagesError ?? 'Leave empty to stamp every page, or enter ranges such as 2-'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PdfNumberStamper() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [preset, setPreset] = useState<StampPreset>("pageNumbers");
+  const [options, setOptions] = useState<PdfStampNumbersOptions>(() => getPresetStampOptions("pageNumbers"));
+
+  const optionsError = getStampOptionsError(options);
+
+  function choosePreset(id: StampPreset) {
+    setPreset(id);
+    setOptions((current) => ({ ...current, ...getPresetStampOptions(id) }));
+  }
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsFile(converter, file)) {
+      toast.error('Please upload a PDF file');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  async function handleStamp() {
+    if (!selectedFile) {
+      toast.error('Please select a PDF to number');
+      return;
+    }
+    if (optionsError) {
+      toast.error(optionsError);
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading file...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": getFileMimeType(selectedFile) },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options: getStampJobOptions(options),
+      });
+
+      toast.success('File uploaded and numbering started', { id: progressToastId });
+      setSelectedFile(null);
+    } catch (error) {
+      console.error("Error during upload/numbering:", error);
+      toast.error('Upload or numbering failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-lime-500 bg-lime-50' : 'border-gray-300 hover:border-lime-400 hover:bg-lime-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-lime-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-lime-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 8.25h15m-16.5 7.5h15m-1.8-13.5l-3.9 19.5m-2.1-19.5l-3.9 19.5" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a PDF here to add page or Bates numbers"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${formatFileSize(selectedFile.size)}, click to choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-lime-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-lime-700 font-medium">
+                Maximum file size: {converter.maxFileSizeMb}MB
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Numbering Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">Numbering</h3>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {PRESET_OPTIONS.map(([id, option]) => (
+              <label
+                key={id}
+                className={`border rounded-lg p-3 cursor-pointer transition-colors
+                  ${preset === id ? 'border-lime-500 bg-lime-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <input
+                  type="radio"
+                  name="stamp-preset"
+                  className="sr-only"
+                  checked={preset === id}
+                  onChange={() => choosePreset(id)}
+                  disabled={isUploading}
+                />
+                <p className="font-medium text-gray-800">{option.label}</p>
+                <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+              </label>
+            ))}
+          </div>
+
+          <StampNumbersFields options={options} onChange={setOptions} disabled={isUploading} idPrefix="stamp" />
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-lime-600 hover:bg-lime-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleStamp}
+              disabled={isUploading || Boolean(optionsError)}
+            >
+              {isUploading ? "Numbering..." : "Add numbers"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Numbered PDFs</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
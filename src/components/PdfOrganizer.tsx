@@ -0,0 +1,339 @@
+import { useState, useRef, useEffect, useMemo, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { DragDropContext, Draggable, Droppable, DroppableProps, DropResult } from "react-beautiful-dnd";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import { acceptsMimeType, getConverter } from "../../convex/converters";
+import { PageOperation, PdfOrganizeOptions, applyPageOperations } from "../../convex/pageOperations";
+import { getAcceptAttribute } from "../lib/converters";
+import { PageThumbnail, renderPdfThumbnails } from "../lib/pdfThumbnails";
+
+const converter = getConverter("pdf_organize");
+
+// react-beautiful-dnd registers droppables in an effect that React 18's
+// StrictMode runs twice; enabling the droppable a frame later avoids the
+// "Unable to find droppable" error in development
+function StrictModeDroppable(props: DroppableProps) {
+  const [enabled, setEnabled] = useState(false);
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setEnabled(true));
+    return () => {
+      cancelAnimationFrame(frame);
+      setEnabled(false);
+    };
+  }, []);
+  return enabled ? <Droppable {...props} /> : null;
+}
+
+function describeOperation(operation: PageOperation): string {
+  switch (operation.type) {
+    case "move":
+      return `Moved page ${operation.page} to position ${operation.toPosition}`;
+    case "rotate":
+      return `Rotated page ${operation.page} ${operation.degrees < 0 ? 'left' : 'right'}${Math.abs(operation.degrees) === 180 ? ' twice' : ''}`;
+    case "delete":
+      return `Deleted page ${operation.page}`;
+  }
+}
+
+export function PdfOrganizer() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [thumbnails, setThumbnails] = useState<PageThumbnail[]>([]);
+  // Every edit in the order it was made; sent as the job options
+  const [operations, setOperations] = useState<PageOperation[]>([]);
+
+  const layout = useMemo(
+    () => (thumbnails.length > 0 ? applyPageOperations(thumbnails.length, operations) : []),
+    [thumbnails.length, operations]
+  );
+
+  async function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsMimeType(converter, file.type)) {
+      toast.error('Please upload a PDF file');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+
+    setSelectedFile(file);
+    setThumbnails([]);
+    setOperations([]);
+    setIsRendering(true);
+
+    const toastId = toast.loading('Rendering pages...');
+    try {
+      const rendered = await renderPdfThumbnails(file, (done, total) => {
+        toast.loading(`Rendering pages: ${done}/${total}`, { id: toastId });
+      });
+      setThumbnails(rendered);
+      toast.success(`Loaded ${rendered.length} page${rendered.length !== 1 ? 's' : ''}`, { id: toastId });
+    } catch (error) {
+      console.error("Error rendering PDF pages:", error);
+      toast.error('Could not read this PDF: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: toastId });
+      setSelectedFile(null);
+    } finally {
+      setIsRendering(false);
+    }
+  }
+
+  function addOperation(operation: PageOperation) {
+    setOperations(prev => [...prev, operation]);
+  }
+
+  function handleDragEnd(result: DropResult) {
+    const { source, destination } = result;
+    if (!destination || destination.index === source.index) return;
+    addOperation({ type: "move", page: layout[source.index].page, toPosition: destination.index + 1 });
+  }
+
+  function handleDelete(page: number) {
+    if (layout.length === 1) {
+      toast.error('The document needs at least one page');
+      return;
+    }
+    addOperation({ type: "delete", page });
+  }
+
+  async function handleApply() {
+    if (!selectedFile || operations.length === 0) {
+      toast.error('Make at least one change before applying');
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading PDF...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": selectedFile.type },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+      const options: PdfOrganizeOptions = { operations };
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options,
+      });
+
+      toast.success('Changes are being applied', { id: progressToastId });
+      setSelectedFile(null);
+      setThumbnails([]);
+      setOperations([]);
+    } catch (error) {
+      console.error("Error during upload/organize:", error);
+      toast.error('Applying changes failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+  }
+
+  const isBusy = isRendering || isUploading;
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400 hover:bg-indigo-50'}
+          ${isBusy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isBusy && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isBusy}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-indigo-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-indigo-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6A2.25 2.25 0 016 3.75h2.25A2.25 2.25 0 0110.5 6v2.25a2.25 2.25 0 01-2.25 2.25H6a2.25 2.25 0 01-2.25-2.25V6zM3.75 15.75A2.25 2.25 0 016 13.5h2.25a2.25 2.25 0 012.25 2.25V18a2.25 2.25 0 01-2.25 2.25H6A2.25 2.25 0 013.75 18v-2.25zM13.5 6a2.25 2.25 0 012.25-2.25H18A2.25 2.25 0 0120.25 6v2.25A2.25 2.25 0 0118 10.5h-2.25a2.25 2.25 0 01-2.25-2.25V6zM13.5 15.75a2.25 2.25 0 012.25-2.25H18a2.25 2.25 0 012.25 2.25V18A2.25 2.25 0 0118 20.25h-2.25A2.25 2.25 0 0113.5 18v-2.25z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a PDF file here to organize its pages"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile ? "Click to choose another file" : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-indigo-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-indigo-600 font-medium">Maximum {converter.maxFileSizeMb}MB</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Page Thumbnails */}
+      {layout.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold">Pages ({layout.length} of {thumbnails.length})</h3>
+            <div className="flex gap-3 text-sm">
+              <button
+                className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                onClick={() => setOperations(prev => prev.slice(0, -1))}
+                disabled={isBusy || operations.length === 0}
+              >
+                Undo
+              </button>
+              <button
+                className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                onClick={() => setOperations([])}
+                disabled={isBusy || operations.length === 0}
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500">Drag pages to reorder them.</p>
+
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <StrictModeDroppable droppableId="pdf-pages" direction="horizontal">
+              {(provided) => (
+                <div
+                  ref={provided.innerRef}
+                  {...provided.droppableProps}
+                  className="flex gap-3 overflow-x-auto pb-4"
+                >
+                  {layout.map(({ page, rotation }, index) => {
+                    const thumbnail = thumbnails[page - 1];
+                    return (
+                      <Draggable key={page} draggableId={`page-${page}`} index={index} isDragDisabled={isBusy}>
+                        {(provided, snapshot) => (
+                          <div
+                            ref={provided.innerRef}
+                            {...provided.draggableProps}
+                            {...provided.dragHandleProps}
+                            className={`flex-shrink-0 w-44 border rounded-lg bg-white p-2 shadow-sm
+                              ${snapshot.isDragging ? 'shadow-lg border-indigo-400' : 'hover:shadow-md'}`}
+                          >
+                            <div className="h-44 flex items-center justify-center bg-gray-50 rounded overflow-hidden">
+                              <img
+                                src={thumbnail.dataUrl}
+                                alt={`Page ${page}`}
+                                className="max-h-40 max-w-[10rem] object-contain transition-transform"
+                                style={{ transform: `rotate(${rotation}deg)` }}
+                                draggable={false}
+                              />
+                            </div>
+                            <div className="flex items-center justify-between mt-2">
+                              <span className="text-xs text-gray-600">
+                                {index + 1}
+                                {page !== index + 1 && <span className="text-gray-400"> (page {page})</span>}
+                              </span>
+                              <div className="flex gap-1">
+                                <button
+                                  className="p-1 rounded hover:bg-gray-100 text-gray-600"
+                                  onClick={() => addOperation({ type: "rotate", page, degrees: -90 })}
+                                  disabled={isBusy}
+                                  aria-label={`Rotate page ${page} left`}
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+                                  </svg>
+                                </button>
+                                <button
+                                  className="p-1 rounded hover:bg-gray-100 text-gray-600"
+                                  onClick={() => addOperation({ type: "rotate", page, degrees: 90 })}
+                                  disabled={isBusy}
+                                  aria-label={`Rotate page ${page} right`}
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" />
+                                  </svg>
+                                </button>
+                                <button
+                                  className="p-1 rounded hover:bg-red-50 text-gray-400 hover:text-red-500"
+                                  onClick={() => handleDelete(page)}
+                                  disabled={isBusy}
+                                  aria-label={`Delete page ${page}`}
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                  </svg>
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+                        )}
+                      </Draggable>
+                    );
+                  })}
+                  {provided.placeholder}
+                </div>
+              )}
+            </StrictModeDroppable>
+          </DragDropContext>
+
+          {operations.length > 0 && (
+            <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+              <h4 className="text-sm font-medium text-gray-700 mb-1">Changes ({operations.length})</h4>
+              <ol className="text-xs text-gray-600 list-decimal list-inside space-y-0.5 max-h-32 overflow-y-auto">
+                {operations.map((operation, index) => (
+                  <li key={index}>{describeOperation(operation)}</li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-indigo-600 hover:bg-indigo-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleApply}
+              disabled={isBusy || operations.length === 0}
+            >
+              {isUploading ? "Applying..." : "Apply Changes"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previously Organized PDFs</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  PDF_PERMISSIONS,
+  PdfPermission,
+  PdfProtectOptions,
+  acceptsFile,
+  getConverter,
+  getFileMimeType,
+  getProtectOptionsError,
+} from "../../convex/converters";
+import { formatFileSize, getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("pdf_protect");
+
+const PERMISSION_OPTIONS = Object.entries(PDF_PERMISSIONS) as [PdfPermission, (typeof PDF_PERMISSIONS)[PdfPermission]][];
+
+// Printing stays allowed unless it is switched off
+export const DEFAULT_PROTECT_OPTIONS: PdfProtectOptions = {
+  userPassword: "",
+  ownerPassword: "",
+  permissions: ["print"],
+};
+
+// Options as sent to the server, without empty passwords
+export function getProtectJobOptions(options: PdfProtectOptions): PdfProtectOptions {
+  return {
+    ...(options.userPassword ? { userPassword: options.userPassword } : {}),
+    ...(options.ownerPassword ? { ownerPassword: options.ownerPassword } : {}),
+    permissions: options.permissions ?? [],
+  };
+}
+
+// Password and permission fields, shared with the merge and image to PDF tools
+export function ProtectFields({
+  options,
+  onChange,
+  disabled,
+  idPrefix,
+}: {
+  options: PdfProtectOptions;
+  onChange: (options: PdfProtectOptions) => void;
+  disabled?: boolean;
+  idPrefix: string;
+}) {
+  const [showPasswords, setShowPasswords] = useState(false);
+  const permissions = options.permissions ?? [];
+
+  function togglePermission(permission: PdfPermission) {
+    onChange({
+      ...options,
+      permissions: permissions.includes(permission)
+        ? permissions.filter((granted) => granted !== permission)
+        : [...permissions, permission],
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`${idPrefix}-user-password`}>
+            Password to open
+          </label>
+          <input
+            id={`${idPrefix}-user-password`}
+            type={showPasswords ? "text" : "password"}
+            autoComplete="new-password"
+            value={options.userPassword ?? ""}
+            onChange={(e) => onChange({ ...options, userPassword: e.target.value })}
+            placeholder="Anyone can open it"
+            className="w-full border border-gray-300 rounded-md px-3 py-2"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`${idPrefix}-owner-password`}>
+            Owner password
+          </label>
+          <input
+            id={`${idPrefix}-owner-password`}
+            type={showPasswords ? "text" : "password"}
+            autoComplete="new-password"
+            value={options.ownerPassword ?? ""}
+            onChange={(e) => onChange({ ...options, ownerPassword: e.target.value })}
+            placeholder="Nobody can lift the restrictions"
+            className="w-full border border-gray-300 rounded-md px-3 py-2"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input type="checkbox" checked={showPasswords} onChange={(e) => setShowPasswords(e.target.checked)} />
+        Show passwords
+      </label>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700 mb-1">Allow people with the password to open it to</p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {PERMISSION_OPTIONS.map(([id, option]) => (
+            <label key={id} className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={permissions.includes(id)}
+                onChange={() => togglePermission(id)}
+                disabled={disabled}
+              />
+              <span>
+                {option.label}
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          The owner password opens the document without restrictions. Passwords cannot be recovered, so keep them somewhere safe.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export function PdfProtector() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [options, setOptions] = useState<PdfProtectOptions>(DEFAULT_PROTECT_OPTIONS);
+
+  const optionsError = getProtectOptionsError(options);
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsFile(converter, file)) {
+      toast.error('Please upload a PDF file');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  async function handleProtect() {
+    if (!selectedFile) {
+      toast.error('Please select a PDF to protect');
+      return;
+    }
+    if (optionsError) {
+      toast.error(optionsError);
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading file...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": getFileMimeType(selectedFile) },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options: getProtectJobOptions(options),
+      });
+
+      toast.success('File uploaded and encryption started', { id: progressToastId });
+      setSelectedFile(null);
+      setOptions(DEFAULT_PROTECT_OPTIONS);
+    } catch (error) {
+      console.error("Error during upload/encryption:", error);
+      toast.error('Upload or encryption failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-slate-500 bg-slate-50' : 'border-gray-300 hover:border-slate-400 hover:bg-slate-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-slate-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-slate-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a PDF here to protect it with a password"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${formatFileSize(selectedFile.size)}, click to choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-slate-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-slate-600 font-medium">
+                AES-256 encryption, maximum file size: {converter.maxFileSizeMb}MB
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Protection Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">Passwords and permissions</h3>
+          <ProtectFields options={options} onChange={setOptions} disabled={isUploading} idPrefix="protect" />
+          {optionsError && <p className="text-xs text-red-500">{optionsError}</p>}
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-slate-700 hover:bg-slate-800 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleProtect}
+              disabled={isUploading || Boolean(optionsError)}
+            >
+              {isUploading ? "Protecting..." : "Protect PDF"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Protected PDFs</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import { PdfSplitOptions, acceptsMimeType, getConverter } from "../../convex/converters";
+import { parsePageRanges } from "../../convex/pageRanges";
+import { getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("pdf_split");
+
+const SPLIT_MODES: { mode: PdfSplitOptions["mode"]; label: string; description: string }[] = [
+  { mode: "ranges", label: "By page ranges", description: "One file per range, e.g. 1-3,5,8-" },
+  { mode: "every", label: "Every N pages", description: "Fixed-size chunks from the first page" },
+  { mode: "single", label: "One file per page", description: "Extract every page on its own" },
+];
+
+export function PdfSplitter() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<PdfSplitOptions["mode"]>("ranges");
+  const [ranges, setRanges] = useState("");
+  const [pagesPerFile, setPagesPerFile] = useState(1);
+
+  // Syntax errors are shown while typing; page counts are checked on the server
+  let rangesError: string | null = null;
+  if (mode === "ranges" && ranges.trim()) {
+    try {
+      parsePageRanges(ranges);
+    } catch (error) {
+      rangesError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsMimeType(converter, file.type)) {
+      toast.error('Please upload a PDF file');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  function getOptions(): PdfSplitOptions | null {
+    switch (mode) {
+      case "ranges":
+        if (!ranges.trim() || rangesError) {
+          toast.error(rangesError ?? 'Enter the page ranges to extract');
+          return null;
+        }
+        return { mode, ranges };
+      case "every":
+        if (!Number.isInteger(pagesPerFile) || pagesPerFile < 1) {
+          toast.error('Pages per file must be a whole number of at least 1');
+          return null;
+        }
+        return { mode, pagesPerFile };
+      case "single":
+        return { mode };
+    }
+  }
+
+  async function handleSplit() {
+    if (!selectedFile) {
+      toast.error('Please select a PDF file to split');
+      return;
+    }
+    const options = getOptions();
+    if (!options) return;
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading PDF...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": selectedFile.type },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options,
+      });
+
+      toast.success('PDF uploaded and split started', { id: progressToastId });
+      setSelectedFile(null);
+    } catch (error) {
+      console.error("Error during upload/split:", error);
+      toast.error('Upload or split failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400 hover:bg-indigo-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-indigo-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-indigo-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m6.75 12l-3-3m0 0l-3 3m3-3v6m-1.5-15H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a PDF file here to split it"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${(selectedFile.size / 1024 / 1024).toFixed(2)} MB, click to choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-indigo-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-indigo-600 font-medium">Maximum {converter.maxFileSizeMb}MB</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Split Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">How should the PDF be split?</h3>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {SPLIT_MODES.map((option) => (
+              <label
+                key={option.mode}
+                className={`border rounded-lg p-3 cursor-pointer transition-colors
+                  ${mode === option.mode ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <input
+                  type="radio"
+                  name="split-mode"
+                  className="sr-only"
+                  checked={mode === option.mode}
+                  onChange={() => setMode(option.mode)}
+                  disabled={isUploading}
+                />
+                <p className="font-medium text-gray-800">{option.label}</p>
+                <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+              </label>
+            ))}
+          </div>
+
+          {mode === "ranges" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="split-ranges">
+                Page ranges
+              </label>
+              <input
+                id="split-ranges"
+                type="text"
+                value={ranges}
+                onChange={(e) => setRanges(e.target.value)}
+                placeholder="1-3,5,8-"
+                className={`w-full border rounded-md px-3 py-2 ${rangesError ? 'border-red-400' : 'border-gray-300'}`}
+                disabled={isUploading}
+              />
+              <p className={`text-xs mt-1 ${rangesError ? 'text-red-500' : 'text-gray-500'}`}>
+                {rangesError ?? 'Each comma-separated range becomes its own file. "8-" runs to the last page.'}
+              </p>
+            </div>
+          )}
+
+          {mode === "every" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="split-every">
+                Pages per file
+              </label>
+              <input
+                id="split-every"
+                type="number"
+                min={1}
+                value={pagesPerFile}
+                onChange={(e) => setPagesPerFile(Number(e.target.value))}
+                className="w-32 border border-gray-300 rounded-md px-3 py-2"
+                disabled={isUploading}
+              />
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-indigo-600 hover:bg-indigo-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleSplit}
+              disabled={isUploading || Boolean(rangesError)}
+            >
+              {isUploading ? "Splitting..." : "Split PDF"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Splits</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  PAGE_IMAGE_DPI,
+  PAGE_IMAGE_FORMATS,
+  PDF_TO_IMAGES_MAX_PAGES,
+  PageImageFormat,
+  PdfToImagesOptions,
+  acceptsMimeType,
+  getConverter,
+} from "../../convex/converters";
+import { parsePageRanges } from "../../convex/pageRanges";
+import { formatFileSize, getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("pdf_to_images");
+
+const FORMAT_OPTIONS = Object.entries(PAGE_IMAGE_FORMATS) as [PageImageFormat, (typeof PAGE_IMAGE_FORMATS)[PageImageFormat]][];
+
+const DPI_PRESETS = [72, 150, 300];
+
+export function PdfToImagesConverter() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<PageImageFormat>("png");
+  const [dpi, setDpi] = useState<number>(PAGE_IMAGE_DPI.default);
+  const [pages, setPages] = useState("");
+  const [jpegQuality, setJpegQuality] = useState(85);
+
+  // Syntax errors are shown while typing; page counts are checked on the server
+  let pagesError: string | null = null;
+  if (pages.trim()) {
+    try {
+      parsePageRanges(pages);
+    } catch (error) {
+      pagesError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  const dpiError = !Number.isFinite(dpi) || dpi < PAGE_IMAGE_DPI.min || dpi > PAGE_IMAGE_DPI.max
+    ? `Resolution must be between ${PAGE_IMAGE_DPI.min} and ${PAGE_IMAGE_DPI.max} DPI`
+    : null;
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsMimeType(converter, file.type)) {
+      toast.error('Please upload a PDF file');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  async function handleExport() {
+    if (!selectedFile) {
+      toast.error('Please select a PDF file to export');
+      return;
+    }
+    const error = pagesError ?? dpiError;
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading PDF...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": selectedFile.type },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+      const options: PdfToImagesOptions = {
+        format,
+        dpi,
+        ...(pages.trim() ? { pages } : {}),
+        ...(format === "jpeg" ? { jpegQuality: jpegQuality / 100 } : {}),
+      };
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options,
+      });
+
+      toast.success('PDF uploaded and export started', { id: progressToastId });
+      setSelectedFile(null);
+    } catch (error) {
+      console.error("Error during upload/export:", error);
+      toast.error('Upload or export failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-fuchsia-500 bg-fuchsia-50' : 'border-gray-300 hover:border-fuchsia-400 hover:bg-fuchsia-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-fuchsia-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-fuchsia-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a PDF file here to export its pages as images"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${formatFileSize(selectedFile.size)}, click to choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-fuchsia-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-fuchsia-600 font-medium">
+                Maximum {converter.maxFileSizeMb}MB, up to {PDF_TO_IMAGES_MAX_PAGES} pages per export
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Export Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">Image format</h3>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {FORMAT_OPTIONS.map(([id, option]) => (
+              <label
+                key={id}
+                className={`border rounded-lg p-3 cursor-pointer transition-colors
+                  ${format === id ? 'border-fuchsia-500 bg-fuchsia-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <input
+                  type="radio"
+                  name="image-format"
+                  className="sr-only"
+                  checked={format === id}
+                  onChange={() => setFormat(id)}
+                  disabled={isUploading}
+                />
+                <p className="font-medium text-gray-800">{option.label}</p>
+                <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="export-dpi">
+                Resolution (DPI)
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="export-dpi"
+                  type="number"
+                  min={PAGE_IMAGE_DPI.min}
+                  max={PAGE_IMAGE_DPI.max}
+                  value={dpi}
+                  onChange={(e) => setDpi(Number(e.target.value))}
+                  className={`w-24 border rounded-md px-3 py-2 ${dpiError ? 'border-red-400' : 'border-gray-300'}`}
+                  disabled={isUploading}
+                />
+                {DPI_PRESETS.map((preset) => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => setDpi(preset)}
+                    className={`text-xs px-2 py-1 rounded-full border transition-colors
+                      ${dpi === preset ? 'border-fuchsia-500 bg-fuchsia-50 text-fuchsia-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    disabled={isUploading}
+                  >
+                    {preset}
+                  </button>
+                ))}
+              </div>
+              <p className={`text-xs mt-1 ${dpiError ? 'text-red-500' : 'text-gray-500'}`}>
+                {dpiError ?? '72 for screens, 150 for most uses, 300 for print'}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="export-pages">
+                Pages
+              </label>
+              <input
+                id="export-pages"
+                type="text"
+                value={pages}
+                onChange={(e) => setPages(e.target.value)}
+                placeholder="All pages"
+                className={`w-full border rounded-md px-3 py-2 ${pagesError ? 'border-red-400' : 'border-gray-300'}`}
+                disabled={isUploading}
+              />
+              <p className={`text-xs mt-1 ${pagesError ? 'text-red-500' : 'text-gray-500'}`}>
+                {pagesError ?? 'Leave empty for every page, or enter ranges such as 1-3,5,8-'}
+              </p>
+            </div>
+          </div>
+
+          {format === "jpeg" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="export-quality">
+                JPEG quality: {jpegQuality}%
+              </label>
+              <input
+                id="export-quality"
+                type="range"
+                min={30}
+                max={100}
+                step={5}
+                value={jpegQuality}
+                onChange={(e) => setJpegQuality(Number(e.target.value))}
+                className="w-full sm:w-64 accent-fuchsia-600"
+                disabled={isUploading}
+              />
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-fuchsia-600 hover:bg-fuchsia-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleExport}
+              disabled={isUploading || Boolean(pagesError ?? dpiError)}
+            >
+              {isUploading ? "Exporting..." : `Export as ${PAGE_IMAGE_FORMATS[format].label}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Exports</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  PdfToTextOptions,
+  TEXT_EXPORT_FORMATS,
+  TextExportFormat,
+  acceptsMimeType,
+  getConverter,
+} from "../../convex/converters";
+import { parsePageRanges } from "../../convex/pageRanges";
+import { formatFileSize, getAcceptAttribute } from "../lib/converters";
+
+const converter = getConverter("pdf_to_text");
+
+const FORMAT_OPTIONS = Object.entries(TEXT_EXPORT_FORMATS) as [TextExportFormat, (typeof TEXT_EXPORT_FORMATS)[TextExportFormat]][];
+
+export function PdfToTextConverter() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<TextExportFormat>("text");
+  const [pages, setPages] = useState("");
+
+  // Syntax errors are shown while typing; page counts are checked on the server
+  let pagesError: string | null = null;
+  if (pages.trim()) {
+    try {
+      parsePageRanges(pages);
+    } catch (error) {
+      pagesError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!acceptsMimeType(converter, file.type)) {
+      toast.error('Please upload a PDF file');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  async function handleExtract() {
+    if (!selectedFile) {
+      toast.error('Please select a PDF file to extract text from');
+      return;
+    }
+    if (pagesError) {
+      toast.error(pagesError);
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading PDF...');
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": selectedFile.type },
+        body: selectedFile,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+      const options: PdfToTextOptions = { format, ...(pages.trim() ? { pages } : {}) };
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: selectedFile.name,
+        options,
+      });
+
+      toast.success('PDF uploaded and text extraction started', { id: progressToastId });
+      setSelectedFile(null);
+    } catch (error) {
+      console.error("Error during upload/extraction:", error);
+      toast.error('Upload or extraction failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-cyan-500 bg-cyan-50' : 'border-gray-300 hover:border-cyan-400 hover:bg-cyan-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={getAcceptAttribute(converter.id)}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-cyan-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-cyan-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25H12" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a PDF file here to extract its text"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${formatFileSize(selectedFile.size)}, click to choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-cyan-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-cyan-600 font-medium">Maximum {converter.maxFileSizeMb}MB</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Extraction Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">Output format</h3>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {FORMAT_OPTIONS.map(([id, option]) => (
+              <label
+                key={id}
+                className={`border rounded-lg p-3 cursor-pointer transition-colors
+                  ${format === id ? 'border-cyan-500 bg-cyan-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <input
+                  type="radio"
+                  name="text-format"
+                  className="sr-only"
+                  checked={format === id}
+                  onChange={() => setFormat(id)}
+                  disabled={isUploading}
+                />
+                <p className="font-medium text-gray-800">{option.label} <span className="text-xs text-gray-400">.{option.extension}</span></p>
+                <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="text-pages">
+              Pages
+            </label>
+            <input
+              id="text-pages"
+              type="text"
+              value={pages}
+              onChange={(e) => setPages(e.target.value)}
+              placeholder="All pages"
+              className={`w-full sm:w-64 border rounded-md px-3 py-2 ${pagesError ? 'border-red-400' : 'border-gray-300'}`}
+              disabled={isUploading}
+            />
+            <p className={`text-xs mt-1 ${pagesError ? 'text-red-500' : 'text-gray-500'}`}>
+              {pagesError ?? 'Leave empty for every page, or enter ranges such as 1-3,5,8-'}
+            </p>
+          </div>
+          <p className="text-xs text-gray-500">
+            Text is read from the PDF's text layer. Scanned pages without one come out empty.
+          </p>
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-cyan-600 hover:bg-cyan-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleExtract}
+              disabled={isUploading || Boolean(pagesError)}
+            >
+              {isUploading ? "Extracting..." : "Extract text"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Extractions</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,461 @@
+import { useState, useRef, FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import {
+  IMAGE_INPUT_FORMATS,
+  MIME_TYPES,
+  PdfWatermarkOptions,
+  WATERMARK_ANCHORS,
+  WATERMARK_DEFAULTS,
+  WATERMARK_FONTS,
+  WatermarkAnchor,
+  WatermarkFont,
+  getConverter,
+  getFileMimeType,
+} from "../../convex/converters";
+import { parsePageRanges } from "../../convex/pageRanges";
+import { formatFileSize } from "../lib/converters";
+
+const converter = getConverter("pdf_watermark");
+
+const FONT_OPTIONS = Object.entries(WATERMARK_FONTS) as [WatermarkFont, (typeof WATERMARK_FONTS)[WatermarkFont]][];
+
+const ANCHOR_OPTIONS = Object.entries(WATERMARK_ANCHORS) as [WatermarkAnchor, (typeof WATERMARK_ANCHORS)[WatermarkAnchor]][];
+
+const ROTATION_PRESETS = [0, 45, 90];
+
+const IMAGE_ACCEPT = IMAGE_INPUT_FORMATS.flatMap((format) => [
+  ...format.mimeTypes,
+  ...format.extensions.map((extension) => `.${extension}`),
+]).join(',');
+
+function isImageFile(file: File): boolean {
+  return getFileMimeType(file).startsWith('image/');
+}
+
+export function PdfWatermarker() {
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const logoInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [type, setType] = useState<PdfWatermarkOptions["type"]>("text");
+  const [text, setText] = useState<string>(WATERMARK_DEFAULTS.text);
+  const [font, setFont] = useState<WatermarkFont>(WATERMARK_DEFAULTS.font);
+  const [fontSize, setFontSize] = useState<number>(WATERMARK_DEFAULTS.fontSize);
+  const [color, setColor] = useState<string>(WATERMARK_DEFAULTS.color);
+  const [imageScale, setImageScale] = useState<number>(WATERMARK_DEFAULTS.imageScale * 100);
+  const [opacity, setOpacity] = useState<number>(WATERMARK_DEFAULTS.opacity * 100);
+  const [rotation, setRotation] = useState<number>(WATERMARK_DEFAULTS.rotation);
+  const [anchor, setAnchor] = useState<WatermarkAnchor>(WATERMARK_DEFAULTS.anchor);
+  const [tile, setTile] = useState(false);
+  const [behindContent, setBehindContent] = useState(false);
+  const [pages, setPages] = useState("");
+
+  // Syntax errors are shown while typing; page counts are checked on the server
+  let pagesError: string | null = null;
+  if (pages.trim()) {
+    try {
+      parsePageRanges(pages);
+    } catch (error) {
+      pagesError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  const stampError = type === "text"
+    ? (!text.trim() ? 'Enter the watermark text' : null)
+    : (!logoFile ? 'Choose an image to stamp' : null);
+  const error = pagesError ?? stampError;
+
+  function handleFileSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (getFileMimeType(file) !== MIME_TYPES.pdf) {
+      toast.error('Please upload a PDF file');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setSelectedFile(file);
+  }
+
+  function handleLogoSelected(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+
+    if (!isImageFile(file)) {
+      toast.error('Please choose an image for the watermark');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+    setLogoFile(file);
+  }
+
+  async function upload(file: File): Promise<Id<"_storage">> {
+    const postUrl = await generateUploadUrl();
+    const result = await fetch(postUrl, {
+      method: "POST",
+      headers: { "Content-Type": getFileMimeType(file) },
+      body: file,
+    });
+    if (!result.ok) {
+      throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+    }
+    const { storageId } = await result.json();
+    return storageId;
+  }
+
+  async function handleWatermark() {
+    if (!selectedFile) {
+      toast.error('Please select a PDF file to watermark');
+      return;
+    }
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsUploading(true);
+    const progressToastId = toast.loading('Uploading PDF...');
+
+    try {
+      // The PDF first, then the logo
+      const sourceFileIds = [await upload(selectedFile)];
+      if (type === "image" && logoFile) {
+        sourceFileIds.push(await upload(logoFile));
+      }
+
+      const options: PdfWatermarkOptions = {
+        type,
+        ...(type === "text" ? { text, font, fontSize, color } : { imageScale: imageScale / 100 }),
+        opacity: opacity / 100,
+        rotation,
+        anchor,
+        tile,
+        behindContent,
+        ...(pages.trim() ? { pages } : {}),
+      };
+
+      await startJob({
+        type: converter.id,
+        sourceFileIds,
+        fileName: selectedFile.name,
+        options,
+      });
+
+      toast.success('PDF uploaded and watermarking started', { id: progressToastId });
+      setSelectedFile(null);
+    } catch (error) {
+      console.error("Error during upload/watermarking:", error);
+      toast.error('Upload or watermarking failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFileSelected(e.dataTransfer.files);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    handleFileSelected(e.currentTarget.files);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all
+          ${isDragging ? 'border-pink-500 bg-pink-50' : 'border-gray-300 hover:border-pink-400 hover:bg-pink-50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          type="file"
+          ref={fileInput}
+          className="hidden"
+          onChange={handleChange}
+          accept={MIME_TYPES.pdf}
+          disabled={isUploading}
+        />
+        <div className="flex flex-col items-center justify-center gap-4 py-4">
+          <div className="bg-pink-100 p-4 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-14 h-14 text-pink-600">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9.53 16.122a3 3 0 00-5.78 1.128 2.25 2.25 0 01-2.4 2.245 4.5 4.5 0 008.4-2.245c0-.399-.078-.78-.22-1.128zm0 0a15.998 15.998 0 003.388-1.62m-5.043-.025a15.994 15.994 0 011.622-3.395m3.42 3.42a15.995 15.995 0 004.764-4.648l3.876-5.814a1.151 1.151 0 00-1.597-1.597L14.146 6.32a15.996 15.996 0 00-4.649 4.763m3.42 3.42a6.776 6.776 0 00-3.42-3.42" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">
+              {selectedFile ? selectedFile.name : "Drop a PDF file here to watermark it"}
+            </h3>
+            <p className="text-gray-500 mt-2">
+              {selectedFile
+                ? `${formatFileSize(selectedFile.size)}, click to choose another file`
+                : "or click to browse files from your computer"}
+            </p>
+            <div className="mt-3 bg-pink-50 py-2 px-4 rounded-md inline-block">
+              <p className="text-sm text-pink-600 font-medium">Maximum {converter.maxFileSizeMb}MB</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Watermark Options */}
+      {selectedFile && (
+        <div className="space-y-4">
+          <h3 className="font-semibold">Watermark</h3>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {([["text", "Text", "A word or phrase such as CONFIDENTIAL or DRAFT"], ["image", "Image", "A logo or signature, transparent PNGs work best"]] as const).map(([id, label, description]) => (
+              <label
+                key={id}
+                className={`border rounded-lg p-3 cursor-pointer transition-colors
+                  ${type === id ? 'border-pink-500 bg-pink-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <input
+                  type="radio"
+                  name="watermark-type"
+                  className="sr-only"
+                  checked={type === id}
+                  onChange={() => setType(id)}
+                  disabled={isUploading}
+                />
+                <p className="font-medium text-gray-800">{label}</p>
+                <p className="text-xs text-gray-500 mt-1">{description}</p>
+              </label>
+            ))}
+          </div>
+
+          {type === "text" ? (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-text">
+                  Text
+                </label>
+                <input
+                  id="watermark-text"
+                  type="text"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2"
+                  disabled={isUploading}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-font">
+                  Font
+                </label>
+                <select
+                  id="watermark-font"
+                  value={font}
+                  onChange={(e) => setFont(e.target.value as WatermarkFont)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2"
+                  disabled={isUploading}
+                >
+                  {FONT_OPTIONS.map(([id, option]) => (
+                    <option key={id} value={id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-size">
+                    Size (pt)
+                  </label>
+                  <input
+                    id="watermark-size"
+                    type="number"
+                    min={4}
+                    max={400}
+                    value={fontSize}
+                    onChange={(e) => setFontSize(Number(e.target.value))}
+                    className="w-24 border border-gray-300 rounded-md px-3 py-2"
+                    disabled={isUploading}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-color">
+                    Colour
+                  </label>
+                  <input
+                    id="watermark-color"
+                    type="color"
+                    value={color}
+                    onChange={(e) => setColor(e.target.value)}
+                    className="h-10 w-16 border border-gray-300 rounded-md"
+                    disabled={isUploading}
+                  />
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Image</p>
+                <input
+                  type="file"
+                  ref={logoInput}
+                  className="hidden"
+                  onChange={(e) => { handleLogoSelected(e.currentTarget.files); e.currentTarget.value = ""; }}
+                  accept={IMAGE_ACCEPT}
+                  disabled={isUploading}
+                />
+                <button
+                  type="button"
+                  onClick={() => logoInput.current?.click()}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm hover:bg-gray-50"
+                  disabled={isUploading}
+                >
+                  {logoFile ? logoFile.name : "Choose image..."}
+                </button>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-scale">
+                  Width: {imageScale}% of the page
+                </label>
+                <input
+                  id="watermark-scale"
+                  type="range"
+                  min={5}
+                  max={100}
+                  step={5}
+                  value={imageScale}
+                  onChange={(e) => setImageScale(Number(e.target.value))}
+                  className="w-full accent-pink-600"
+                  disabled={isUploading}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-opacity">
+                Opacity: {opacity}%
+              </label>
+              <input
+                id="watermark-opacity"
+                type="range"
+                min={5}
+                max={100}
+                step={5}
+                value={opacity}
+                onChange={(e) => setOpacity(Number(e.target.value))}
+                className="w-full accent-pink-600"
+                disabled={isUploading}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-rotation">
+                Rotation (degrees)
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="watermark-rotation"
+                  type="number"
+                  min={-360}
+                  max={360}
+                  value={rotation}
+                  onChange={(e) => setRotation(Number(e.target.value))}
+                  className="w-24 border border-gray-300 rounded-md px-3 py-2"
+                  disabled={isUploading}
+                />
+                {ROTATION_PRESETS.map((preset) => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => setRotation(preset)}
+                    className={`text-xs px-2 py-1 rounded-full border transition-colors
+                      ${rotation === preset ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    disabled={isUploading}
+                  >
+                    {preset}°
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Position</p>
+            <div className="flex flex-wrap gap-2">
+              {ANCHOR_OPTIONS.map(([id, option]) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setAnchor(id)}
+                  className={`text-sm px-3 py-1 rounded-full border transition-colors
+                    ${anchor === id && !tile ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                  disabled={isUploading || tile}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-2 space-y-1">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={tile} onChange={(e) => setTile(e.target.checked)} disabled={isUploading} />
+                Repeat across the whole page
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={behindContent} onChange={(e) => setBehindContent(e.target.checked)} disabled={isUploading} />
+                Place behind the page content (hidden on scanned pages)
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="watermark-pages">
+              Pages
+            </label>
+            <input
+              id="watermark-pages"
+              type="text"
+              value={pages}
+              onChange={(e) => setPages(e.target.value)}
+              placeholder="All pages"
+              className={`w-full sm:w-64 border rounded-md px-3 py-2 ${pagesError ? 'border-red-400' : 'border-gray-300'}`}
+              disabled={isUploading}
+            />
+            <p className={`text-xs mt-1 ${pagesError ? 'text-red-500' : 'text-gray-500'}`}>
+              {pagesError ?? 'Leave empty for every page, or enter ranges such as 1-3,5,8-'}
+            </p>
+          </div>
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="bg-pink-600 hover:bg-pink-700 text-white py-3 px-8 rounded-lg font-medium text-lg shadow-md transition-colors w-full sm:w-auto flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={handleWatermark}
+              disabled={isUploading || Boolean(error)}
+            >
+              {isUploading ? "Watermarking..." : "Add watermark"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Watermarks</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { useConvex, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { ConversionsList } from "../ConversionsList";
+import { acceptsFile, getConverter, getFileMimeType } from "../../convex/converters";
+import { getAcceptAttribute, isCompletedStatus } from "../lib/converters";
+
+const converter = getConverter("word_to_pdf");
+
+type ConvertedFile = {
+  fileName: string;
+  conversionId: Id<"conversions">;
+  url: string | null;
+  // Some content, e.g. an EMF image, could not be reproduced
+  hasWarnings: boolean;
+};
+
+export function WordToPdfUploader() {
+  const convex = useConvex();
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const startJob = useMutation(api.files.startJob);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const activeToastId = useRef<string | number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [lastConvertedFile, setLastConvertedFile] = useState<ConvertedFile | null>(null);
+
+  // Poll the job until it finishes, then show the result card
+  const pendingConversionId = lastConvertedFile && !lastConvertedFile.url ? lastConvertedFile.conversionId : null;
+  useEffect(() => {
+    if (!pendingConversionId) return;
+
+    let stopped = false;
+    const checkStatus = async () => {
+      try {
+        const conversion = await convex.query(api.files.getConversion, { conversionId: pendingConversionId });
+        if (stopped || !conversion) return;
+
+        if (isCompletedStatus(conversion.status) && conversion.outputUrl) {
+          stopped = true;
+          setLastConvertedFile((prev) => prev && {
+            ...prev,
+            url: conversion.outputUrl,
+            hasWarnings: conversion.status === "completed_with_warnings",
+          });
+          if (activeToastId.current) {
+            toast.success('Word document converted to PDF', { id: activeToastId.current });
+            activeToastId.current = null;
+          }
+        } else if (conversion.status === "failed") {
+          stopped = true;
+          setLastConvertedFile(null);
+          if (activeToastId.current) {
+            toast.error('Conversion failed: ' + (conversion.error ?? 'Unknown error'), { id: activeToastId.current });
+            activeToastId.current = null;
+          }
+        }
+      } catch (error) {
+        console.error("Error checking conversion status:", error);
+        stopped = true;
+      }
+    };
+
+    void checkStatus();
+    const interval = setInterval(() => {
+      if (stopped) {
+        clearInterval(interval);
+      } else {
+        void checkStatus();
+      }
+    }, 3000);
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [pendingConversionId, convex]);
+
+  async function handleFileUpload(file: File) {
+    if (!acceptsFile(converter, file)) {
+      toast.error('Please upload a Word document (.docx)');
+      return;
+    }
+    if (file.size > converter.maxFileSizeMb * 1024 * 1024) {
+      toast.error(`File size must be less than ${converter.maxFileSizeMb}MB`);
+      return;
+    }
+
+    setIsUploading(true);
+    setLastConvertedFile(null);
+    const progressToastId = toast.loading('Uploading Word document...');
+    activeToastId.current = progressToastId;
+
+    try {
+      const postUrl = await generateUploadUrl();
+      const result = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": getFileMimeType(file) },
+        body: file,
+      });
+
+      if (!result.ok) {
+        throw new Error(`Upload failed: ${result.status} ${result.statusText}`);
+      }
+
+      const { storageId } = await result.json();
+      const conversionId = await startJob({
+        type: converter.id,
+        sourceFileIds: [storageId],
+        fileName: file.name,
+      });
+
+      toast.loading('Converting Word document to PDF...', { id: progressToastId });
+      setLastConvertedFile({ fileName: file.name, conversionId, url: null, hasWarnings: false });
+    } catch (error) {
+      console.error("Error during upload/conversion:", error);
+      toast.error('Upload or conversion failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        { id: progressToastId });
+      activeToastId.current = null;
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  async function handleDownload() {
+    if (!lastConvertedFile?.url) {
+      toast.error("No PDF available for download");
+      return;
+    }
+
+    const toastId = toast.loading("Preparing download...");
+    try {
+      const response = await fetch(lastConvertedFile.url);
+      if (!response.ok) {
+        toast.error("Failed to download file. Please try again.", { id: toastId });
+        return;
+      }
+
+      const blobUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = lastConvertedFile.fileName.replace(/\.[^.]+$/, '') + '.pdf';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(blobUrl), 100);
+
+      toast.success("Download complete", { id: toastId });
+    } catch (error) {
+      console.error("Download error:", error);
+      toast.error("Download failed: " + (error instanceof Error ? error.message : "Unknown error"), { id: toastId });
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFileUpload(file);
+  }
+
+  function handleChange(e: FormEvent<HTMLInputElement>) {
+    const file = e.currentTarget.files?.[0];
+    if (file) handleFileUpload(file);
+    e.currentTarget.value = "";
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* File Upload Area */}
+      <div
+        className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-all
+          ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400 hover:bg-blue-50/50'}
+          ${isUploading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInput.current?.click()}
+      >
+        <input
+          ref={fileInput}
+          type="file"
+          accept={getAcceptAttribute(converter.id)}
+          onChange={handleChange}
+          className="hidden"
+          disabled={isUploading}
+        />
+
+        <div className="max-w-xs mx-auto">
+          <div className="w-20 h-20 mx-auto mb-6 bg-gradient-to-br from-blue-100 to-blue-50 rounded-lg flex items-center justify-center border border-blue-200">
+            <svg className="w-10 h-10 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25M9 12.75l1.5 4.5 1.5-4.5 1.5 4.5 1.5-4.5M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+            </svg>
+          </div>
+
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">
+            {isUploading ? "Uploading..." : "Drop your Word document here"}
+          </h3>
+          <p className="text-sm text-gray-600 mb-4">
+            or click to select a .docx file to convert to PDF
+          </p>
+          <p className="text-xs text-gray-500">
+            Max size: {converter.maxFileSizeMb}MB. Headings, lists, tables and images are kept; text is set in Helvetica.
+          </p>
+        </div>
+      </div>
+
+      {/* Result */}
+      {lastConvertedFile?.url && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-soft p-6 animate-fade-in">
+          <div className="flex items-center mb-4">
+            <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center text-green-600 mr-3">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h3 className="text-lg font-semibold text-gray-800">Conversion Successful!</h3>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-4 mb-5 border border-gray-100">
+            <h4 className="text-sm font-medium text-gray-900 truncate">{lastConvertedFile.fileName}</h4>
+            <p className="text-xs text-gray-500">PDF Document (.pdf)</p>
+            {lastConvertedFile.hasWarnings && (
+              <p className="mt-2 text-xs text-amber-700">
+                Some images could not be converted and were left out.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-3 justify-center sm:justify-start">
+            <button
+              onClick={handleDownload}
+              className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-sm transition-all duration-300 hover:shadow flex items-center"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Download PDF
+            </button>
+            <button
+              onClick={() => window.open(lastConvertedFile.url!, '_blank')}
+              className="py-2 px-4 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded-lg shadow-sm transition-all duration-300 hover:shadow flex items-center"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+              </svg>
+              Open in New Tab
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Previous Conversions */}
+      <div>
+        <h3 className="font-semibold mb-4">Your Previous Conversions</h3>
+        <ConversionsList type={converter.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import {
+  ConverterId,
+  MIME_TYPES,
+  OCR_LOW_CONFIDENCE,
+  getConverter,
+} from "../../convex/converters";
+
+// One of the individual files of a multi-output conversion, e.g. a split part
+export type OutputFile = {
+  fileName: string;
+  pages?: string;
+  url: string | null;
+};
+
+// Outcome of reading one input, for converters that skip unreadable inputs
+export type SourceResultSummary = {
+  fileName?: string;
+  status: "ok" | "encrypted" | "corrupt" | "empty";
+  error?: string;
+};
+
+// Why a job failed, when the server recorded more than the error message
+export type FailureReasonSummary = {
+  code: "unreadable_input" | "all_engines_failed";
+  attempts: { engine: string; error: string }[];
+};
+
+// How sure OCR was of one page
+export type PageConfidenceSummary = {
+  page: number;
+  confidence: number;
+  words: number;
+};
+
+// Fields of a conversion record the history views need to describe it
+export type ConversionSummary = {
+  type: ConverterId;
+  fileName: string;
+  outputUrl?: string | null;
+  pdfUrl?: string | null;
+  docxUrl?: string | null;
+  outputFiles?: OutputFile[];
+  // Byte sizes before and after, for converters that shrink their input
+  inputSize?: number;
+  outputSize?: number;
+  // Set by the server for converters that write one of several formats
+  outputExtension?: string;
+  pageConfidence?: PageConfidenceSummary[];
+};
+
+export function getTypeLabel(type: ConverterId): string {
+  return getConverter(type).label;
+}
+
+// Records created before the registry stored their result in pdfFileId/docxFileId
+export function getOutputUrl(conversion: ConversionSummary): string | null {
+  if (conversion.outputUrl) {
+    return conversion.outputUrl;
+  }
+  const converter = getConverter(conversion.type);
+  return (converter.outputMimeType === MIME_TYPES.docx ? conversion.docxUrl : conversion.pdfUrl) ?? null;
+}
+
+// File name for the download, with the extension of the converter's output
+export function getOutputFileName(conversion: ConversionSummary): string {
+  const extension = conversion.outputExtension ?? getConverter(conversion.type).outputExtension;
+  if (conversion.fileName.toLowerCase().endsWith(`.${extension}`)) {
+    return conversion.fileName;
+  }
+  return conversion.fileName.replace(/\.[^.]+$/, '') + `.${extension}`;
+}
+
+// Individual outputs the browser can show as pictures, e.g. rendered pages
+export function isImageOutput(output: OutputFile): boolean {
+  return /\.(png|jpe?g)$/i.test(output.fileName);
+}
+
+// "PDF", "image" or "file" depending on what the converter accepts
+export function getSourceNoun(type: ConverterId): string {
+  const { accept } = getConverter(type);
+  if (accept.every((mimeType) => mimeType === MIME_TYPES.pdf)) {
+    return 'PDF';
+  }
+  if (accept.every((mimeType) => mimeType.startsWith('image/'))) {
+    return 'image';
+  }
+  return 'file';
+}
+
+export function describeSources(type: ConverterId, count: number): string {
+  return `${count} ${getSourceNoun(type)}${count !== 1 ? 's' : ''}`;
+}
+
+// Value for an <input type="file" accept="..."> attribute
+export function getAcceptAttribute(type: ConverterId): string {
+  return getConverter(type).accept.join(',');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / 1048576).toFixed(1) + ' MB';
+}
+
+// "2.4 MB → 610.2 KB (75% smaller)", or null when the sizes were not recorded
+export function describeSizeChange(conversion: ConversionSummary): string | null {
+  const { inputSize, outputSize } = conversion;
+  if (inputSize === undefined || outputSize === undefined) {
+    return null;
+  }
+  const saved = inputSize > 0 ? Math.round((1 - outputSize / inputSize) * 100) : 0;
+  return `${formatFileSize(inputSize)} → ${formatFileSize(outputSize)} ` +
+    (saved > 0 ? `(${saved}% smaller)` : '(could not be made smaller)');
+}
+
+// "OCR confidence 91% over 4 pages, low on page 3", or null for jobs without OCR
+export function describePageConfidence(conversion: ConversionSummary): string | null {
+  const pages = (conversion.pageConfidence ?? []).filter((page) => page.words > 0);
+  if (pages.length === 0) {
+    return null;
+  }
+  // Weighted by words, so a page with a stray mark does not drag the mean down
+  const words = pages.reduce((total, page) => total + page.words, 0);
+  const average = Math.round(pages.reduce((total, page) => total + page.confidence * page.words, 0) / words);
+  const low = pages.filter((page) => page.confidence < OCR_LOW_CONFIDENCE).map((page) => page.page);
+  return `OCR confidence ${average}% over ${pages.length} page${pages.length !== 1 ? 's' : ''}` +
+    (low.length > 0 ? `, low on page${low.length !== 1 ? 's' : ''} ${low.join(', ')}` : '');
+}
+
+// Both finished states have a downloadable output
+export function isCompletedStatus(status: string): boolean {
+  return status === "completed" || status === "completed_with_warnings";
+}
+
+export function formatStatus(status: string): string {
+  return status === "completed_with_warnings" ? "completed with warnings" : status;
+}
+
+// Inputs that were left out of the output, described for display
+export function describeSkippedSources(sourceResults: SourceResultSummary[] | undefined): string[] {
+  return (sourceResults ?? [])
+    .map((result, index) => ({ result, index }))
+    .filter(({ result }) => result.status !== "ok")
+    .map(({ result, index }) => `${result.fileName ?? `File ${index + 1}`}: ${result.status}`);
+}
+
+// What each backend reported for a failed job, in the order they were tried
+export function describeFailedAttempts(failureReason: FailureReasonSummary | undefined): string[] {
+  return (failureReason?.attempts ?? []).map((attempt) => `${attempt.engine}: ${attempt.error}`);
+}
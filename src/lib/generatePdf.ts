@@ -1,6 +1,14 @@
 import { ConvexClient } from "convex/browser";
 import { api } from "../../convex/_generated/api";
 import { jsPDF } from "jspdf";
+import { ImageToPdfOptions } from "../../convex/converters";
+import {
+  getGridCaptionTexts,
+  getPageLabelTexts,
+  planImagePages,
+  resolveImageLayout,
+  resolvePageLabels,
+} from "../../convex/imageLayout";
 
 // Function to get signed URLs for images
 export const getImageUrls = async (
@@ -34,140 +42,130 @@ export const getImageUrls = async (
   }
 };
 
-// Client-side PDF generation with simplified approach
-export const generatePdfFromImages = async (imageUrls: string[]): Promise<ArrayBuffer> => {
-  console.log(`Starting simplified PDF generation with ${imageUrls.length} images`);
-  
-  // Create a new PDF document with A4 size
-  const doc = new jsPDF({
-    orientation: "portrait",
-    unit: "mm",
-    format: "a4"
+type LoadedImage = {
+  img: HTMLImageElement;
+  // How jsPDF embeds it: JPEG photos as they are, everything else as PNG so
+  // transparency survives (jsPDF redraws non-JPEG sources through a canvas)
+  format: 'JPEG' | 'PNG';
+};
+
+// Browsers already draw images with their EXIF orientation applied
+const loadImage = (url: string, index: number, total: number): Promise<LoadedImage> => {
+  return new Promise<LoadedImage>((resolve, reject) => {
+    console.log(`Processing image ${index + 1}/${total}...`);
+    const img = new Image();
+    let format: LoadedImage['format'] = 'PNG';
+    
+    img.onload = () => {
+      console.log(`Successfully loaded image ${index + 1} (${img.width}x${img.height}, ${format})`);
+      URL.revokeObjectURL(img.src);
+      resolve({ img, format });
+    };
+    
+    // A PDF with a placeholder instead of the image is no use, so the whole
+    // conversion fails, e.g. for HEIC or TIFF files the browser cannot decode
+    img.onerror = (e) => {
+      console.error(`Failed to load image ${index + 1} from URL: ${url}`, e);
+      reject(new Error(`Image ${index + 1} could not be read by the browser`));
+    };
+    
+    // The upload's own type is only known from the response, so the image is
+    // fetched first and shown from a blob URL, which also keeps the canvas clean
+    fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        return response.blob();
+      })
+      .then((blob) => {
+        format = blob.type === 'image/jpeg' ? 'JPEG' : 'PNG';
+        img.src = URL.createObjectURL(blob);
+      })
+      .catch((error) => img.onerror?.(error));
   });
+};
 
-  const pageWidth = 210; // A4 width in mm
-  const pageHeight = 297; // A4 height in mm
-  const margin = 10; // margin in mm
+// Client-side PDF generation, using the same page layout as the server
+export const generatePdfFromImages = async (
+  imageUrls: string[],
+  options: ImageToPdfOptions = {}
+): Promise<ArrayBuffer> => {
+  console.log(`Starting simplified PDF generation with ${imageUrls.length} images`);
+  
+  const layout = resolveImageLayout(options);
+  const labels = resolvePageLabels(options.labels);
   
   // First convert all images to HTMLImageElement objects
-  const imagePromises = imageUrls.map((url, index) => {
-    return new Promise<HTMLImageElement>((resolve, reject) => {
-      console.log(`Processing image ${index + 1}/${imageUrls.length}...`);
-      const img = new Image();
-      
-      // Set crossOrigin to anonymous to prevent tainted canvas issues
-      img.crossOrigin = "anonymous"; 
-      
-      img.onload = () => {
-        console.log(`Successfully loaded image ${index + 1} (${img.width}x${img.height})`);
-        resolve(img);
-      };
-      
-      img.onerror = (e) => {
-        console.error(`Failed to load image ${index + 1} from URL: ${url}`, e);
-        // Instead of failing, create a placeholder image
-        const canvas = document.createElement('canvas');
-        canvas.width = 800;
-        canvas.height = 600;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.fillStyle = '#f0f0f0';
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          ctx.fillStyle = '#ff0000';
-          ctx.font = '30px Arial';
-          ctx.textAlign = 'center';
-          ctx.fillText(`Error loading image ${index + 1}`, canvas.width / 2, canvas.height / 2);
-          
-          const placeholderImg = new Image();
-          placeholderImg.src = canvas.toDataURL('image/png');
-          placeholderImg.onload = () => resolve(placeholderImg);
-        } else {
-          // If canvas context fails, reject
-          reject(new Error(`Could not create placeholder for image ${index + 1}`));
-        }
-      };
-      
-      // Set src after setting handlers
-      img.src = url;
-    });
+  const images = await Promise.all(imageUrls.map((url, index) => loadImage(url, index, imageUrls.length)));
+  console.log(`Successfully processed ${images.length} images. Creating PDF...`);
+  
+  // Page sizes can depend on the image, so they are known only now
+  const pages = planImagePages(images.map(({ img }) => ({ width: img.naturalWidth, height: img.naturalHeight })), layout);
+  const pageFormat = (index: number) => ({
+    format: [pages[index].pageWidth, pages[index].pageHeight],
+    orientation: pages[index].pageWidth > pages[index].pageHeight ? "landscape" as const : "portrait" as const,
   });
   
-  try {
-    // Wait for all images to load (or for placeholders to be created)
-    const images = await Promise.all(imagePromises);
-    console.log(`Successfully processed ${images.length} images. Creating PDF...`);
+  // jsPDF starts with one page, which is given the first page's size
+  const doc = new jsPDF({ unit: "pt", ...pageFormat(0) });
+  
+  for (let p = 0; p < pages.length; p++) {
+    const { pageWidth, pageHeight } = pages[p];
     
-    // Add each image to a separate page
-    for (let i = 0; i < images.length; i++) {
-      // Add new page for images after the first one
-      if (i > 0) {
-        doc.addPage();
-      }
+    // Add new page for pages after the first one
+    if (p > 0) {
+      const { format, orientation } = pageFormat(p);
+      doc.addPage(format, orientation);
+    }
+    
+    for (const { index: i, placement } of pages[p].images) {
+      const { img, format } = images[i];
+      if (!placement) continue;
       
       try {
-        const img = images[i];
-        
-        // Calculate dimensions for fitting image on page with margins
-        const availableWidth = pageWidth - (2 * margin);
-        const availableHeight = pageHeight - (2 * margin);
+        console.log(`Adding image ${i + 1} to page ${p + 1} at position (${placement.x.toFixed(1)}, ${placement.y.toFixed(1)}) with size ${placement.width.toFixed(1)}x${placement.height.toFixed(1)}pt`);
         
-        // Calculate image dimensions while preserving aspect ratio
-        let imgWidth = availableWidth;
-        let imgHeight = (img.height * imgWidth) / img.width;
-        
-        // If height exceeds available height, adjust dimensions based on height
-        if (imgHeight > availableHeight) {
-          imgHeight = availableHeight;
-          imgWidth = (img.width * imgHeight) / img.height;
+        // Cover scales the image past its area, so clip it to the area
+        doc.saveGraphicsState();
+        if (placement.clip) {
+          const { area } = placement;
+          doc.rect(area.x, area.y, area.width, area.height, null);
+          doc.clip();
+          doc.discardPath();
         }
-        
-        // Calculate position to center the image
-        const x = margin + (availableWidth - imgWidth) / 2;
-        const y = margin + (availableHeight - imgHeight) / 2;
-        
-        console.log(`Adding image ${i + 1} to page ${i + 1} at position (${x.toFixed(1)}, ${y.toFixed(1)}) with size ${imgWidth.toFixed(1)}x${imgHeight.toFixed(1)}mm`);
-        
-        // Add image to PDF
         doc.addImage(
           img,
-          'JPEG',
-          x,
-          y,
-          imgWidth,
-          imgHeight
+          format,
+          placement.x,
+          placement.y,
+          placement.width,
+          placement.height
         );
-        
-        // Add page number
-        doc.setFontSize(8);
-        doc.setTextColor(150);
-        doc.text(`Page ${i + 1} of ${images.length}`, pageWidth / 2, pageHeight - 5, { align: 'center' });
+        doc.restoreGraphicsState();
       } catch (error) {
         console.error(`Error adding image ${i + 1} to PDF:`, error);
-        // Add error text if image fails
-        doc.setFontSize(14);
-        doc.setTextColor(255, 0, 0);
-        doc.text(`Error adding image ${i + 1} to PDF`, pageWidth / 2, pageHeight / 2, { align: 'center' });
+        throw new Error(`Image ${i + 1} could not be added to the PDF: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
     
-    console.log('PDF generation completed successfully');
-    return doc.output('arraybuffer');
-    
-  } catch (error) {
-    console.error('Error during PDF generation:', error);
-    
-    // Create a simple error PDF if all else fails
-    const errorDoc = new jsPDF();
-    errorDoc.setFontSize(16);
-    errorDoc.setTextColor(255, 0, 0);
-    errorDoc.text('Error generating PDF from images', 20, 20);
-    errorDoc.setFontSize(12);
-    errorDoc.setTextColor(0);
-    errorDoc.text(`Attempted to process ${imageUrls.length} images`, 20, 40);
-    errorDoc.text(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`, 20, 60);
-    
-    return errorDoc.output('arraybuffer');
+    // Page number and captions, placed like the server places them
+    doc.setTextColor(153);
+    const fileNames = options.sourceFileNames ?? [];
+    const texts = layout.grid
+      ? [
+        ...getPageLabelTexts(pageWidth, pageHeight, layout.margin, labels, p + 1, pages.length),
+        ...getGridCaptionTexts(layout, p, fileNames),
+      ]
+      : getPageLabelTexts(pageWidth, pageHeight, layout.margin, labels, p + 1, pages.length, fileNames[p]);
+    for (const label of texts) {
+      doc.setFontSize(label.fontSize);
+      doc.text(label.text, label.x, label.baseline, { align: label.align });
+    }
   }
+  
+  console.log('PDF generation completed successfully');
+  return doc.output('arraybuffer');
 };
 
 // Function to upload the generated PDF to Convex storage
@@ -201,14 +199,15 @@ export async function uploadPdf(convex: ConvexClient, pdfBuffer: ArrayBuffer, fi
 export async function convertImagesToPdf(
   convex: ConvexClient, 
   sourceFileIds: string[],
-  fileName: string
+  fileName: string,
+  options?: ImageToPdfOptions
 ): Promise<{ storageId: string, url: string }> {
   // Get signed URLs for all images
   const imageUrls = await getImageUrls(convex, sourceFileIds);
   
   // Generate PDF from images (client-side)
-  const pdfBuffer = await generatePdfFromImages(imageUrls);
+  const pdfBuffer = await generatePdfFromImages(imageUrls, options);
   
   // Upload the PDF to Convex storage
   return await uploadPdf(convex, pdfBuffer, fileName);
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,65 @@
+// Renders page thumbnails of a local PDF in the browser with pdf.js.
+// The legacy build is used because the app targets ES2015.
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf";
+import workerUrl from "pdfjs-dist/legacy/build/pdf.worker.min.js?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+export type PageThumbnail = {
+  // 1-based page number in the PDF
+  page: number;
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+// Thumbnails are rendered at this width in CSS pixels, doubled for sharp displays
+const THUMBNAIL_WIDTH = 160;
+
+export async function renderPdfThumbnails(
+  file: File,
+  onProgress?: (rendered: number, total: number) => void
+): Promise<PageThumbnail[]> {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const thumbnails: PageThumbnail[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: (THUMBNAIL_WIDTH * 2) / unscaled.width });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error("Canvas is not supported in this browser");
+      }
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      thumbnails.push({
+        page: pageNumber,
+        dataUrl: canvas.toDataURL("image/jpeg", 0.8),
+        width: viewport.width,
+        height: viewport.height,
+      });
+      page.cleanup();
+      onProgress?.(pageNumber, pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return thumbnails;
+}
+
+// Page count only, without rendering anything
+export async function getPdfPageCount(file: File): Promise<number> {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    return pdf.numPages;
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -37,6 +37,11 @@ export default defineConfig({
           if (id.includes('node_modules/html2canvas/')) {
             return 'vendor-canvas';
           }
+
+          // PDF rendering for page thumbnails - only the page tools use it
+          if (id.includes('node_modules/pdfjs-dist/')) {
+            return 'vendor-pdfjs';
+          }
         }
       }
     },